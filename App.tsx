@@ -1,351 +1,309 @@
 
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { COMMODITIES, INITIAL_CASH, TICK_RATE } from './constants';
-import { GameState, MarketPrice, CommodityCategory, ProductionFacility, DailyLedger, LifetimeStats, GlobalEvent } from './types';
+import { COMMODITIES, REGIONS, TICK_RATE, FAST_FORWARD_TICK, LEDGER_CYCLE, AUTOSAVE_INTERVAL, AUTOSAVE_SLOT_ID } from './constants';
+import { CommodityCategory, ContractOutcome, EngineEvent, FastForwardTarget, GameAction, GameState, LoanProduct, OrderType, RegionId, TaxFiling, TaxPaymentMode, TaxRegimeId } from './types';
 import CommodityCard from './components/CommodityCard';
 import ProductionPanel from './components/ProductionPanel';
-import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
-
-const DAILY_INTEREST_RATE = 0.015; // 1.5% daily
-const INITIAL_TAX_RATE = 0.15; // 15%
-const TAX_CYCLE = 30; // Every 30 days
-
-const EVENTS_POOL: Omit<GlobalEvent, 'remainingDays' | 'duration'>[] = [
-  { name: "OPEC Production Cut", description: "Energy prices surge as oil supply is restricted.", category: CommodityCategory.ENERGY, multiplier: 2.1 },
-  { name: "Global Drought", description: "Crop failures leading to massive grain shortages.", category: CommodityCategory.AGRICULTURE, multiplier: 1.8 },
-  { name: "Financial Safe Haven", description: "Investors rush to precious metals amid uncertainty.", category: CommodityCategory.METAL, multiplier: 1.6 },
-  { name: "Livestock Epidemic", description: "Supply chain collapse in meat production.", category: CommodityCategory.LIVESTOCK, multiplier: 2.3 },
-  { name: "Technological Breakthrough", description: "Efficiency gains lead to market surplus and price drops.", category: 'ALL', multiplier: 0.5 },
-  { name: "Trade War Escalation", description: "Global tariffs crush industrial demand.", category: CommodityCategory.METAL, multiplier: 0.6 },
-  { name: "Energy Discovery", description: "New shale reserves discovered, energy prices tank.", category: CommodityCategory.ENERGY, multiplier: 0.4 },
-];
+import SavePanel from './components/SavePanel';
+import OrdersPanel from './components/OrdersPanel';
+import MarginPanel from './components/MarginPanel';
+import JournalPanel from './components/JournalPanel';
+import WarehousePanel from './components/WarehousePanel';
+import ShippingPanel from './components/ShippingPanel';
+import CreditPanel from './components/CreditPanel';
+import NewsPanel from './components/NewsPanel';
+import PriceChart from './components/PriceChart';
+import AnalyticsPanel from './components/AnalyticsPanel';
+import ProfitBreakdown from './components/ProfitBreakdown';
+import CommandConsole from './components/CommandConsole';
+import BotPanel from './components/BotPanel';
+import TimeControls from './components/TimeControls';
+import TaxPanel from './components/TaxPanel';
+import ContractsPanel from './components/ContractsPanel';
+import { useGameEngine } from './hooks/useGameEngine';
+import { useStrategyBots } from './hooks/useStrategyBots';
+import { useTimedNotice } from './hooks/useTimedNotice';
+import { createInitialState } from './engine/simulation';
+import { randomSeed } from './engine/rng';
+import { getInventoryValue, getInfrastructureValue, getNetEquity, getCommodity, getRegion, getItem, getPrice, getReservedUnits, isBankrupt } from './engine/economy';
+import { getMaxShortable } from './engine/margin';
+import { getSchedule, isPledged } from './engine/credit';
+import { getEventDefinition } from './engine/events';
+import { getFreeCapacity } from './engine/storage';
+import { describeTarget, getFastForwardStop } from './engine/fastForward';
+import { getUnrealizedPnl } from './engine/lots';
+import { ORDER_CLOSE_REASONS, ORDER_LABELS } from './engine/orders';
+import { readSave, writeSave } from './services/saveStorage';
+
+interface InitialLoad {
+  state: GameState;
+  // Why the autosave could not be resumed, if there was one
+  discarded: string | null;
+}
+
+// Resume the last autosave after a refresh; fall back to a fresh run if it is missing or unreadable
+const loadInitialState = (): InitialLoad => {
+  try {
+    const save = readSave(AUTOSAVE_SLOT_ID);
+    return { state: save ? save.state : createInitialState(randomSeed()), discarded: null };
+  } catch (e) {
+    return { state: createInitialState(randomSeed()), discarded: `Started a new run; the autosave could not be read: ${e instanceof Error ? e.message : String(e)}` };
+  }
+};
 
 const App: React.FC = () => {
-  const cyclePurchasesRef = useRef(0);
-  const cycleSalesRef = useRef(0);
-  const cycleProductionRef = useRef(0);
-
+  const [initialLoad] = useState(loadInitialState);
   const [isGameOver, setIsGameOver] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
-  const [repayAmount, setRepayAmount] = useState(0);
-  const [lastTaxPaid, setLastTaxPaid] = useState<number | null>(null);
-
-  const [gameState, setGameState] = useState<GameState>(() => {
-    const initialPrices: Record<string, MarketPrice> = {};
-    COMMODITIES.forEach(c => {
-      initialPrices[c.id] = {
-        id: c.id,
-        currentPrice: c.basePrice,
-        history: [c.basePrice],
-        trend: 'stable'
-      };
-    });
-
-    return {
-      cash: INITIAL_CASH,
-      debt: 0,
-      day: 1,
-      cycleProgress: 0,
-      inventory: COMMODITIES.map(c => ({ commodityId: c.id, quantity: 0 })),
-      facilities: [],
-      prices: initialPrices,
-      lastLedger: { sales: 0, purchases: 0, productionCosts: 0, net: 0 },
-      lifetime: {
-        totalSales: 0,
-        totalMarketPurchases: 0,
-        totalProductionCosts: 0,
-        totalConstruction: 0,
-        totalUpgrades: 0,
-        totalInterestPaid: 0,
-        totalTaxesPaid: 0
-      },
-      activeEvent: null,
-      taxRate: INITIAL_TAX_RATE,
-      nextTaxDay: TAX_CYCLE
-    };
-  });
+  const [speed, setSpeed] = useState(1);
+  const [fastForward, setFastForward] = useState<FastForwardTarget | null>(null);
+  const [lastAutosaveDay, setLastAutosaveDay] = useState<number | null>(null);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  // Kept up until another run is loaded, since the first autosave of the new run replaces the unreadable one
+  const [discardedAutosave, setDiscardedAutosave] = useState(initialLoad.discarded);
+  const [lastFiling, showTaxFiling] = useTimedNotice<TaxFiling>();
+  const [liquidationNotice, showLiquidation] = useTimedNotice<number>();
+  const [creditNotice, showCreditNotice] = useTimedNotice<string>();
+  const [breakdownNotice, showBreakdown] = useTimedNotice<string>();
+  const [contractNotice, showContractNotice] = useTimedNotice<ContractOutcome>();
+  const [orderNotice, showOrderNotice] = useTimedNotice<string>();
+  const [actionError, showActionError] = useTimedNotice<string>();
+  const [clockNotice, showClockNotice] = useTimedNotice<string>();
+
+  const { gameState, dispatch, submit, getState, loadState } = useGameEngine(() => initialLoad.state);
 
   const [activeChartId, setActiveChartId] = useState<string>(COMMODITIES[0].id);
+  const [activeRegion, setActiveRegion] = useState<RegionId>(REGIONS[0].id);
 
-  const inventoryValue = useMemo(() => {
-    return gameState.inventory.reduce((acc, item) => {
-      const price = gameState.prices[item.commodityId].currentPrice;
-      return acc + (item.quantity * price);
-    }, 0);
-  }, [gameState.inventory, gameState.prices]);
-
-  const infrastructureValue = useMemo(() => {
-    return gameState.facilities.reduce((acc, facility) => {
-      const commodity = COMMODITIES.find(c => c.id === facility.commodityId)!;
-      const baseCost = commodity.basePrice * 25;
-      let totalCost = baseCost;
-      for (let i = 1; i < facility.level; i++) {
-        totalCost += Math.floor(baseCost * Math.pow(1.8, i));
-      }
-      return acc + totalCost;
-    }, 0);
-  }, [gameState.facilities]);
+  const inventoryValue = useMemo(() => getInventoryValue(gameState), [gameState.inventory, gameState.markets, gameState.shipments]);
+  const infrastructureValue = useMemo(() => getInfrastructureValue(gameState), [gameState.facilities, gameState.warehouses]);
 
-  const netEquity = gameState.cash + inventoryValue + infrastructureValue - gameState.debt;
+  const netEquity = getNetEquity(gameState);
 
   useEffect(() => {
-    if (netEquity < -1000 && !isGameOver) {
+    if (isBankrupt(gameState) && !isGameOver) {
       setIsGameOver(true);
     }
-  }, [netEquity, isGameOver]);
+  }, [gameState, isGameOver]);
+
+  useEffect(() => {
+    if (gameState.day % AUTOSAVE_INTERVAL !== 0) return;
+    try {
+      writeSave(AUTOSAVE_SLOT_ID, 'Autosave', gameState);
+      setLastAutosaveDay(gameState.day);
+      setAutosaveError(null);
+    } catch (e) {
+      setAutosaveError(`Autosave failed on day ${gameState.day}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  }, [gameState.day]);
+
+  const handleLoadGame = (state: GameState) => {
+    loadState(state);
+    setDiscardedAutosave(null);
+    setFastForward(null);
+    setIsGameOver(isBankrupt(state));
+  };
+
+  const handleRestart = () => handleLoadGame(createInitialState(randomSeed()));
+
+  const handleEngineEvents = useCallback((events: EngineEvent[]) => {
+    events.forEach(e => {
+      if (e.type === 'TAX_FILED') {
+        showTaxFiling(e.filing);
+      } else if (e.type === 'FORCED_LIQUIDATION') {
+        showLiquidation(e.covered.reduce((acc, c) => acc + c.quantity * c.price, 0));
+      } else if (e.type === 'INSTALLMENT_MISSED') {
+        showCreditNotice(`${e.loanId} installment of $${e.amount.toFixed(0)} missed`);
+      } else if (e.type === 'COLLATERAL_SEIZED') {
+        showCreditNotice(`${e.loanId} defaulted; collateral seized`);
+      } else if (e.type === 'FACILITY_BROKE_DOWN') {
+        showBreakdown(`${getCommodity(e.commodityId).name} site in ${getRegion(e.region).name} is down until repaired`);
+      } else if (e.type === 'CONTRACT_SETTLED') {
+        showContractNotice(e.outcome);
+      } else if (e.type === 'ORDER_CLOSED' && e.reason !== 'EXPIRED') {
+        showOrderNotice(`${ORDER_LABELS[e.order.type]} ${e.order.id} triggered but ${ORDER_CLOSE_REASONS[e.reason]}`);
+      }
+    });
+  }, [showTaxFiling, showLiquidation, showCreditNotice, showBreakdown, showContractNotice, showOrderNotice]);
+
+  const advanceDay = useCallback(() => {
+    const events = dispatch({ type: 'ADVANCE_DAY' });
+    handleEngineEvents(events);
+    return events;
+  }, [dispatch, handleEngineEvents]);
+
+  useEffect(() => {
+    if (isGameOver || isPaused || fastForward) return;
+
+    const interval = setInterval(advanceDay, TICK_RATE / speed);
+
+    return () => clearInterval(interval);
+  }, [isGameOver, isPaused, fastForward, speed, advanceDay]);
 
+  // One day per short tick rather than a tight loop, so every day renders and per-day effects like autosave and bots see it
   useEffect(() => {
-    if (isGameOver || isPaused) return;
+    if (isGameOver || !fastForward) return;
 
+    let isStopped = false;
     const interval = setInterval(() => {
-      setGameState(prev => {
-        const nextDay = prev.day + 1;
-        const nextPrices = { ...prev.prices };
-        let currentDayProductionCost = 0;
-        const nextInventory = [...prev.inventory];
-        const nextFacilities: ProductionFacility[] = [];
-        let nextEvent = prev.activeEvent;
-        let nextCash = prev.cash;
-        let totalTaxesPaid = prev.lifetime.totalTaxesPaid;
-        let currentTaxRate = prev.taxRate;
-        let nextTaxDay = prev.nextTaxDay;
-
-        COMMODITIES.forEach(c => {
-          const price = nextPrices[c.id];
-          const volatility = c.volatility;
-          let targetPrice = c.basePrice;
-          if (nextEvent && (nextEvent.category === c.category || nextEvent.category === 'ALL')) {
-            targetPrice *= nextEvent.multiplier;
-          }
-          const changePercent = (Math.random() - 0.5) * 2 * volatility;
-          const gravity = (targetPrice - price.currentPrice) * 0.1;
-          const newPrice = Math.max(c.basePrice * 0.1, (price.currentPrice + gravity) * (1 + changePercent));
-          const newHistory = [...price.history, newPrice].slice(-20);
-          nextPrices[c.id] = { ...price, currentPrice: newPrice, history: newHistory, trend: newPrice > price.currentPrice ? 'up' : 'down' };
-        });
-
-        if (nextDay >= nextTaxDay) {
-          const currentInvVal = prev.inventory.reduce((acc, item) => acc + (item.quantity * nextPrices[item.commodityId].currentPrice), 0);
-          const currentInfraVal = prev.facilities.reduce((acc, f) => {
-             const c = COMMODITIES.find(com => com.id === f.commodityId)!;
-             let val = c.basePrice * 25;
-             for(let i=1; i<f.level; i++) val += Math.floor(c.basePrice * 25 * Math.pow(1.8, i));
-             return acc + val;
-          }, 0);
-          
-          const currentNetWorth = nextCash + currentInvVal + currentInfraVal - prev.debt;
-          const taxBill = Math.max(0, currentNetWorth * currentTaxRate);
-          
-          nextCash -= taxBill;
-          totalTaxesPaid += taxBill;
-          setLastTaxPaid(taxBill);
-          
-          currentTaxRate = 0.10 + (Math.random() * 0.10);
-          nextTaxDay += TAX_CYCLE;
-          setTimeout(() => setLastTaxPaid(null), 6000);
-        }
-
-        if (nextEvent) {
-          nextEvent = { ...nextEvent, remainingDays: nextEvent.remainingDays - 1 };
-          if (nextEvent.remainingDays <= 0) nextEvent = null;
-        }
-
-        const nextCycleProgress = prev.cycleProgress + 1;
-        if (nextCycleProgress >= 10 && !nextEvent && Math.random() > 0.3) {
-          const randomEvent = EVENTS_POOL[Math.floor(Math.random() * EVENTS_POOL.length)];
-          const duration = Math.floor(Math.random() * 5) + 3;
-          nextEvent = { ...randomEvent, duration, remainingDays: duration };
-        }
-
-        const dailyInterest = prev.debt * DAILY_INTEREST_RATE;
-        const nextDebt = prev.debt + dailyInterest;
-        const hasNoCash = nextCash <= 0;
-
-        prev.facilities.forEach(facility => {
-          const commodity = COMMODITIES.find(c => c.id === facility.commodityId)!;
-          const isForcePaused = facility.isProducing && hasNoCash;
-          const actualProducing = facility.isProducing && !hasNoCash;
-
-          if (actualProducing) {
-            const currentLevelCost = Math.floor(commodity.productionCost * Math.pow(1.4, facility.level - 1));
-            currentDayProductionCost += currentLevelCost;
-            const speedFactor = 5 + (facility.level * 10); 
-            let newProgress = facility.progress + speedFactor;
-            
-            if (newProgress >= 100) {
-              const invIdx = nextInventory.findIndex(i => i.commodityId === facility.commodityId);
-              if (invIdx !== -1) {
-                nextInventory[invIdx] = {
-                  ...nextInventory[invIdx],
-                  quantity: nextInventory[invIdx].quantity + commodity.productionYield
-                };
-              }
-              newProgress = newProgress % 100;
-            }
-            nextFacilities.push({ ...facility, progress: newProgress });
-          } else {
-            nextFacilities.push({ ...facility, isProducing: isForcePaused ? false : facility.isProducing });
-          }
-        });
-
-        cycleProductionRef.current += currentDayProductionCost;
-        let finalLedger = prev.lastLedger;
-
-        if (nextCycleProgress >= 10) {
-          finalLedger = {
-            sales: cycleSalesRef.current,
-            purchases: cyclePurchasesRef.current,
-            productionCosts: cycleProductionRef.current,
-            net: cycleSalesRef.current - cyclePurchasesRef.current - cycleProductionRef.current
-          };
-          cycleSalesRef.current = 0;
-          cyclePurchasesRef.current = 0;
-          cycleProductionRef.current = 0;
-        }
-
-        return {
-          ...prev,
-          day: nextDay,
-          cycleProgress: nextCycleProgress >= 10 ? 0 : nextCycleProgress,
-          prices: nextPrices,
-          inventory: nextInventory,
-          facilities: nextFacilities,
-          cash: nextCash - currentDayProductionCost,
-          debt: nextDebt,
-          lastLedger: finalLedger,
-          activeEvent: nextEvent,
-          taxRate: currentTaxRate,
-          nextTaxDay,
-          lifetime: {
-            ...prev.lifetime,
-            totalProductionCosts: prev.lifetime.totalProductionCosts + currentDayProductionCost,
-            totalInterestPaid: prev.lifetime.totalInterestPaid + dailyInterest,
-            totalTaxesPaid
-          }
-        };
-      });
-    }, TICK_RATE);
+      if (isStopped) return;
+      const stop = getFastForwardStop(fastForward, getState(), advanceDay());
+      if (!stop) return;
+      isStopped = true;
+      setFastForward(null);
+      setIsPaused(true);
+      showClockNotice(stop);
+    }, FAST_FORWARD_TICK);
 
     return () => clearInterval(interval);
-  }, [isGameOver, isPaused]);
+  }, [isGameOver, fastForward, advanceDay, getState, showClockNotice]);
+
+  const handleFastForward = (target: FastForwardTarget | null) => {
+    if (target) {
+      const stop = getFastForwardStop(target, getState(), []);
+      if (stop) {
+        showClockNotice(`Already there: ${describeTarget(target)}`);
+        return;
+      }
+    }
+    setFastForward(target);
+    // The clock runs while fast-forwarding and stays stopped afterwards, including on cancel
+    setIsPaused(!target);
+  };
+
+  // Pausing or resuming by hand also ends any fast-forward
+  const handleSetPaused = (paused: boolean) => {
+    setFastForward(null);
+    setIsPaused(paused);
+  };
+
+  // The day reached by the last step; its bot turns run even though the clock stays stopped
+  const steppedDay = useRef<number | null>(null);
+
+  const handleStep = () => {
+    if (isGameOver || !isPaused || fastForward) return;
+    advanceDay();
+    steppedDay.current = getState().day;
+  };
+
+  // Real time per game day at the current setting
+  const tickMs = fastForward ? FAST_FORWARD_TICK : TICK_RATE / speed;
+
+  // Buttons and the console share one path: the pause guard, then the engine's own checks
+  const submitAction = useCallback((action: GameAction): string | null => {
+    if (isGameOver) return 'The run is over';
+    if (isPaused) return 'Game is paused; resume to act';
+    return submit(action);
+  }, [isGameOver, isPaused, submit]);
+
+  const submitBotAction = useCallback((action: GameAction): string | null => {
+    if (!isGameOver && isPaused && steppedDay.current === getState().day) return submit(action);
+    return submitAction(action);
+  }, [isGameOver, isPaused, submit, submitAction, getState]);
+
+  const { bots, logs: botLogs, saveBot, deleteBot, toggleBot, clearLog } = useStrategyBots(gameState, submitBotAction, getState);
+
+  const runAction = useCallback((action: GameAction) => {
+    const error = submitAction(action);
+    if (error) showActionError(error);
+  }, [submitAction, showActionError]);
 
   const handleTrade = useCallback((id: string, quantity: number) => {
-    if (isGameOver || isPaused) return;
-    setGameState(prev => {
-      const price = prev.prices[id].currentPrice;
-      const totalCost = quantity * price;
-      if (quantity > 0 && prev.cash < totalCost) return prev;
-      const currentItem = prev.inventory.find(i => i.commodityId === id);
-      if (quantity < 0 && (!currentItem || currentItem.quantity < Math.abs(quantity))) return prev;
-      if (quantity > 0) cyclePurchasesRef.current += totalCost;
-      else cycleSalesRef.current += Math.abs(totalCost);
-      return {
-        ...prev,
-        cash: prev.cash - totalCost,
-        inventory: prev.inventory.map(item => item.commodityId === id ? { ...item, quantity: item.quantity + quantity } : item),
-        lifetime: {
-          ...prev.lifetime,
-          totalSales: quantity < 0 ? prev.lifetime.totalSales + Math.abs(totalCost) : prev.lifetime.totalSales,
-          totalMarketPurchases: quantity > 0 ? prev.lifetime.totalMarketPurchases + totalCost : prev.lifetime.totalMarketPurchases
-        }
-      };
-    });
-  }, [isGameOver, isPaused]);
-
-  const handleUnlockFacility = (id: string) => {
-    if (isPaused) return;
-    const commodity = COMMODITIES.find(c => c.id === id)!;
-    const cost = commodity.basePrice * 25;
-    setGameState(prev => {
-      if (prev.cash < cost || prev.facilities.some(f => f.commodityId === id)) return prev;
-      return {
-        ...prev,
-        cash: prev.cash - cost,
-        facilities: [...prev.facilities, { commodityId: id, level: 1, isProducing: true, progress: 0 }],
-        lifetime: { ...prev.lifetime, totalConstruction: prev.lifetime.totalConstruction + cost }
-      };
-    });
+    runAction({ type: 'TRADE', region: activeRegion, commodityId: id, quantity });
+  }, [activeRegion, runAction]);
+
+  const handlePlaceOrder = (id: string, orderType: OrderType, quantity: number, triggerPrice: number, expiryDay: number | null) => {
+    runAction({ type: 'PLACE_ORDER', region: activeRegion, commodityId: id, orderType, quantity, triggerPrice, expiryDay });
   };
 
-  const handleUpgradeFacility = (id: string) => {
-    if (isPaused) return;
-    setGameState(prev => {
-      const facility = prev.facilities.find(f => f.commodityId === id);
-      if (!facility) return prev;
-      const commodity = COMMODITIES.find(c => c.id === id)!;
-      const upgradeCost = Math.floor(commodity.basePrice * 25 * Math.pow(1.8, facility.level));
-      if (prev.cash < upgradeCost) return prev;
-      return {
-        ...prev,
-        cash: prev.cash - upgradeCost,
-        facilities: prev.facilities.map(f => f.commodityId === id ? { ...f, level: f.level + 1 } : f),
-        lifetime: { ...prev.lifetime, totalUpgrades: prev.lifetime.totalUpgrades + upgradeCost }
-      };
-    });
+  const handleShip = (id: string, from: RegionId, to: RegionId, quantity: number) => {
+    runAction({ type: 'SHIP', commodityId: id, from, to, quantity });
   };
 
-  const handleSellFacility = (id: string) => {
-    if (isPaused) return;
-    setGameState(prev => {
-      const facility = prev.facilities.find(f => f.commodityId === id);
-      if (!facility) return prev;
-      const commodity = COMMODITIES.find(c => c.id === id)!;
-      const unlockCost = commodity.basePrice * 25;
-      let totalInvested = unlockCost;
-      for (let i = 1; i < facility.level; i++) {
-        totalInvested += Math.floor(unlockCost * Math.pow(1.8, i));
-      }
-      const refund = Math.floor(totalInvested * 0.7);
-      return {
-        ...prev,
-        cash: prev.cash + refund,
-        facilities: prev.facilities.filter(f => f.commodityId !== id)
-      };
-    });
+  const handleCancelOrder = (orderId: string) => {
+    runAction({ type: 'CANCEL_ORDER', orderId });
   };
 
-  const handleToggleProduction = (id: string) => {
-    if (isPaused) return;
-    setGameState(prev => ({
-      ...prev,
-      facilities: prev.facilities.map(f => f.commodityId === id ? { ...f, isProducing: !f.isProducing } : f)
-    }));
+  const handleAcceptContract = (contractId: string) => {
+    runAction({ type: 'ACCEPT_CONTRACT', contractId });
   };
 
-  const takeLoan = (amount: number) => {
-    // Correct check: Allow new loan if current debt is zero or negligible
-    if (gameState.debt >= 1 || isPaused) return;
-    setGameState(prev => ({ ...prev, cash: prev.cash + amount, debt: prev.debt + amount }));
+  const handleWalkAwayFromContract = (contractId: string) => {
+    runAction({ type: 'CANCEL_CONTRACT', contractId });
   };
 
-  const handleRepay = () => {
-    if (isPaused || repayAmount <= 0) return;
-    setGameState(prev => {
-      const actualRepay = Math.min(repayAmount, prev.debt);
-      const newDebt = Math.max(0, prev.debt - actualRepay);
-      // Ensure debt is treated as 0 if it's negligible to prevent UI lockout
-      const finalDebt = newDebt < 0.1 ? 0 : newDebt;
-      return { 
-        ...prev, 
-        cash: prev.cash - actualRepay, 
-        debt: finalDebt 
-      };
-    });
-    setRepayAmount(0);
+  const handleUnlockFacility = (id: string, region: RegionId) => {
+    runAction({ type: 'UNLOCK_FACILITY', commodityId: id, region });
+  };
+
+  const handleUpgradeFacility = (facilityId: string) => {
+    runAction({ type: 'UPGRADE_FACILITY', facilityId });
+  };
+
+  const handleSellFacility = (facilityId: string) => {
+    runAction({ type: 'SELL_FACILITY', facilityId });
+  };
+
+  const handleServiceFacility = (facilityId: string) => {
+    runAction({ type: 'SERVICE_FACILITY', facilityId });
+  };
+
+  const handleToggleProduction = (facilityId: string) => {
+    runAction({ type: 'TOGGLE_PRODUCTION', facilityId });
+  };
+
+  const handleBuildWarehouse = (region: RegionId, category: CommodityCategory) => {
+    runAction({ type: 'BUILD_WAREHOUSE', region, category });
+  };
+
+  const handleUpgradeWarehouse = (region: RegionId, category: CommodityCategory) => {
+    runAction({ type: 'UPGRADE_WAREHOUSE', region, category });
+  };
+
+  const handleBorrow = (product: LoanProduct, amount: number, termDays?: number, collateralFacilityId?: string) => {
+    runAction({ type: 'TAKE_LOAN', product, amount, termDays, collateralFacilityId });
+  };
+
+  const handleRepay = (loanId: string, amount: number) => {
+    runAction({ type: 'REPAY', loanId, amount });
+  };
+
+  const handleToggleIntelligence = (enabled: boolean) => {
+    runAction({ type: 'SET_INTELLIGENCE', enabled });
+  };
+
+  const handleSetTaxRegime = (regimeId: TaxRegimeId) => {
+    runAction({ type: 'SET_TAX_REGIME', regimeId });
+  };
+
+  const handleSetTaxPayment = (mode: TaxPaymentMode) => {
+    runAction({ type: 'SET_TAX_PAYMENT', mode });
+  };
+
+  const handlePayTax = (amount: number) => {
+    runAction({ type: 'PAY_TAX', amount });
   };
 
   const activeCommodity = useMemo(() => COMMODITIES.find(c => c.id === activeChartId)!, [activeChartId]);
-  const chartData = useMemo(() => gameState.prices[activeChartId].history.map((val, idx) => ({ day: idx, price: val })), [gameState.prices, activeChartId]);
-  const maxRepayable = Math.min(gameState.cash, gameState.debt);
-  
-  const estimatedTax = netEquity * gameState.taxRate;
+  const debtSchedule = gameState.loans.flatMap(l => getSchedule(l, gameState.day)).sort((a, b) => a.dueDay - b.dueDay);
+
   const lifetimeCosts = gameState.lifetime.totalMarketPurchases + 
                        gameState.lifetime.totalProductionCosts + 
                        gameState.lifetime.totalConstruction + 
                        gameState.lifetime.totalUpgrades + 
+                       gameState.lifetime.totalMaintenance +
                        gameState.lifetime.totalInterestPaid +
+                       gameState.lifetime.totalBorrowFees +
+                       gameState.lifetime.totalStorageFees +
+                       gameState.lifetime.totalShippingCosts +
+                       gameState.lifetime.totalSubscriptionFees +
+                       gameState.lifetime.totalContractPenalties +
                        gameState.lifetime.totalTaxesPaid;
   const lifetimeNet = gameState.lifetime.totalSales - lifetimeCosts;
+  const totalRealizedPnl = gameState.inventory.reduce((acc, item) => acc + item.realizedPnl, 0);
+  const totalUnrealizedPnl = gameState.inventory.reduce((acc, item) => acc + getUnrealizedPnl(item, getPrice(gameState, item.region, item.commodityId)), 0) +
+                             gameState.shipments.reduce((acc, s) => acc + (getPrice(gameState, s.to, s.commodityId) - s.unitCost) * s.quantity, 0) +
+                             gameState.shortPositions.reduce((acc, p) => acc + (p.entryPrice - getPrice(gameState, p.region, p.commodityId)) * p.quantity, 0);
 
   return (
     <div className={`max-w-[1500px] mx-auto p-4 lg:p-6 space-y-6 relative ${isGameOver ? 'overflow-hidden max-h-screen' : ''}`}>
@@ -356,34 +314,136 @@ const App: React.FC = () => {
             <span className="text-6xl">💀</span>
             <h2 className="text-4xl font-black text-rose-500 italic uppercase">Bankruptcy</h2>
             <p className="text-slate-400 font-bold uppercase tracking-widest text-sm">Negative Equity Liquidation.</p>
-            <button onClick={() => window.location.reload()} className="w-full bg-rose-600 hover:bg-rose-500 text-white font-black py-4 rounded-xl uppercase tracking-widest transition-all">Restart System</button>
+            <button onClick={handleRestart} className="w-full bg-rose-600 hover:bg-rose-500 text-white font-black py-4 rounded-xl uppercase tracking-widest transition-all">Restart System</button>
           </div>
         </div>
       )}
 
-      {lastTaxPaid !== null && (
+      {lastFiling !== null && (
         <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] bg-amber-600 text-white px-8 py-4 rounded-2xl shadow-2xl animate-bounce border-2 border-white flex items-center gap-4">
           <span className="text-2xl">🏛️</span>
           <div>
-            <p className="font-black uppercase tracking-tighter text-sm">Wealth Tax Collected</p>
-            <p className="text-[10px] font-bold opacity-80">Paid: <span className="text-white font-mono font-black">${lastTaxPaid.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></p>
+            <p className="font-black uppercase tracking-tighter text-sm">Tax Return Filed · Days {lastFiling.periodStartDay}–{lastFiling.day}</p>
+            <p className="text-[10px] font-bold opacity-80">
+              Income tax <span className="text-white font-mono font-black">${lastFiling.incomeTax.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+              {' · '}Gains tax <span className="text-white font-mono font-black">${lastFiling.capitalGainsTax.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+            </p>
+            <p className="text-[10px] font-bold opacity-80">
+              Paid <span className="text-white font-mono font-black">${lastFiling.paid.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+              {lastFiling.deferredBalance > 0 && <>{' · '}Deferred <span className="text-white font-mono font-black">${lastFiling.deferredBalance.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></>}
+              {' · '}Full report in the Revenue Dept
+            </p>
+          </div>
+        </div>
+      )}
+
+      {liquidationNotice !== null && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] bg-rose-600 text-white px-8 py-4 rounded-2xl shadow-2xl animate-bounce border-2 border-white flex items-center gap-4">
+          <span className="text-2xl">⚠️</span>
+          <div>
+            <p className="font-black uppercase tracking-tighter text-sm">Forced Liquidation</p>
+            <p className="text-[10px] font-bold opacity-80">Shorts bought back: <span className="text-white font-mono font-black">${liquidationNotice.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></p>
+          </div>
+        </div>
+      )}
+
+      {creditNotice !== null && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] bg-rose-600 text-white px-8 py-4 rounded-2xl shadow-2xl animate-bounce border-2 border-white flex items-center gap-4">
+          <span className="text-2xl">📉</span>
+          <div>
+            <p className="font-black uppercase tracking-tighter text-sm">Credit Event</p>
+            <p className="text-[10px] font-bold opacity-80">{creditNotice}</p>
+          </div>
+        </div>
+      )}
+
+      {contractNotice !== null && (
+        <div className={`fixed top-24 left-1/2 -translate-x-1/2 z-[60] ${contractNotice.status === 'DELIVERED' ? 'bg-emerald-600' : 'bg-rose-600'} text-white px-8 py-4 rounded-2xl shadow-2xl border-2 border-white flex items-center gap-4`}>
+          <span className="text-2xl">{contractNotice.status === 'DELIVERED' ? '📦' : '📉'}</span>
+          <div>
+            <p className="font-black uppercase tracking-tighter text-sm">
+              {contractNotice.status === 'DELIVERED' ? 'Contract Delivered' : 'Contract Missed'} · {contractNotice.contract.client}
+            </p>
+            <p className="text-[10px] font-bold opacity-80">
+              {contractNotice.status === 'DELIVERED' ? 'Paid' : 'Penalty'} <span className="text-white font-mono font-black">${Math.abs(contractNotice.cashDelta).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+              {' · '}Reputation {contractNotice.reputationDelta >= 0 ? '+' : ''}{contractNotice.reputationDelta}
+            </p>
+          </div>
+        </div>
+      )}
+
+      {orderNotice !== null && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] bg-rose-600 text-white px-8 py-4 rounded-2xl shadow-2xl border-2 border-white flex items-center gap-4">
+          <span className="text-2xl">📋</span>
+          <div>
+            <p className="font-black uppercase tracking-tighter text-sm">Order Closed</p>
+            <p className="text-[10px] font-bold opacity-80">{orderNotice}</p>
+          </div>
+        </div>
+      )}
+
+      {breakdownNotice !== null && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] bg-amber-600 text-white px-8 py-4 rounded-2xl shadow-2xl border-2 border-white flex items-center gap-4">
+          <span className="text-2xl">🔧</span>
+          <div>
+            <p className="font-black uppercase tracking-tighter text-sm">Facility Breakdown</p>
+            <p className="text-[10px] font-bold opacity-80">{breakdownNotice}</p>
+          </div>
+        </div>
+      )}
+
+      {actionError !== null && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] bg-rose-600 text-white px-8 py-4 rounded-2xl shadow-2xl border-2 border-white flex items-center gap-4">
+          <span className="text-2xl">⛔</span>
+          <div>
+            <p className="font-black uppercase tracking-tighter text-sm">Order Rejected</p>
+            <p className="text-[10px] font-bold opacity-80">{actionError}</p>
           </div>
         </div>
       )}
 
-      {gameState.activeEvent && (
-        <div className="bg-blue-600 text-white py-2 px-6 rounded-xl flex flex-col md:flex-row items-center gap-4 border-l-8 border-white shadow-xl animate-in slide-in-from-top duration-500">
-          <div className="flex items-center gap-2">
-            <span className="bg-white text-blue-600 px-2 py-0.5 rounded text-[10px] font-black uppercase whitespace-nowrap">Breaking News</span>
-            <h3 className="font-black italic uppercase tracking-wider text-sm">{gameState.activeEvent.name}</h3>
+      {clockNotice !== null && (
+        <div className="fixed top-24 left-1/2 -translate-x-1/2 z-[60] bg-cyan-600 text-white px-8 py-4 rounded-2xl shadow-2xl border-2 border-white flex items-center gap-4">
+          <span className="text-2xl">⏱️</span>
+          <div>
+            <p className="font-black uppercase tracking-tighter text-sm">Fast-Forward</p>
+            <p className="text-[10px] font-bold opacity-80">{clockNotice}</p>
           </div>
-          <p className="text-xs font-medium flex-1 opacity-90">{gameState.activeEvent.description}</p>
-          <div className="text-[10px] font-mono font-bold bg-blue-700 px-3 py-1 rounded-full whitespace-nowrap">
-            ENDS IN: {gameState.activeEvent.remainingDays} DAYS
+        </div>
+      )}
+
+      {gameState.marginCall && (
+        <div className="bg-rose-600 text-white py-2 px-6 rounded-xl flex flex-col md:flex-row items-center gap-4 border-l-8 border-white shadow-xl">
+          <span className="bg-white text-rose-600 px-2 py-0.5 rounded text-[10px] font-black uppercase whitespace-nowrap">Margin Call</span>
+          <p className="text-xs font-medium flex-1 opacity-90">Equity has fallen below maintenance. Cover shorts or raise cash before the deadline.</p>
+          <div className="text-[10px] font-mono font-bold bg-rose-700 px-3 py-1 rounded-full whitespace-nowrap">
+            LIQUIDATION IN: {Math.max(0, gameState.marginCall.deadlineDay - gameState.day)} DAYS
           </div>
         </div>
       )}
 
+      {gameState.activeEvents.map(e => {
+        const def = getEventDefinition(e.eventId);
+        return (
+          <div key={e.eventId} className="bg-blue-600 text-white py-2 px-6 rounded-xl flex flex-col md:flex-row items-center gap-4 border-l-8 border-white shadow-xl animate-in slide-in-from-top duration-500">
+            <div className="flex items-center gap-2">
+              <span className="bg-white text-blue-600 px-2 py-0.5 rounded text-[10px] font-black uppercase whitespace-nowrap">Breaking News</span>
+              <h3 className="font-black italic uppercase tracking-wider text-sm">{def.name}</h3>
+              {def.target.commodityId && (
+                <span className="bg-blue-700 px-2 py-0.5 rounded text-[10px] font-black uppercase whitespace-nowrap">{getCommodity(def.target.commodityId).icon} {getCommodity(def.target.commodityId).name}</span>
+              )}
+              {def.target.region && (
+                <span className="bg-blue-700 px-2 py-0.5 rounded text-[10px] font-black uppercase whitespace-nowrap">{getRegion(def.target.region).icon} {getRegion(def.target.region).name} only</span>
+              )}
+            </div>
+            <p className="text-xs font-medium flex-1 opacity-90">{def.description}</p>
+            <div className="text-[10px] font-mono font-bold bg-blue-700 px-3 py-1 rounded-full whitespace-nowrap">
+              ENDS IN: {e.remainingDays} DAYS
+            </div>
+          </div>
+        );
+      })}
+
       {/* Header */}
       <header className="sticky top-0 z-50 bg-slate-900/95 backdrop-blur-md p-4 rounded-2xl border border-slate-700 flex flex-wrap items-center justify-between gap-4 shadow-2xl">
         <div className="flex items-center gap-4">
@@ -397,12 +457,18 @@ const App: React.FC = () => {
         </div>
 
         <div className="flex items-center gap-6">
-          <button 
-            onClick={() => setIsPaused(!isPaused)} 
-            className={`flex items-center gap-2 px-6 py-2 rounded-xl font-black text-xs uppercase tracking-widest transition-all ${isPaused ? 'bg-emerald-600 hover:bg-emerald-500 shadow-emerald-500/20' : 'bg-slate-700 hover:bg-slate-600 shadow-slate-900/50'} shadow-lg active:scale-95`}
-          >
-            {isPaused ? 'RESUME' : 'PAUSE'}
-          </button>
+          <TimeControls
+            gameState={gameState}
+            isPaused={isPaused}
+            speed={speed}
+            fastForward={fastForward}
+            onTogglePause={() => handleSetPaused(!isPaused)}
+            onStep={handleStep}
+            onSetSpeed={setSpeed}
+            onFastForward={handleFastForward}
+            defaultCommodityId={activeChartId}
+            defaultRegion={activeRegion}
+          />
 
           <div className="flex gap-8 border-l border-slate-700 pl-6">
             <div className="text-right">
@@ -429,17 +495,33 @@ const App: React.FC = () => {
             </h2>
             <div className="grid grid-cols-1 gap-4 overflow-y-auto max-h-[850px] no-scrollbar pr-1">
               {COMMODITIES.map(c => (
-                <ProductionPanel 
-                  key={c.id} commodity={c} 
-                  facility={gameState.facilities.find(f => f.commodityId === c.id)}
-                  onUnlock={handleUnlockFacility} onUpgrade={handleUpgradeFacility}
-                  onSell={handleSellFacility}
-                  onToggleStatus={handleToggleProduction} cash={gameState.cash}
-                  isPaused={isPaused}
-                />
+                <React.Fragment key={c.id}>
+                  {[...gameState.facilities.filter(f => f.commodityId === c.id), undefined].map(facility => (
+                    <ProductionPanel 
+                      key={facility?.id || 'new'} commodity={c} 
+                      facility={facility}
+                      onUnlock={handleUnlockFacility} onUpgrade={handleUpgradeFacility}
+                      onSell={handleSellFacility}
+                      onService={handleServiceFacility}
+                      onToggleStatus={handleToggleProduction}
+                      inventory={gameState.inventory} cash={gameState.cash}
+                      activeEvents={gameState.activeEvents}
+                      isPledged={!!facility && isPledged(gameState, facility.id)}
+                      isPaused={isPaused}
+                      tickMs={tickMs}
+                    />
+                  ))}
+                </React.Fragment>
               ))}
             </div>
           </section>
+
+          <WarehousePanel
+            gameState={gameState}
+            onBuild={handleBuildWarehouse}
+            onUpgrade={handleUpgradeWarehouse}
+            isPaused={isPaused}
+          />
         </div>
 
         {/* MARKET COLUMN */}
@@ -450,7 +532,16 @@ const App: React.FC = () => {
                 <span className="p-1.5 bg-blue-600 rounded-lg text-2xl leading-none shadow-lg">{activeCommodity.icon}</span>
                 {activeCommodity.name} Index
               </h2>
-              <div className="flex gap-1.5 overflow-x-auto pb-1 no-scrollbar max-w-[60%]">
+              <div className="flex gap-1">
+                {REGIONS.map(r => (
+                  <button key={r.id} onClick={() => setActiveRegion(r.id)} className={`px-2.5 py-1.5 rounded-lg text-[10px] font-black uppercase transition-all ${activeRegion === r.id ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}>
+                    {r.icon} {r.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end mb-4">
+              <div className="flex gap-1.5 overflow-x-auto pb-1 no-scrollbar max-w-full">
                 {COMMODITIES.map(c => (
                   <button key={c.id} onClick={() => setActiveChartId(c.id)} className={`p-2.5 rounded-xl transition-all flex-shrink-0 ${activeChartId === c.id ? 'bg-blue-600 scale-105 shadow-[0_0_15px_rgba(37,99,235,0.4)]' : 'bg-slate-700 grayscale opacity-60 hover:opacity-100 hover:bg-slate-600'}`}>
                     <span className="text-lg">{c.icon}</span>
@@ -458,29 +549,57 @@ const App: React.FC = () => {
                 ))}
               </div>
             </div>
-            <div className="h-[320px]">
-              <ResponsiveContainer width="100%" height="100%">
-                <LineChart data={chartData}>
-                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
-                  <XAxis dataKey="day" hide />
-                  <YAxis domain={['auto', 'auto']} stroke="#94a3b8" fontSize={11} tickFormatter={(v) => `$${v.toFixed(0)}`} />
-                  <Tooltip contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px', color: '#fff' }} />
-                  <Line type="monotone" dataKey="price" stroke="#3b82f6" strokeWidth={4} dot={false} animationDuration={300} />
-                </LineChart>
-              </ResponsiveContainer>
-            </div>
+            <PriceChart
+              commodity={activeCommodity}
+              prices={gameState.prices}
+              quotes={{ AMERICAS: gameState.markets.AMERICAS[activeChartId], EUROPE: gameState.markets.EUROPE[activeChartId], ASIA: gameState.markets.ASIA[activeChartId] }}
+              activeRegion={activeRegion}
+              currentDay={gameState.day}
+              news={gameState.news}
+              activeEvents={gameState.activeEvents}
+              eventHistory={gameState.eventHistory}
+              journal={gameState.journal}
+            />
           </div>
 
+          <CommandConsole
+            gameState={gameState}
+            activeRegion={activeRegion}
+            onSubmit={submitAction}
+            onSetPaused={handleSetPaused}
+          />
+
+          <BotPanel bots={bots} logs={botLogs} onSave={saveBot} onDelete={deleteBot} onToggle={toggleBot} onClearLog={clearLog} />
+
+          <NewsPanel
+            news={gameState.news}
+            currentDay={gameState.day}
+            focus={activeCommodity}
+            hasIntelligence={gameState.hasIntelligence}
+            onToggleIntelligence={handleToggleIntelligence}
+            isPaused={isPaused}
+          />
+
+          <AnalyticsPanel gameState={gameState} />
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-5">
             {COMMODITIES.map(c => (
               <CommodityCard 
                 key={c.id}
                 commodity={c}
-                marketData={gameState.prices[c.id]}
-                owned={gameState.inventory.find(i => i.commodityId === c.id)?.quantity || 0}
+                marketData={gameState.markets[activeRegion][c.id]}
+                regionQuotes={{ AMERICAS: getPrice(gameState, 'AMERICAS', c.id), EUROPE: getPrice(gameState, 'EUROPE', c.id), ASIA: getPrice(gameState, 'ASIA', c.id) }}
+                activeRegion={activeRegion}
+                position={getItem(gameState.inventory, activeRegion, c.id)}
+                reserved={getReservedUnits(gameState, activeRegion, c.id)}
+                shortPosition={gameState.shortPositions.find(p => p.region === activeRegion && p.commodityId === c.id)}
+                maxShortable={getMaxShortable(gameState, activeRegion, c.id)}
                 cash={gameState.cash}
+                freeCapacity={getFreeCapacity(gameState, activeRegion, c.category)}
                 onTrade={handleTrade}
-                activeEvent={gameState.activeEvent}
+                onPlaceOrder={handlePlaceOrder}
+                currentDay={gameState.day}
+                activeEvents={gameState.activeEvents}
               />
             ))}
           </div>
@@ -488,75 +607,32 @@ const App: React.FC = () => {
 
         {/* FINANCE COLUMN */}
         <div className="lg:col-span-3 space-y-6">
-          <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-t-4 border-t-amber-500">
-            <h2 className="text-lg font-bold mb-5 text-amber-400 uppercase italic flex items-center gap-2">
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
-              Revenue Dept
-            </h2>
-            <div className="space-y-4">
-              <div className="flex justify-between items-center">
-                <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Effective Rate</p>
-                <span className="text-amber-500 font-black text-xl">{(gameState.taxRate * 100).toFixed(1)}%</span>
-              </div>
-              <div className="bg-slate-900/50 p-3.5 rounded-xl border border-slate-700">
-                <p className="text-[10px] text-slate-500 uppercase font-black mb-1">Est. Liability</p>
-                <p className="text-rose-400 font-mono font-bold text-xl">-${estimatedTax.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
-              </div>
-              <div className="w-full bg-slate-950 h-3 rounded-full overflow-hidden border border-slate-700">
-                <div className="h-full bg-amber-500 transition-all duration-1000 ease-linear" style={{ width: `${((TAX_CYCLE - (gameState.nextTaxDay - gameState.day)) / TAX_CYCLE) * 100}%` }}></div>
-              </div>
-              <div className="flex justify-between text-[10px] text-slate-500 font-black">
-                <span>AUDIT WINDOW</span>
-                <span>{gameState.nextTaxDay - gameState.day} DAYS</span>
-              </div>
-            </div>
-          </section>
+          <TaxPanel
+            gameState={gameState}
+            tickMs={tickMs}
+            onSetRegime={handleSetTaxRegime}
+            onSetPayment={handleSetTaxPayment}
+            onPayDeferred={handlePayTax}
+            isPaused={isPaused}
+          />
 
-          <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-t-4 border-t-rose-500">
-            <h2 className="text-lg font-bold mb-5 text-rose-400 uppercase italic flex items-center gap-2">
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
-              Credit Line
-            </h2>
-            <div className="space-y-5">
-                <div className="grid grid-cols-3 gap-2">
-                    {[5000, 10000, 25000].map(amt => (
-                      <button 
-                        key={amt} 
-                        onClick={() => takeLoan(amt)} 
-                        disabled={gameState.debt >= 1 || isPaused}
-                        className={`text-[10px] py-2.5 rounded-lg font-black transition-all border ${gameState.debt >= 1 ? 'bg-slate-900 text-slate-600 border-slate-800 cursor-not-allowed' : 'bg-slate-700 hover:bg-rose-600/30 border-slate-600 hover:border-rose-500'}`}
-                      >
-                        +${amt/1000}k
-                      </button>
-                    ))}
-                </div>
-                <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-700 flex justify-between items-center">
-                   <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Total Debt</span>
-                   <span className="text-rose-500 font-mono font-bold text-xl">${gameState.debt.toLocaleString(undefined, {maximumFractionDigits: 0})}</span>
-                </div>
-                <div className="space-y-3">
-                   <div className="flex justify-between items-center px-1">
-                      <span className="text-[10px] text-slate-500 uppercase font-black">Repayment</span>
-                      <span className="text-emerald-400 font-mono font-bold text-lg">${repayAmount.toLocaleString()}</span>
-                   </div>
-                   <input 
-                      type="range" 
-                      min="0" 
-                      max={maxRepayable} 
-                      value={repayAmount} 
-                      onChange={(e) => setRepayAmount(parseInt(e.target.value))} 
-                      className="w-full h-2.5 bg-slate-900 rounded-lg appearance-none accent-emerald-500 cursor-pointer" 
-                   />
-                   <button 
-                      onClick={handleRepay} 
-                      disabled={repayAmount <= 0 || isPaused} 
-                      className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 text-white py-3 rounded-xl font-black text-xs uppercase shadow-lg active:scale-95 transition-all"
-                   >
-                      Authorize Payment
-                   </button>
-                </div>
-            </div>
-          </section>
+          <CreditPanel gameState={gameState} onBorrow={handleBorrow} onRepay={handleRepay} isPaused={isPaused} />
+
+          <MarginPanel gameState={gameState} />
+
+          <OrdersPanel
+            orders={gameState.orders}
+            fills={gameState.orderFills}
+            currentDay={gameState.day}
+            onCancel={handleCancelOrder}
+            isPaused={isPaused}
+          />
+
+          <ContractsPanel gameState={gameState} onAccept={handleAcceptContract} onWalkAway={handleWalkAwayFromContract} isPaused={isPaused} />
+
+          <ShippingPanel gameState={gameState} onShip={handleShip} isPaused={isPaused} />
+
+          <SavePanel gameState={gameState} onLoad={handleLoadGame} lastAutosaveDay={lastAutosaveDay} autosaveError={autosaveError ?? discardedAutosave} />
 
           <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-l-4 border-l-blue-500">
             <h2 className="text-lg font-black text-blue-400 uppercase italic mb-5">Financial Audit</h2>
@@ -568,9 +644,90 @@ const App: React.FC = () => {
               <div className="h-px bg-slate-700/50"></div>
               <div className="space-y-2 text-[10px] font-bold uppercase">
                 <div className="flex justify-between text-slate-500"><span>Ops Exp</span><span className="text-rose-400">-${(gameState.lifetime.totalMarketPurchases + gameState.lifetime.totalProductionCosts).toLocaleString()}</span></div>
+                {gameState.lifetime.totalInterestPaid > 0 && (
+                  <div className="flex justify-between text-slate-500"><span>Interest &amp; Late Fees</span><span className="text-rose-400">-${gameState.lifetime.totalInterestPaid.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+                )}
                 <div className="flex justify-between text-slate-500"><span>Tax Paid</span><span className="text-rose-500">-${gameState.lifetime.totalTaxesPaid.toLocaleString()}</span></div>
+                {gameState.lifetime.totalBorrowFees > 0 && (
+                  <div className="flex justify-between text-slate-500"><span>Borrow Fees</span><span className="text-rose-400">-${gameState.lifetime.totalBorrowFees.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+                )}
+                {gameState.lifetime.totalStorageFees > 0 && (
+                  <div className="flex justify-between text-slate-500"><span>Storage Fees</span><span className="text-rose-400">-${gameState.lifetime.totalStorageFees.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+                )}
+                {gameState.lifetime.totalShippingCosts > 0 && (
+                  <div className="flex justify-between text-slate-500"><span>Freight</span><span className="text-rose-400">-${gameState.lifetime.totalShippingCosts.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+                )}
+                {gameState.lifetime.totalSubscriptionFees > 0 && (
+                  <div className="flex justify-between text-slate-500"><span>Intel Subscription</span><span className="text-rose-400">-${gameState.lifetime.totalSubscriptionFees.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+                )}
+                {gameState.lifetime.totalSpoilageLosses > 0 && (
+                  <div className="flex justify-between text-slate-500"><span>Spoilage (at cost)</span><span className="text-amber-500">-${gameState.lifetime.totalSpoilageLosses.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+                )}
+                {gameState.lifetime.totalContractPenalties > 0 && (
+                  <div className="flex justify-between text-slate-500"><span>Contract Penalties</span><span className="text-rose-400">-${gameState.lifetime.totalContractPenalties.toLocaleString()}</span></div>
+                )}
+                {gameState.lifetime.totalMaintenance > 0 && (
+                  <div className="flex justify-between text-slate-500"><span>Maintenance</span><span className="text-rose-400">-${gameState.lifetime.totalMaintenance.toLocaleString()}</span></div>
+                )}
                 <div className="flex justify-between text-slate-500"><span>Capex</span><span className="text-amber-500">-${(gameState.lifetime.totalConstruction + gameState.lifetime.totalUpgrades).toLocaleString()}</span></div>
               </div>
+              <div className="h-px bg-slate-700/50"></div>
+              <div className="space-y-2 text-[10px] font-bold uppercase">
+                <div className="flex justify-between items-center text-slate-500">
+                  <span>Cost Basis</span>
+                  <div className="flex gap-1">
+                    {(['FIFO', 'AVERAGE'] as const).map(method => (
+                      <button
+                        key={method}
+                        onClick={() => dispatch({ type: 'SET_COST_METHOD', method })}
+                        className={`text-[9px] px-2 py-0.5 rounded font-black transition-all ${gameState.costMethod === method ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                      >
+                        {method === 'FIFO' ? 'FIFO' : 'AVG'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex justify-between text-slate-500"><span>Realized P&amp;L</span><span className={totalRealizedPnl >= 0 ? 'text-emerald-400' : 'text-rose-500'}>{totalRealizedPnl >= 0 ? '+' : '-'}${Math.abs(totalRealizedPnl).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+                <div className="flex justify-between text-slate-500"><span>Unrealized P&amp;L</span><span className={totalUnrealizedPnl >= 0 ? 'text-emerald-400' : 'text-rose-500'}>{totalUnrealizedPnl >= 0 ? '+' : '-'}${Math.abs(totalUnrealizedPnl).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+              </div>
+              <div className="h-px bg-slate-700/50"></div>
+              <ProfitBreakdown gameState={gameState} />
+              <div className="h-px bg-slate-700/50"></div>
+              <div className="space-y-2 text-[10px] font-bold uppercase">
+                <p className="text-slate-400 font-black">Last {LEDGER_CYCLE}-Day Ledger</p>
+                {([
+                  ['Sales', gameState.lastLedger.sales, 'text-emerald-400'],
+                  ['Purchases', -gameState.lastLedger.purchases, 'text-rose-400'],
+                  ['Production', -gameState.lastLedger.productionCosts, 'text-rose-400'],
+                  ['Storage', -gameState.lastLedger.storageCosts, 'text-rose-400'],
+                  ['Freight', -gameState.lastLedger.shippingCosts, 'text-rose-400'],
+                  ['Spoilage', -gameState.lastLedger.spoilageLosses, 'text-amber-500']
+                ] as const).map(([label, amount, color]) => (
+                  <div key={label} className="flex justify-between text-slate-500"><span>{label}</span><span className={color}>{amount >= 0 ? '+' : '-'}${Math.abs(amount).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+                ))}
+                <div className="flex justify-between text-slate-400"><span>Net Cash</span><span className={gameState.lastLedger.net >= 0 ? 'text-emerald-400' : 'text-rose-500'}>{gameState.lastLedger.net >= 0 ? '+' : '-'}${Math.abs(gameState.lastLedger.net).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></div>
+              </div>
+              {gameState.loans.length > 0 && (
+                <>
+                  <div className="h-px bg-slate-700/50"></div>
+                  <div className="space-y-2 text-[10px] font-bold uppercase">
+                    <p className="text-slate-400 font-black">Debt Schedule</p>
+                    {gameState.loans.filter(l => l.installment === null).map(l => (
+                      <div key={l.id} className="flex justify-between text-slate-500"><span>{l.id} Revolving</span><span className="text-rose-400 font-mono">${l.balance.toLocaleString(undefined, { maximumFractionDigits: 0 })} open</span></div>
+                    ))}
+                    {debtSchedule.slice(0, 6).map(p => (
+                      <div key={`${p.loanId}-${p.dueDay}`} className="flex justify-between text-slate-500">
+                        <span>D{p.dueDay} {p.loanId}</span>
+                        <span className="font-mono">
+                          <span className="text-rose-400">${p.payment.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+                          <span className="text-slate-600 ml-2">${p.interest.toFixed(0)} int · ${p.balanceAfter.toLocaleString(undefined, { maximumFractionDigits: 0 })} left</span>
+                        </span>
+                      </div>
+                    ))}
+                    {debtSchedule.length > 6 && <p className="text-slate-600 text-center">+{debtSchedule.length - 6} more installments</p>}
+                  </div>
+                </>
+              )}
               <div className="h-px bg-slate-700"></div>
               <div className="text-center pt-2">
                 <p className="text-[10px] text-slate-500 font-black uppercase tracking-[0.2em] mb-1">Aggr. Net Profit</p>
@@ -582,6 +739,8 @@ const App: React.FC = () => {
           </section>
         </div>
       </main>
+
+      <JournalPanel journal={gameState.journal} currentDay={gameState.day} />
     </div>
   );
 };
@@ -0,0 +1,112 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import vm from 'node:vm';
+import { parseArgs } from 'node:util';
+import { BOT_TIME_BUDGET_MS, STRATEGY_TEMPLATES } from '../constants';
+import { BacktestRun, runBacktest, StrategyTurn, summarizeBacktest } from '../engine/backtest';
+
+const USAGE = `Usage: npm run backtest -- [options]
+
+  --days <n>         Days to play per run (default 365)
+  --seeds <n>        Number of runs (default 100)
+  --seed-start <n>   First seed; runs use consecutive seeds (default 1)
+  --strategy <name>  A bot template name, a path to a strategy .js file, or "none" (default)
+  --out <dir>        Where report.json and runs.csv are written (default backtest-results)
+  --help             Show this message
+
+Strategy files use the same API as the in-app bots: define onTick(view) and return a list of decisions.`;
+
+/**
+ * Compiles a strategy into a fresh sandbox per run, so nothing a strategy
+ * remembers leaks from one seed into the next. Each turn gets the same time
+ * budget as in the browser.
+ */
+const loadStrategy = (source: string) => (): StrategyTurn => {
+  const context = vm.createContext({ log: () => {} });
+  vm.runInContext(`"use strict";\n${source}`, context, { timeout: BOT_TIME_BUDGET_MS });
+  if (vm.runInContext('typeof onTick', context) !== 'function') throw new Error('Strategy does not define onTick(view)');
+  return view => {
+    context.view = view;
+    const decisions = JSON.parse(vm.runInContext('JSON.stringify(onTick(view)) ?? "null"', context, { timeout: BOT_TIME_BUDGET_MS }));
+    if (!Array.isArray(decisions)) throw new Error('onTick must return an array of decisions');
+    return decisions;
+  };
+};
+
+const readStrategySource = (name: string) => {
+  const template = STRATEGY_TEMPLATES.find(t => t.name.toLowerCase() === name.toLowerCase());
+  if (template) return template.source;
+  if (!fs.existsSync(name)) {
+    throw new Error(`No strategy "${name}"; use a file path or one of: ${STRATEGY_TEMPLATES.map(t => `"${t.name}"`).join(', ')}`);
+  }
+  return fs.readFileSync(name, 'utf8');
+};
+
+const toCsv = (runs: BacktestRun[]) => {
+  const columns = Object.keys(runs[0]) as (keyof BacktestRun)[];
+  const rows = runs.map(run => columns.map(c => {
+    const value = run[c];
+    return typeof value === 'number' ? String(Math.round(value * 100) / 100) : String(value ?? '');
+  }).join(','));
+  return [columns.join(','), ...rows].join('\n') + '\n';
+};
+
+const readCount = (value: string | undefined, fallback: number, flag: string) => {
+  if (value === undefined) return fallback;
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 0) throw new Error(`--${flag} must be a whole number`);
+  return count;
+};
+
+const main = () => {
+  const { values } = parseArgs({
+    options: {
+      days: { type: 'string' },
+      seeds: { type: 'string' },
+      'seed-start': { type: 'string' },
+      strategy: { type: 'string' },
+      out: { type: 'string' },
+      help: { type: 'boolean' }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const days = readCount(values.days, 365, 'days');
+  const seeds = Math.max(1, readCount(values.seeds, 100, 'seeds'));
+  const seedStart = readCount(values['seed-start'], 1, 'seed-start');
+  const strategyName = values.strategy ?? 'none';
+  const outDir = values.out ?? 'backtest-results';
+  const createStrategy = strategyName === 'none' ? null : loadStrategy(readStrategySource(strategyName));
+
+  const runs: BacktestRun[] = [];
+  const startedAt = Date.now();
+  for (let i = 0; i < seeds; i++) {
+    runs.push(runBacktest(seedStart + i, days, createStrategy ? createStrategy() : null));
+    if ((i + 1) % 10 === 0 || i + 1 === seeds) process.stderr.write(`\r${i + 1}/${seeds} runs`);
+  }
+  process.stderr.write('\n');
+
+  const summary = summarizeBacktest(runs);
+  fs.mkdirSync(outDir, { recursive: true });
+  const config = { days, seeds, seedStart, strategy: strategyName };
+  fs.writeFileSync(path.join(outDir, 'report.json'), JSON.stringify({ config, summary, runs }, null, 2));
+  fs.writeFileSync(path.join(outDir, 'runs.csv'), toCsv(runs));
+
+  const money = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+  console.log(`${seeds} runs of ${days} days, strategy "${strategyName}", in ${((Date.now() - startedAt) / 1000).toFixed(1)}s`);
+  console.log(`  Final equity   mean ${money(summary.meanEquity)}  median ${money(summary.medianEquity)}  range ${money(summary.minEquity)} to ${money(summary.maxEquity)}`);
+  console.log(`  Max drawdown   mean ${(summary.meanDrawdown * 100).toFixed(1)}%`);
+  console.log(`  Taxes paid     mean ${money(summary.meanTaxesPaid)}`);
+  console.log(`  Bankruptcies   ${(summary.bankruptcyRate * 100).toFixed(1)}%`);
+  console.log(`Reports written to ${outDir}/`);
+};
+
+try {
+  main();
+} catch (e) {
+  console.error(e instanceof Error ? e.message : e);
+  process.exitCode = 1;
+}
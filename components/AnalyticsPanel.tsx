@@ -0,0 +1,100 @@
+
+import React, { useMemo } from 'react';
+import { ComposedChart, Area, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { GameState } from '../types';
+import { getAllocation, getBestAndWorstDays, getMaxDrawdown, getReturnVolatilityRatio } from '../engine/analytics';
+
+interface Props {
+  gameState: GameState;
+}
+
+const ALLOCATION_COLORS: Record<string, string> = {
+  Cash: 'bg-emerald-500',
+  Energy: 'bg-amber-500',
+  Metal: 'bg-slate-400',
+  Agriculture: 'bg-lime-500',
+  Livestock: 'bg-rose-500'
+};
+
+const formatMoney = (value: number) =>
+  `${value < 0 ? '-' : ''}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const AnalyticsPanel: React.FC<Props> = ({ gameState }) => {
+  const history = gameState.netWorthHistory;
+  // Debt is drawn below zero so the asset stack less the debt band reads as equity
+  const chartData = useMemo(() => history.map(s => ({ ...s, debt: -s.debt })), [history]);
+  const drawdown = useMemo(() => (history.length > 0 ? getMaxDrawdown(history) : null), [history]);
+  const ratio = useMemo(() => getReturnVolatilityRatio(history), [history]);
+  const extremes = useMemo(() => getBestAndWorstDays(history), [history]);
+  const allocation = getAllocation(gameState);
+  const allocationTotal = allocation.reduce((acc, s) => acc + s.value, 0);
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl">
+      <h2 className="text-lg font-black text-emerald-400 uppercase italic tracking-tighter mb-4">Net Worth</h2>
+      {history.length < 2 ? (
+        <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-6">History starts once a day has been played</p>
+      ) : (
+        <div className="h-[220px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              <XAxis dataKey="day" stroke="#94a3b8" fontSize={10} interval="preserveStartEnd" minTickGap={24} tickFormatter={(day) => `D${day}`} />
+              <YAxis stroke="#94a3b8" fontSize={10} tickFormatter={(v) => `$${(v / 1000).toFixed(0)}k`} />
+              <Tooltip labelFormatter={(day) => `Day ${day}`} formatter={(value: number) => formatMoney(value)} contentStyle={{ backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px', color: '#fff' }} />
+              <ReferenceLine y={0} stroke="#475569" />
+              <Area type="monotone" dataKey="cash" name="Cash" stackId="assets" stroke="#10b981" fill="#10b981" fillOpacity={0.3} isAnimationActive={false} />
+              <Area type="monotone" dataKey="inventory" name="Inventory" stackId="assets" stroke="#3b82f6" fill="#3b82f6" fillOpacity={0.3} isAnimationActive={false} />
+              <Area type="monotone" dataKey="infrastructure" name="Infrastructure" stackId="assets" stroke="#f59e0b" fill="#f59e0b" fillOpacity={0.3} isAnimationActive={false} />
+              <Area type="monotone" dataKey="debt" name="Debt & Shorts" stroke="#f43f5e" fill="#f43f5e" fillOpacity={0.3} isAnimationActive={false} />
+              <Line type="monotone" dataKey="equity" name="Equity" stroke="#fff" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4 text-[10px] font-bold uppercase">
+        <div className="bg-slate-900/50 p-3 rounded-xl border border-slate-700/50">
+          <p className="text-slate-500">Max Drawdown</p>
+          <p className="font-mono text-rose-400 text-sm">{drawdown && drawdown.amount > 0 ? `-${(drawdown.percent * 100).toFixed(1)}%` : '—'}</p>
+          {drawdown && drawdown.amount > 0 && <p className="font-mono text-slate-600">D{drawdown.peakDay}→D{drawdown.troughDay}</p>}
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-xl border border-slate-700/50" title="Mean daily return over its volatility, scaled to a game year">
+          <p className="text-slate-500">Return / Vol</p>
+          <p className={`font-mono text-sm ${ratio === null ? 'text-slate-500' : ratio >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{ratio === null ? '—' : ratio.toFixed(2)}</p>
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-xl border border-slate-700/50">
+          <p className="text-slate-500">Best Day</p>
+          <p className="font-mono text-emerald-400 text-sm">{extremes && extremes.best.change > 0 ? `+${formatMoney(extremes.best.change)}` : '—'}</p>
+          {extremes && extremes.best.change > 0 && <p className="font-mono text-slate-600">D{extremes.best.day}</p>}
+        </div>
+        <div className="bg-slate-900/50 p-3 rounded-xl border border-slate-700/50">
+          <p className="text-slate-500">Worst Day</p>
+          <p className="font-mono text-rose-400 text-sm">{extremes && extremes.worst.change < 0 ? formatMoney(extremes.worst.change) : '—'}</p>
+          {extremes && extremes.worst.change < 0 && <p className="font-mono text-slate-600">D{extremes.worst.day}</p>}
+        </div>
+      </div>
+
+      {allocationTotal > 0 && (
+        <div className="mt-4 space-y-2">
+          <p className="text-[10px] text-slate-400 font-black uppercase">Allocation</p>
+          <div className="flex h-2.5 rounded-full overflow-hidden bg-slate-900">
+            {allocation.map(s => (
+              <div key={s.label} className={ALLOCATION_COLORS[s.label]} style={{ width: `${(s.value / allocationTotal) * 100}%` }} title={s.label}></div>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-x-4 gap-y-1 text-[10px] font-bold uppercase">
+            {allocation.map(s => (
+              <span key={s.label} className="text-slate-400">
+                <span className={`inline-block w-2 h-2 rounded-full mr-1 ${ALLOCATION_COLORS[s.label]}`}></span>
+                {s.label} <span className="font-mono text-slate-300">{((s.value / allocationTotal) * 100).toFixed(0)}%</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default AnalyticsPanel;
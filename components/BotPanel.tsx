@@ -0,0 +1,138 @@
+
+import React, { useState } from 'react';
+import { BotLogEntry, StrategyBot } from '../types';
+import { STRATEGY_TEMPLATES, BOT_TIME_BUDGET_MS } from '../constants';
+
+interface Props {
+  bots: StrategyBot[];
+  logs: Record<string, BotLogEntry[]>;
+  onSave: (bot: StrategyBot) => void;
+  onDelete: (botId: string) => void;
+  onToggle: (botId: string) => void;
+  onClearLog: (botId: string) => void;
+}
+
+const LOG_STYLES: Record<BotLogEntry['kind'], string> = {
+  ACTION: 'text-emerald-400',
+  REJECTED: 'text-amber-400',
+  NOTE: 'text-slate-400',
+  ERROR: 'text-rose-400'
+};
+
+const BotPanel: React.FC<Props> = ({ bots, logs, onSave, onDelete, onToggle, onClearLog }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Unsaved edits to the selected bot; null while just viewing its log
+  const [draft, setDraft] = useState<StrategyBot | null>(null);
+  const [templateIndex, setTemplateIndex] = useState(0);
+
+  const selected = bots.find(b => b.id === selectedId);
+  const selectedLog = selectedId ? logs[selectedId] || [] : [];
+
+  const handleNew = () => {
+    const template = STRATEGY_TEMPLATES[templateIndex];
+    const bot: StrategyBot = { id: `bot-${Date.now().toString(36)}`, name: template.name, source: template.source, enabled: false };
+    setSelectedId(bot.id);
+    setDraft(bot);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    onSave({ ...draft, name: draft.name.trim() || 'Untitled Bot' });
+    setDraft(null);
+  };
+
+  const handleDelete = (botId: string) => {
+    onDelete(botId);
+    setSelectedId(null);
+    setDraft(null);
+  };
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-black text-cyan-400 uppercase italic tracking-tighter">Trading Bots</h2>
+        <div className="flex gap-1">
+          <select
+            value={templateIndex}
+            onChange={(e) => setTemplateIndex(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-[10px] font-bold uppercase text-white"
+          >
+            {STRATEGY_TEMPLATES.map((t, i) => <option key={t.name} value={i}>{t.name}</option>)}
+          </select>
+          <button onClick={handleNew} className="text-[9px] px-3 py-1 rounded font-black uppercase bg-cyan-600 text-white hover:bg-cyan-500 transition-all">New Bot</button>
+        </div>
+      </div>
+
+      {bots.length === 0 && !draft && (
+        <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">No bots yet; start one from a template</p>
+      )}
+      <div className="space-y-1.5">
+        {bots.map(bot => {
+          const last = (logs[bot.id] || []).slice(-1)[0];
+          return (
+            <div
+              key={bot.id}
+              onClick={() => { setSelectedId(bot.id); setDraft(null); }}
+              className={`flex items-center gap-2 p-2 rounded-lg border cursor-pointer transition-all ${selectedId === bot.id ? 'border-cyan-500/60 bg-slate-900' : 'border-slate-700/50 bg-slate-900/50 hover:border-slate-600'}`}
+            >
+              <button
+                onClick={(e) => { e.stopPropagation(); onToggle(bot.id); }}
+                className={`text-[9px] w-10 py-0.5 rounded font-black uppercase transition-all ${bot.enabled ? 'bg-emerald-600 text-white' : 'bg-slate-700 text-slate-400'}`}
+              >
+                {bot.enabled ? 'On' : 'Off'}
+              </button>
+              <span className="text-xs font-bold text-white truncate flex-1">{bot.name}</span>
+              {last && <span className={`text-[10px] font-mono truncate max-w-[50%] ${LOG_STYLES[last.kind]}`}>D{last.day} {last.text}</span>}
+            </div>
+          );
+        })}
+      </div>
+
+      {draft && (
+        <div className="mt-4 space-y-2">
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            className="w-full bg-slate-900 border border-slate-700 rounded-lg px-3 py-1.5 text-xs font-bold text-white"
+          />
+          <textarea
+            value={draft.source}
+            onChange={(e) => setDraft({ ...draft, source: e.target.value })}
+            spellCheck={false}
+            className="w-full h-64 bg-slate-950 border border-slate-700 rounded-lg p-3 text-[11px] font-mono text-slate-200 leading-relaxed"
+          />
+          <p className="text-[9px] text-slate-500 font-bold uppercase">
+            Runs in a sandbox once a day · {BOT_TIME_BUDGET_MS}ms budget · Decisions: BUY / SELL {'{commodity, quantity, region}'}, BUILD {'{commodity, region}'}, UPGRADE / SELL_FACILITY / SERVICE / START / STOP {'{facilityId}'}, ACCEPT_CONTRACT / WALK_AWAY {'{contractId}'}
+          </p>
+          <div className="flex gap-2">
+            <button onClick={handleSave} className="flex-1 bg-cyan-600 hover:bg-cyan-500 text-white text-[10px] font-black uppercase py-2 rounded-lg transition-all">Save</button>
+            <button onClick={() => setDraft(null)} className="flex-1 bg-slate-700 hover:bg-slate-600 text-slate-300 text-[10px] font-black uppercase py-2 rounded-lg transition-all">Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {selected && !draft && (
+        <div className="mt-4 space-y-2">
+          <div className="flex justify-between items-center">
+            <p className="text-[10px] text-slate-400 font-black uppercase">Decision Log</p>
+            <div className="flex gap-1">
+              <button onClick={() => setDraft(selected)} className="text-[9px] px-2 py-0.5 rounded font-black uppercase bg-slate-700 text-slate-300 hover:bg-slate-600">Edit</button>
+              <button onClick={() => onClearLog(selected.id)} className="text-[9px] px-2 py-0.5 rounded font-black uppercase bg-slate-700 text-slate-300 hover:bg-slate-600">Clear</button>
+              <button onClick={() => handleDelete(selected.id)} className="text-[9px] px-2 py-0.5 rounded font-black uppercase bg-rose-600/80 text-white hover:bg-rose-500">Delete</button>
+            </div>
+          </div>
+          <div className="bg-slate-950 rounded-lg p-2 max-h-48 overflow-y-auto no-scrollbar text-[10px] font-mono space-y-0.5">
+            {selectedLog.length === 0 && <p className="text-slate-600 text-center py-1">{selected.enabled ? 'Waiting for the next day' : 'Switch the bot on to start trading'}</p>}
+            {[...selectedLog].reverse().map(entry => (
+              <p key={entry.id} className={LOG_STYLES[entry.kind]}>
+                <span className="text-slate-600">D{entry.day}</span> {entry.text}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default BotPanel;
@@ -0,0 +1,158 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { GameAction, GameState, RegionId } from '../types';
+import { COMMAND_HELP, getCompletions, parseCommand } from '../engine/commands';
+
+interface Props {
+  gameState: GameState;
+  // Commands without a region trade on the exchange on screen
+  activeRegion: RegionId;
+  // Returns why the action was refused, or null once it has gone through
+  onSubmit: (action: GameAction) => string | null;
+  onSetPaused: (isPaused: boolean) => void;
+}
+
+type Tone = 'INPUT' | 'OK' | 'ERROR' | 'INFO';
+
+interface LogLine {
+  id: number;
+  text: string;
+  tone: Tone;
+}
+
+const TONE_STYLES: Record<Tone, string> = {
+  INPUT: 'text-slate-300',
+  OK: 'text-emerald-400',
+  ERROR: 'text-rose-400',
+  INFO: 'text-slate-500'
+};
+
+const MAX_LOG_LINES = 200;
+
+const commonPrefix = (options: string[]) =>
+  options.reduce((prefix, option) => {
+    let i = 0;
+    while (i < prefix.length && prefix[i] === option[i]) i++;
+    return prefix.slice(0, i);
+  });
+
+const CommandConsole: React.FC<Props> = ({ gameState, activeRegion, onSubmit, onSetPaused }) => {
+  const [input, setInput] = useState('');
+  const [log, setLog] = useState<LogLine[]>([{ id: 0, text: 'Type help for a list of commands', tone: 'INFO' }]);
+  const [history, setHistory] = useState<string[]>([]);
+  // Position while stepping back through history; null when editing a fresh line
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const nextLineId = useRef(1);
+  const logRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const completions = input.trim() ? getCompletions(input) : [];
+
+  useEffect(() => {
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [log]);
+
+  // Backquote jumps to the console from anywhere outside a form field
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (e.key !== '`' || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName)) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, []);
+
+  const print = (lines: { text: string; tone: Tone }[]) =>
+    setLog(prev => [...prev, ...lines.map(line => ({ ...line, id: nextLineId.current++ }))].slice(-MAX_LOG_LINES));
+
+  const run = (line: string) => {
+    const command = parseCommand(line, gameState, activeRegion);
+    if (command.kind === 'CLEAR') {
+      setLog([]);
+      return;
+    }
+    const output: { text: string; tone: Tone }[] = [{ text: `> ${line}`, tone: 'INPUT' }];
+    if (command.kind === 'ERROR') {
+      output.push({ text: command.message, tone: 'ERROR' });
+    } else if (command.kind === 'HELP') {
+      COMMAND_HELP.forEach(h => output.push({ text: `${h.usage.padEnd(38)}${h.description}`, tone: 'INFO' }));
+    } else if (command.kind === 'PAUSE' || command.kind === 'RESUME') {
+      onSetPaused(command.kind === 'PAUSE');
+      output.push({ text: command.kind === 'PAUSE' ? 'Clock paused' : 'Clock running', tone: 'OK' });
+    } else {
+      // Each action is checked against the state the previous one left behind
+      const error = command.actions.reduce<string | null>((failed, action) => failed ?? onSubmit(action), null);
+      output.push(error ? { text: error, tone: 'ERROR' } : { text: command.summary, tone: 'OK' });
+    }
+    print(output);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      const line = input.trim();
+      if (!line) return;
+      run(line);
+      setHistory(prev => [...prev.filter(h => h !== line), line]);
+      setHistoryIndex(null);
+      setInput('');
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      if (completions.length === 1) setInput(`${completions[0]} `);
+      else if (completions.length > 1) setInput(commonPrefix(completions));
+    } else if (e.key === 'ArrowUp' && history.length > 0) {
+      e.preventDefault();
+      const index = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1);
+      setHistoryIndex(index);
+      setInput(history[index]);
+    } else if (e.key === 'ArrowDown' && historyIndex !== null) {
+      e.preventDefault();
+      const index = historyIndex + 1;
+      setHistoryIndex(index < history.length ? index : null);
+      setInput(index < history.length ? history[index] : '');
+    }
+  };
+
+  return (
+    <section className="bg-slate-950 rounded-2xl p-4 border border-slate-700 shadow-xl font-mono" onClick={() => inputRef.current?.focus()}>
+      <div className="flex justify-between items-center mb-2">
+        <h2 className="text-xs font-black text-blue-400 uppercase tracking-widest">Command Console</h2>
+        <span className="text-[9px] text-slate-600 font-bold uppercase">Tab complete · ↑↓ history · ` focus</span>
+      </div>
+      <div ref={logRef} className="h-32 overflow-y-auto no-scrollbar text-[11px] leading-relaxed whitespace-pre-wrap">
+        {log.map(line => (
+          <p key={line.id} className={TONE_STYLES[line.tone]}>{line.text}</p>
+        ))}
+      </div>
+      <div className="flex items-center gap-2 border-t border-slate-800 pt-2 mt-2">
+        <span className="text-blue-400 font-black">&gt;</span>
+        <input
+          ref={inputRef}
+          value={input}
+          onChange={(e) => { setInput(e.target.value); setHistoryIndex(null); }}
+          onKeyDown={handleKeyDown}
+          placeholder="buy oil 100"
+          spellCheck={false}
+          autoComplete="off"
+          className="flex-1 bg-transparent text-sm text-white outline-none placeholder:text-slate-700"
+        />
+      </div>
+      {completions.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {completions.slice(0, 8).map(c => (
+            <button
+              key={c}
+              onClick={() => { setInput(`${c} `); inputRef.current?.focus(); }}
+              className="text-[10px] px-2 py-0.5 rounded bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white"
+            >
+              {c.split(' ').pop()}
+            </button>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default CommandConsole;
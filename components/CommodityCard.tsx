@@ -1,29 +1,61 @@
 
 import React, { useState } from 'react';
-import { Commodity, MarketPrice, GlobalEvent } from '../types';
+import { Commodity, MarketPrice, ActiveEvent, OrderType, ShortPosition, InventoryItem, RegionId } from '../types';
+import { REGIONS } from '../constants';
+import { ORDER_LABELS, isBuyOrder } from '../engine/orders';
+import { getAverageCost, getUnrealizedPnl } from '../engine/lots';
+import { getEventDefinition, isEventRelevant } from '../engine/events';
+import { PRICE_MODELS } from '../engine/priceModels';
+import { getPreviousClose } from '../engine/history';
+import { estimateFill, getAsk, getBid, getMaxAffordable } from '../engine/liquidity';
 
 interface Props {
   commodity: Commodity;
   marketData: MarketPrice;
-  owned: number;
+  // Today's quote on every exchange, for spotting arbitrage
+  regionQuotes: Record<RegionId, number>;
+  activeRegion: RegionId;
+  position: InventoryItem;
+  // Units held back for supply contracts; they cannot be sold
+  reserved: number;
+  shortPosition?: ShortPosition;
+  maxShortable: number;
   cash: number;
+  freeCapacity: number;
   onTrade: (id: string, quantity: number) => void;
-  activeEvent: GlobalEvent | null;
+  onPlaceOrder: (id: string, type: OrderType, quantity: number, triggerPrice: number, expiryDay: number | null) => void;
+  currentDay: number;
+  activeEvents: ActiveEvent[];
 }
 
-const CommodityCard: React.FC<Props> = ({ commodity, marketData, owned, cash, onTrade, activeEvent }) => {
+const CommodityCard: React.FC<Props> = ({ commodity, marketData, regionQuotes, activeRegion, position, reserved, shortPosition, maxShortable, cash, freeCapacity, onTrade, onPlaceOrder, currentDay, activeEvents }) => {
   const [tradeAmount, setTradeAmount] = useState(0);
+  const [showOrderForm, setShowOrderForm] = useState(false);
+  const [orderType, setOrderType] = useState<OrderType>('BUY_LIMIT');
+  const [orderQuantity, setOrderQuantity] = useState('');
+  const [orderTrigger, setOrderTrigger] = useState('');
+  const [orderExpiryDays, setOrderExpiryDays] = useState('');
 
-  // Check if this specific commodity is being affected by the current global event
-  const isImpactedByEvent = activeEvent && (activeEvent.category === commodity.category || activeEvent.category === 'ALL');
+  // Events moving this commodity on the exchange being viewed
+  const alerts = activeEvents.map(e => getEventDefinition(e.eventId)).filter(def => isEventRelevant(def, commodity, activeRegion));
+  const isImpactedByEvent = alerts.length > 0;
 
-  const priceChange = marketData.history.length > 1 
-    ? ((marketData.currentPrice - marketData.history[marketData.history.length - 2]) / marketData.history[marketData.history.length - 2] * 100).toFixed(2)
-    : "0.00";
+  const previousClose = getPreviousClose(marketData);
+  const priceChange = ((marketData.currentPrice - previousClose) / previousClose * 100).toFixed(2);
 
-  const maxBuyable = Math.floor(cash / marketData.currentPrice);
-  const minAmount = -owned;
-  const maxAmount = maxBuyable;
+  const owned = position.quantity;
+  const averageCost = getAverageCost(position);
+  const unrealizedPnl = getUnrealizedPnl(position, marketData.currentPrice);
+  const shorted = shortPosition?.quantity || 0;
+  const maxBuyable = Math.min(getMaxAffordable(commodity, marketData.currentPrice, cash), freeCapacity);
+  const sellable = Math.max(0, owned - reserved);
+  const minAmount = -(sellable + maxShortable);
+  const maxAmount = shorted + maxBuyable;
+  const isShortSale = tradeAmount < -sellable;
+  const shortPnl = shortPosition ? (shortPosition.entryPrice - marketData.currentPrice) * shortPosition.quantity : 0;
+
+  // What the slider's order would fill at if sent now
+  const fill = tradeAmount !== 0 ? estimateFill(commodity, marketData.currentPrice, tradeAmount) : null;
 
   const handleTrade = () => {
     if (tradeAmount === 0) return;
@@ -31,14 +63,33 @@ const CommodityCard: React.FC<Props> = ({ commodity, marketData, owned, cash, on
     setTradeAmount(0);
   };
 
+  const parsedQuantity = parseInt(orderQuantity) || 0;
+  const parsedTrigger = parseFloat(orderTrigger) || 0;
+  const orderEscrow = isBuyOrder(orderType) ? parsedQuantity * parsedTrigger : 0;
+  const canPlaceOrder = parsedQuantity > 0 && parsedTrigger > 0 && orderEscrow <= cash;
+
+  const handlePlaceOrder = () => {
+    if (!canPlaceOrder) return;
+    const expiryDays = parseInt(orderExpiryDays);
+    onPlaceOrder(commodity.id, orderType, parsedQuantity, parsedTrigger, expiryDays > 0 ? currentDay + expiryDays : null);
+    setOrderQuantity('');
+    setOrderTrigger('');
+    setOrderExpiryDays('');
+    setShowOrderForm(false);
+  };
+
   return (
     <div className={`bg-slate-800 rounded-2xl p-6 border transition-all shadow-xl flex flex-col gap-5 relative overflow-hidden group ${isImpactedByEvent ? 'border-blue-500 ring-2 ring-blue-500/30 bg-blue-900/5' : 'border-slate-700 hover:border-slate-500'}`}>
       
       {/* Dynamic Event Notification Badge */}
       {isImpactedByEvent && (
-        <div className="absolute top-0 right-0 bg-blue-600 text-white text-[10px] font-black px-3 py-1.5 uppercase italic tracking-tighter flex items-center gap-2 animate-pulse rounded-bl-xl shadow-lg z-10">
-          <span className="w-2 h-2 bg-white rounded-full"></span>
-          MARKET ALERT: {activeEvent.name}
+        <div className="absolute top-0 right-0 flex flex-col items-end z-10">
+          {alerts.map((def, i) => (
+            <div key={def.id} className={`bg-blue-600 text-white text-[10px] font-black px-3 py-1.5 uppercase italic tracking-tighter flex items-center gap-2 animate-pulse shadow-lg ${i === alerts.length - 1 ? 'rounded-bl-xl' : ''}`}>
+              <span className="w-2 h-2 bg-white rounded-full"></span>
+              MARKET ALERT: {def.name}
+            </div>
+          ))}
         </div>
       )}
 
@@ -48,6 +99,7 @@ const CommodityCard: React.FC<Props> = ({ commodity, marketData, owned, cash, on
           <div>
             <h3 className="font-black text-xl leading-none uppercase tracking-tight">{commodity.name}</h3>
             <span className="text-xs text-slate-500 uppercase font-black tracking-widest">{commodity.category} Segment</span>
+            <span className="block text-[9px] text-slate-600 uppercase font-bold tracking-widest">{PRICE_MODELS[commodity.priceModel.kind].label}{commodity.seasonality ? ' · Seasonal' : ''}</span>
           </div>
         </div>
         <div className="text-right">
@@ -57,18 +109,57 @@ const CommodityCard: React.FC<Props> = ({ commodity, marketData, owned, cash, on
           <div className={`text-sm font-black flex items-center justify-end gap-1 ${Number(priceChange) >= 0 ? 'text-emerald-500' : 'text-rose-500'}`}>
             {Number(priceChange) >= 0 ? '▲' : '▼'} {Math.abs(Number(priceChange))}%
           </div>
+          <div className="text-[10px] font-mono font-bold text-slate-500">
+            <span className="text-rose-400">${getBid(commodity, marketData.currentPrice).toFixed(2)}</span> / <span className="text-emerald-400">${getAsk(commodity, marketData.currentPrice).toFixed(2)}</span>
+          </div>
         </div>
       </div>
 
+      <div className="flex justify-between text-[10px] font-mono font-bold -mt-2">
+        {REGIONS.map(r => (
+          <span key={r.id} className={r.id === activeRegion ? 'text-blue-400' : 'text-slate-500'}>
+            {r.icon} ${regionQuotes[r.id].toFixed(2)}
+          </span>
+        ))}
+      </div>
+
       <div className={`bg-slate-900/80 p-5 rounded-xl border transition-all ${isImpactedByEvent ? 'border-blue-500/40' : 'border-slate-700/50'}`}>
         <div className="flex justify-between items-center text-xs mb-3">
           <span className="text-slate-400 uppercase font-black tracking-widest">Active Inventory</span>
-          <span className="font-mono text-blue-400 font-black text-sm">{owned.toLocaleString()} units</span>
+          <span className="font-mono text-blue-400 font-black text-sm">
+            {owned.toLocaleString()} units
+            {reserved > 0 && <span className="text-emerald-400 text-[10px] ml-1">({reserved.toLocaleString()} reserved)</span>}
+          </span>
         </div>
+        {(owned > 0 || position.realizedPnl !== 0) && (
+          <div className="grid grid-cols-3 gap-2 text-[10px] font-bold uppercase mb-3">
+            <div>
+              <p className="text-slate-500">Avg Cost</p>
+              <p className="font-mono text-slate-300">{owned > 0 ? `$${averageCost.toFixed(2)}` : '—'}</p>
+            </div>
+            <div>
+              <p className="text-slate-500">Unrealized</p>
+              <p className={`font-mono ${unrealizedPnl >= 0 ? 'text-emerald-400' : 'text-rose-500'}`}>{unrealizedPnl >= 0 ? '+' : '-'}${Math.abs(unrealizedPnl).toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+            </div>
+            <div className="text-right">
+              <p className="text-slate-500">Realized</p>
+              <p className={`font-mono ${position.realizedPnl >= 0 ? 'text-emerald-400' : 'text-rose-500'}`}>{position.realizedPnl >= 0 ? '+' : '-'}${Math.abs(position.realizedPnl).toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+            </div>
+          </div>
+        )}
+        {shortPosition && (
+          <div className="flex justify-between items-center text-xs mb-3">
+            <span className="text-rose-400 uppercase font-black tracking-widest">Short @ ${shortPosition.entryPrice.toFixed(2)}</span>
+            <span className="font-mono font-black text-sm">
+              <span className="text-rose-400">-{shorted.toLocaleString()}</span>
+              <span className={`ml-2 ${shortPnl >= 0 ? 'text-emerald-400' : 'text-rose-500'}`}>{shortPnl >= 0 ? '+' : '-'}${Math.abs(shortPnl).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+            </span>
+          </div>
+        )}
         
         <div className="mt-6 space-y-4">
           <div className="flex justify-between items-center text-xs font-black uppercase text-slate-500">
-            <span>Liquidate ({minAmount})</span>
+            <span>{maxShortable > 0 ? `Short` : `Liquidate`} ({minAmount})</span>
             <span className={`text-lg font-mono ${tradeAmount > 0 ? 'text-emerald-400' : tradeAmount < 0 ? 'text-rose-400' : 'text-slate-400'}`}>
               {tradeAmount > 0 ? `+${tradeAmount}` : tradeAmount}
             </span>
@@ -85,7 +176,7 @@ const CommodityCard: React.FC<Props> = ({ commodity, marketData, owned, cash, on
           />
           
           <div className="flex justify-between items-center text-[11px] text-slate-400 font-mono font-bold pt-2">
-            <span>Cost: ${Math.abs(tradeAmount * marketData.currentPrice).toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+            <span>{tradeAmount < 0 ? 'Proceeds' : 'Cost'}: ${Math.abs(tradeAmount * (fill?.price ?? marketData.currentPrice)).toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
             <button 
               onClick={() => setTradeAmount(0)}
               className="text-slate-500 hover:text-white transition-colors uppercase font-black underline tracking-tighter"
@@ -93,6 +184,14 @@ const CommodityCard: React.FC<Props> = ({ commodity, marketData, owned, cash, on
               Reset Slider
             </button>
           </div>
+          {fill && (
+            <div className="flex justify-between items-center text-[10px] font-mono font-bold">
+              <span className="text-slate-500 uppercase">Est. Avg Fill ${fill.price.toFixed(2)}</span>
+              <span className={Math.abs(fill.slippage) > 0.05 ? 'text-rose-400' : 'text-amber-400'}>
+                Slippage {(Math.abs(fill.slippage) * 100).toFixed(2)}%
+              </span>
+            </div>
+          )}
         </div>
       </div>
 
@@ -105,8 +204,50 @@ const CommodityCard: React.FC<Props> = ({ commodity, marketData, owned, cash, on
           'bg-slate-700 text-slate-400'
         }`}
       >
-        {tradeAmount > 0 ? `Execute Purchase` : tradeAmount < 0 ? `Execute Sale` : 'Awaiting Orders'}
+        {tradeAmount > 0 ? (shorted > 0 ? `Execute Cover` : `Execute Purchase`) : tradeAmount < 0 ? (isShortSale ? `Execute Short Sale` : `Execute Sale`) : 'Awaiting Orders'}
       </button>
+
+      <div className="border-t border-slate-700/50 pt-4">
+        <button
+          onClick={() => setShowOrderForm(!showOrderForm)}
+          className="w-full text-[10px] text-slate-400 hover:text-white font-black uppercase tracking-widest transition-colors"
+        >
+          {showOrderForm ? '▾ Standing Order' : '▸ Standing Order'}
+        </button>
+        {showOrderForm && (
+          <div className="mt-3 space-y-2">
+            <div className="grid grid-cols-4 gap-1">
+              {(Object.keys(ORDER_LABELS) as OrderType[]).map(type => (
+                <button
+                  key={type}
+                  onClick={() => setOrderType(type)}
+                  className={`text-[9px] py-1.5 rounded font-black uppercase transition-all ${orderType === type ? (isBuyOrder(type) ? 'bg-emerald-600' : 'bg-rose-600') : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+                >
+                  {ORDER_LABELS[type]}
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <input type="number" min="1" value={orderQuantity} onChange={(e) => setOrderQuantity(e.target.value)} placeholder="Units"
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-white placeholder:text-slate-600" />
+              <input type="number" min="0" step="0.01" value={orderTrigger} onChange={(e) => setOrderTrigger(e.target.value)} placeholder={`@ ${marketData.currentPrice.toFixed(2)}`}
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-white placeholder:text-slate-600" />
+              <input type="number" min="1" value={orderExpiryDays} onChange={(e) => setOrderExpiryDays(e.target.value)} placeholder="Days (GTC)"
+                className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-white placeholder:text-slate-600" />
+            </div>
+            <div className="flex justify-between items-center text-[10px] font-mono font-bold text-slate-500">
+              <span>{isBuyOrder(orderType) ? `Escrow: $${orderEscrow.toLocaleString(undefined, { maximumFractionDigits: 2 })}` : `Held: ${sellable.toLocaleString()} units`}</span>
+              <button
+                onClick={handlePlaceOrder}
+                disabled={!canPlaceOrder}
+                className="bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-3 py-1.5 rounded-lg font-black uppercase transition-all active:scale-95"
+              >
+                Place Order
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
     </div>
   );
 };
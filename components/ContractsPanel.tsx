@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { ContractOutcome, GameState, SupplyContract } from '../types';
+import { CONTRACT_TIERS } from '../constants';
+import { getCommodity, getPrice, getRegion } from '../engine/economy';
+import { getContractValue, getUnlockedTier } from '../engine/contracts';
+
+interface Props {
+  gameState: GameState;
+  onAccept: (contractId: string) => void;
+  onWalkAway: (contractId: string) => void;
+  isPaused: boolean;
+}
+
+type Tab = 'board' | 'active' | 'history';
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const STATUS_LABELS: Record<ContractOutcome['status'], string> = {
+  DELIVERED: 'Delivered',
+  DEFAULTED: 'Missed',
+  WALKED_AWAY: 'Walked away'
+};
+
+const ContractsPanel: React.FC<Props> = ({ gameState, onAccept, onWalkAway, isPaused }) => {
+  const [tab, setTab] = useState<Tab>('board');
+
+  const { reputation, day } = gameState;
+  const unlocked = getUnlockedTier(reputation);
+  const nextTier = CONTRACT_TIERS[unlocked + 1];
+
+  const renderTerms = (contract: SupplyContract) => {
+    const commodity = getCommodity(contract.commodityId);
+    const region = getRegion(contract.region);
+    return (
+      <p className="text-xs font-bold">
+        {contract.quantity.toLocaleString()} {commodity.icon} {commodity.name} <span className="text-slate-500">in {region.icon} {region.name}</span> by day {contract.deadlineDay}
+      </p>
+    );
+  };
+
+  const renderOffer = (offer: SupplyContract) => {
+    const isLocked = reputation < offer.minReputation;
+    // Against today's quote, not the one the client priced off
+    const vsSpot = offer.price / getPrice(gameState, offer.region, offer.commodityId) - 1;
+    return (
+      <div key={offer.id} className={`bg-slate-900/50 p-2.5 rounded-lg border space-y-1.5 ${isLocked ? 'border-slate-800 opacity-60' : 'border-slate-700'}`}>
+        <div className="flex justify-between items-center text-[9px] font-black uppercase">
+          <span className="text-slate-400">{offer.client} · {CONTRACT_TIERS[offer.tier].name}</span>
+          <span className="text-slate-500">Closes in {offer.offerExpiryDay - day + 1}D</span>
+        </div>
+        {renderTerms(offer)}
+        <div className="flex justify-between items-center gap-2">
+          <p className="text-[9px] text-slate-500 font-mono font-bold">
+            @ ${offer.price.toFixed(2)} <span className={vsSpot >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{vsSpot >= 0 ? '+' : ''}{(vsSpot * 100).toFixed(1)}% vs spot</span>
+            {' · '}{money(getContractValue(offer))} · penalty <span className="text-rose-400">{money(offer.penalty)}</span>
+          </p>
+          <button
+            onClick={() => onAccept(offer.id)}
+            disabled={isLocked || isPaused}
+            title={isLocked ? `Needs reputation ${offer.minReputation}` : 'Accept and start reserving stock'}
+            className="text-[9px] bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-2 py-1 rounded font-bold uppercase transition-all flex-shrink-0"
+          >
+            {isLocked ? `🔒 Rep ${offer.minReputation}` : 'Accept'}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  const renderContract = (contract: SupplyContract) => {
+    const daysLeft = contract.deadlineDay - day;
+    return (
+      <div key={contract.id} className="bg-slate-900/50 p-2.5 rounded-lg border border-slate-700 space-y-1.5">
+        <div className="flex justify-between items-center text-[9px] font-black uppercase">
+          <span className="text-slate-400">{contract.id} · {contract.client}</span>
+          <span className={daysLeft <= 3 ? 'text-rose-400 animate-pulse' : 'text-slate-400'}>{daysLeft > 0 ? `${daysLeft}D left` : 'Due today'}</span>
+        </div>
+        {renderTerms(contract)}
+        <div className="w-full bg-slate-950 h-1.5 rounded-full overflow-hidden border border-slate-700">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${(contract.reserved / contract.quantity) * 100}%` }}></div>
+        </div>
+        <div className="flex justify-between items-center gap-2">
+          <p className="text-[9px] text-slate-500 font-mono font-bold">
+            {contract.reserved.toLocaleString()}/{contract.quantity.toLocaleString()} reserved · pays <span className="text-emerald-400">{money(getContractValue(contract))}</span> · penalty <span className="text-rose-400">{money(contract.penalty)}</span>
+          </p>
+          <button
+            onClick={() => onWalkAway(contract.id)}
+            disabled={isPaused}
+            title="Default now: pay the penalty and lose reputation"
+            className="text-[9px] bg-slate-700 hover:bg-rose-600/40 text-rose-400 px-2 py-1 rounded font-bold uppercase transition-all flex-shrink-0"
+          >
+            Walk Away
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-t-4 border-t-emerald-500">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-bold text-emerald-400 uppercase italic">Contracts</h2>
+        <div className="flex gap-1">
+          {(['board', 'active', 'history'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`text-[9px] px-2 py-1 rounded font-black uppercase transition-all ${tab === t ? 'bg-emerald-600' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+            >
+              {t === 'board' ? `Board (${gameState.contractOffers.length})` : t === 'active' ? `Active (${gameState.contracts.length})` : 'History'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1 mb-4">
+        <div className="flex justify-between text-[10px] font-black uppercase">
+          <span className="text-slate-500">Reputation <span className="text-white font-mono">{reputation}</span>/100</span>
+          <span className="text-slate-500">
+            {CONTRACT_TIERS[unlocked].name} work{nextTier && <> · {nextTier.name} at {nextTier.minReputation}</>}
+          </span>
+        </div>
+        <div className="w-full bg-slate-950 h-2 rounded-full overflow-hidden border border-slate-700">
+          <div className="h-full bg-emerald-500 transition-all" style={{ width: `${reputation}%` }}></div>
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-80 overflow-y-auto no-scrollbar">
+        {tab === 'board' && gameState.contractOffers.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">No offers posted yet</p>}
+        {tab === 'board' && gameState.contractOffers.map(renderOffer)}
+
+        {tab === 'active' && gameState.contracts.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">No contracts in progress</p>}
+        {tab === 'active' && gameState.contracts.map(renderContract)}
+
+        {tab === 'history' && gameState.contractHistory.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">No contracts settled yet</p>}
+        {tab === 'history' && [...gameState.contractHistory].reverse().map(o => (
+          <div key={o.contract.id} className="flex justify-between items-center text-[10px] font-mono font-bold text-slate-400 px-1">
+            <span>D{o.day} {getCommodity(o.contract.commodityId).icon} {o.contract.client} · {STATUS_LABELS[o.status]}</span>
+            <span className={o.cashDelta >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+              {o.cashDelta >= 0 ? '+' : '-'}{money(Math.abs(o.cashDelta))} · {o.reputationDelta >= 0 ? '+' : ''}{o.reputationDelta} rep
+            </span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default ContractsPanel;
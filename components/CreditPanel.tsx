@@ -0,0 +1,183 @@
+
+import React, { useState } from 'react';
+import { GameState, LoanProduct } from '../types';
+import { INSTALLMENT_INTERVAL, LOAN_PRODUCTS, SECURED_TERM, TERM_LENGTHS } from '../constants';
+import { getTotalDebt } from '../engine/economy';
+import { getRateMultiplier } from '../engine/events';
+import { getAvailableCredit, getCreditLimit, getCreditRating, getCreditScore, getInstallment, getLoanRate, getMaxSecured, getUnsecuredDebt } from '../engine/credit';
+
+interface Props {
+  gameState: GameState;
+  onBorrow: (product: LoanProduct, amount: number, termDays?: number, collateralFacilityId?: string) => void;
+  onRepay: (loanId: string, amount: number) => void;
+  isPaused: boolean;
+}
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(2)}%/day`;
+
+const CreditPanel: React.FC<Props> = ({ gameState, onBorrow, onRepay, isPaused }) => {
+  const [product, setProduct] = useState<LoanProduct>('REVOLVER');
+  const [amount, setAmount] = useState('');
+  const [termDays, setTermDays] = useState(TERM_LENGTHS[0]);
+  const [facilityId, setFacilityId] = useState('');
+  const [repayLoanId, setRepayLoanId] = useState('');
+  const [repayAmount, setRepayAmount] = useState(0);
+
+  const rating = getCreditRating(gameState);
+  const limit = getCreditLimit(gameState);
+  const used = getUnsecuredDebt(gameState);
+  const available = getAvailableCredit(gameState);
+  const rate = getLoanRate(gameState, product);
+  // Rate events scale interest as it accrues, on every loan alike
+  const rateShock = getRateMultiplier(gameState.activeEvents, 'interestRate');
+  const parsedAmount = parseFloat(amount) || 0;
+
+  const collateralOptions = gameState.facilities.filter(f => getMaxSecured(gameState, f) > 0);
+  const collateral = collateralOptions.find(f => f.id === facilityId) || collateralOptions[0];
+  const maxBorrow = product === 'SECURED' ? (collateral ? getMaxSecured(gameState, collateral) : 0) : available;
+  const canBorrow = parsedAmount > 0 && parsedAmount <= maxBorrow;
+
+  const repayLoan = gameState.loans.find(l => l.id === repayLoanId) || gameState.loans[0];
+  // Rounding the balance up lets the slider clear a loan outright; the engine caps payments at the balance
+  const maxRepayable = repayLoan ? Math.max(0, Math.min(Math.floor(gameState.cash), Math.ceil(repayLoan.balance))) : 0;
+
+  const handleBorrow = (value: number) => {
+    if (value <= 0) return;
+    onBorrow(product, value, product === 'TERM' ? termDays : undefined, product === 'SECURED' ? collateral?.id : undefined);
+    setAmount('');
+  };
+
+  const handleRepay = () => {
+    if (!repayLoan || repayAmount <= 0) return;
+    onRepay(repayLoan.id, repayAmount);
+    setRepayAmount(0);
+  };
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-t-4 border-t-rose-500">
+      <h2 className="text-lg font-bold mb-5 text-rose-400 uppercase italic flex items-center gap-2">
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
+        Credit
+        <span className={`ml-auto text-[10px] font-black not-italic px-2 py-0.5 rounded ${rating.rateMultiplier <= 1 ? 'bg-emerald-500/20 text-emerald-400' : 'bg-rose-500/20 text-rose-400'}`}>
+          {rating.grade} · {getCreditScore(gameState)}
+        </span>
+      </h2>
+      <div className="space-y-5">
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] font-black uppercase text-slate-500">
+            <span>Unsecured Limit</span>
+            <span className="font-mono text-slate-300">${used.toLocaleString(undefined, { maximumFractionDigits: 0 })} / ${limit.toLocaleString()}</span>
+          </div>
+          <div className="w-full bg-slate-950 h-1.5 rounded-full overflow-hidden border border-slate-700">
+            <div className="h-full bg-rose-500 transition-all" style={{ width: `${limit > 0 ? Math.min(100, (used / limit) * 100) : 100}%` }}></div>
+          </div>
+        </div>
+
+        <div className="flex gap-1">
+          {(Object.keys(LOAN_PRODUCTS) as LoanProduct[]).map(p => (
+            <button
+              key={p}
+              onClick={() => setProduct(p)}
+              className={`flex-1 text-[9px] py-1 rounded font-black uppercase transition-all ${product === p ? 'bg-rose-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+            >
+              {LOAN_PRODUCTS[p].label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex justify-between text-[10px] font-black uppercase text-slate-500">
+            <span>Rate</span>
+            <span className="font-mono text-rose-400">{formatRate(rate)}{product === 'REVOLVER' ? ' floating' : ' fixed'}{rateShock !== 1 && <span className="text-amber-400 ml-1">x{rateShock.toFixed(2)} event</span>}</span>
+          </div>
+          {product === 'REVOLVER' ? (
+            <div className="grid grid-cols-3 gap-2">
+              {[5000, 10000, 25000].map(amt => (
+                <button
+                  key={amt}
+                  onClick={() => handleBorrow(amt)}
+                  disabled={amt > available || isPaused}
+                  className={`text-[10px] py-2.5 rounded-lg font-black transition-all border ${amt > available ? 'bg-slate-900 text-slate-600 border-slate-800 cursor-not-allowed' : 'bg-slate-700 hover:bg-rose-600/30 border-slate-600 hover:border-rose-500'}`}
+                >
+                  +${amt / 1000}k
+                </button>
+              ))}
+            </div>
+          ) : (
+            <>
+              {product === 'TERM' ? (
+                <select value={termDays} onChange={(e) => setTermDays(parseInt(e.target.value))} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-bold uppercase text-white">
+                  {TERM_LENGTHS.map(t => <option key={t} value={t}>{t} days</option>)}
+                </select>
+              ) : (
+                <select value={collateral?.id || ''} onChange={(e) => setFacilityId(e.target.value)} disabled={collateralOptions.length === 0} className="w-full bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-bold uppercase text-white">
+                  {collateralOptions.length === 0 && <option value="">No unpledged facilities</option>}
+                  {collateralOptions.map(f => <option key={f.id} value={f.id}>{f.name} (max ${getMaxSecured(gameState, f).toLocaleString()})</option>)}
+                </select>
+              )}
+              <div className="flex gap-2">
+                <input type="number" min="1" value={amount} onChange={(e) => setAmount(e.target.value)} placeholder={`Amount (max $${Math.floor(maxBorrow).toLocaleString()})`}
+                  className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-white placeholder:text-slate-600" />
+                <button
+                  onClick={() => handleBorrow(parsedAmount)}
+                  disabled={!canBorrow || isPaused}
+                  className="bg-rose-600 hover:bg-rose-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-4 py-1.5 rounded-lg font-black text-[10px] uppercase transition-all active:scale-95"
+                >
+                  Borrow
+                </button>
+              </div>
+              {canBorrow && (
+                <p className="text-[10px] font-bold uppercase text-slate-500 text-right">
+                  Installment <span className="font-mono text-slate-300">${getInstallment(parsedAmount, rate, product === 'TERM' ? termDays : SECURED_TERM).toFixed(2)}</span> every {INSTALLMENT_INTERVAL} days
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="bg-slate-950/50 p-4 rounded-xl border border-slate-700 flex justify-between items-center">
+          <span className="text-slate-400 text-[10px] font-black uppercase tracking-widest">Total Debt</span>
+          <span className="text-rose-500 font-mono font-bold text-xl">${getTotalDebt(gameState).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+        </div>
+
+        {gameState.loans.length > 0 && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              {gameState.loans.map(l => (
+                <button
+                  key={l.id}
+                  onClick={() => { setRepayLoanId(l.id); setRepayAmount(0); }}
+                  className={`w-full flex justify-between items-center text-[10px] font-mono font-bold px-2 py-1.5 rounded-lg border transition-all ${repayLoan?.id === l.id ? 'border-emerald-500/50 bg-emerald-500/10 text-slate-200' : 'border-transparent text-slate-400 hover:bg-slate-700/50'}`}
+                >
+                  <span>{l.id} {LOAN_PRODUCTS[l.product].label}{l.missedPayments > 0 && <span className="text-rose-400 ml-1">{l.missedPayments} missed</span>}</span>
+                  <span>${l.balance.toLocaleString(undefined, { maximumFractionDigits: 0 })} @ {formatRate(l.rate)}</span>
+                </button>
+              ))}
+            </div>
+            <div className="flex justify-between items-center px-1">
+              <span className="text-[10px] text-slate-500 uppercase font-black">Repay {repayLoan?.id}</span>
+              <span className="text-emerald-400 font-mono font-bold text-lg">${repayAmount.toLocaleString()}</span>
+            </div>
+            <input
+              type="range"
+              min="0"
+              max={maxRepayable}
+              value={repayAmount}
+              onChange={(e) => setRepayAmount(parseInt(e.target.value))}
+              className="w-full h-2.5 bg-slate-900 rounded-lg appearance-none accent-emerald-500 cursor-pointer"
+            />
+            <button
+              onClick={handleRepay}
+              disabled={repayAmount <= 0 || isPaused}
+              className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 text-white py-3 rounded-xl font-black text-xs uppercase shadow-lg active:scale-95 transition-all"
+            >
+              Authorize Payment
+            </button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CreditPanel;
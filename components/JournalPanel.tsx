@@ -0,0 +1,144 @@
+
+import React, { useState, useMemo } from 'react';
+import { JournalEntry, JournalKind, RegionId } from '../types';
+import { COMMODITIES, REGIONS } from '../constants';
+import { journalToCsv } from '../engine/journal';
+import { getCommodity, getRegion } from '../engine/economy';
+import { downloadFile } from '../services/download';
+
+interface Props {
+  journal: JournalEntry[];
+  currentDay: number;
+}
+
+const KIND_LABELS: Record<JournalKind, string> = {
+  BUY: 'Buy',
+  SELL: 'Sell',
+  SHORT_SALE: 'Short Sale',
+  SHORT_COVER: 'Short Cover',
+  ORDER_ESCROW: 'Order Escrow',
+  ORDER_RELEASE: 'Order Release',
+  PRODUCTION: 'Production',
+  OVERFLOW_SALE: 'Overflow Sale',
+  CONSTRUCTION: 'Construction',
+  UPGRADE: 'Upgrade',
+  FACILITY_SALE: 'Facility Sale',
+  MAINTENANCE: 'Maintenance',
+  WAREHOUSE: 'Warehouse',
+  STORAGE_FEE: 'Storage Fee',
+  SPOILAGE: 'Spoilage',
+  SHIPPING: 'Shipping',
+  LOAN: 'Loan',
+  REPAYMENT: 'Repayment',
+  INTEREST: 'Interest',
+  LATE_FEE: 'Late Fee',
+  COLLATERAL_SEIZURE: 'Seizure',
+  BORROW_FEE: 'Borrow Fee',
+  TAX: 'Tax',
+  SUBSCRIPTION: 'Subscription',
+  CONTRACT_DELIVERY: 'Contract Delivery',
+  CONTRACT_PENALTY: 'Contract Penalty'
+};
+
+const MAX_ROWS = 200; // Rendering cap; exports always include every matching entry
+
+const JournalPanel: React.FC<Props> = ({ journal, currentDay }) => {
+  const [kind, setKind] = useState<JournalKind | 'ALL'>('ALL');
+  const [commodityId, setCommodityId] = useState<string>('ALL');
+  const [region, setRegion] = useState<RegionId | 'ALL'>('ALL');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+
+  const filtered = useMemo(() => {
+    const from = parseInt(fromDay) || 0;
+    const to = parseInt(toDay) || Infinity;
+    return journal.filter(e =>
+      (kind === 'ALL' || e.kind === kind) &&
+      (commodityId === 'ALL' || e.commodityId === commodityId) &&
+      (region === 'ALL' || e.region === region) &&
+      e.day >= from && e.day <= to
+    );
+  }, [journal, kind, commodityId, region, fromDay, toDay]);
+
+  const visible = filtered.slice(-MAX_ROWS).reverse();
+  const netCash = filtered.reduce((acc, e) => acc + e.cashDelta, 0);
+
+  const exportName = `journal-day${currentDay}`;
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-l-4 border-l-blue-500">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-5">
+        <h2 className="text-lg font-black text-blue-400 uppercase italic">Transaction Journal</h2>
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={kind} onChange={(e) => setKind(e.target.value as JournalKind | 'ALL')} className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-bold uppercase text-white">
+            <option value="ALL">All Types</option>
+            {(Object.keys(KIND_LABELS) as JournalKind[]).map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+          </select>
+          <select value={commodityId} onChange={(e) => setCommodityId(e.target.value)} className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-bold uppercase text-white">
+            <option value="ALL">All Commodities</option>
+            {COMMODITIES.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+          </select>
+          <select value={region} onChange={(e) => setRegion(e.target.value as RegionId | 'ALL')} className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-bold uppercase text-white">
+            <option value="ALL">All Regions</option>
+            {REGIONS.map(r => <option key={r.id} value={r.id}>{r.icon} {r.name}</option>)}
+          </select>
+          <input type="number" min="1" value={fromDay} onChange={(e) => setFromDay(e.target.value)} placeholder="From day"
+            className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-mono text-white placeholder:text-slate-600" />
+          <input type="number" min="1" value={toDay} onChange={(e) => setToDay(e.target.value)} placeholder="To day"
+            className="w-24 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-mono text-white placeholder:text-slate-600" />
+          <button onClick={() => downloadFile(`${exportName}.csv`, journalToCsv(filtered), 'text/csv')} className="text-[10px] bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded-lg font-black uppercase transition-all">
+            CSV
+          </button>
+          <button onClick={() => downloadFile(`${exportName}.json`, JSON.stringify(filtered, null, 2), 'application/json')} className="text-[10px] bg-slate-700 hover:bg-slate-600 px-3 py-1.5 rounded-lg font-black uppercase transition-all">
+            JSON
+          </button>
+        </div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto no-scrollbar">
+        <table className="w-full text-[10px] font-mono">
+          <thead className="sticky top-0 bg-slate-800 text-slate-500 uppercase font-black">
+            <tr className="text-left">
+              <th className="py-1.5 pr-2">Day</th>
+              <th className="pr-2">Type</th>
+              <th className="pr-2">Asset</th>
+              <th className="pr-2 text-right">Qty</th>
+              <th className="pr-2 text-right">Price</th>
+              <th className="pr-2 text-right">Cash</th>
+              <th className="pr-2 text-right">Debt</th>
+              <th className="pr-2 text-right">Balance</th>
+              <th>Memo</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {visible.map(e => (
+              <tr key={e.id} className="border-t border-slate-700/50">
+                <td className="py-1 pr-2 text-slate-500">{e.day}</td>
+                <td className="pr-2 font-bold uppercase">{KIND_LABELS[e.kind]}</td>
+                <td className="pr-2">{e.commodityId ? `${getCommodity(e.commodityId).icon} ${e.commodityId}` : '—'}{e.region && <span className="text-slate-500 ml-1">{getRegion(e.region).icon}</span>}</td>
+                <td className="pr-2 text-right">{e.quantity?.toLocaleString() ?? ''}</td>
+                <td className="pr-2 text-right">{e.price !== null ? `$${e.price.toFixed(2)}` : ''}</td>
+                <td className={`pr-2 text-right font-bold ${e.cashDelta > 0 ? 'text-emerald-400' : e.cashDelta < 0 ? 'text-rose-400' : 'text-slate-600'}`}>
+                  {e.cashDelta === 0 ? '—' : `${e.cashDelta > 0 ? '+' : '-'}$${Math.abs(e.cashDelta).toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+                </td>
+                <td className="pr-2 text-right text-amber-500">
+                  {e.debtDelta === 0 ? '' : `${e.debtDelta > 0 ? '+' : '-'}$${Math.abs(e.debtDelta).toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+                </td>
+                <td className="pr-2 text-right">${e.cashAfter.toLocaleString(undefined, { maximumFractionDigits: 0 })}</td>
+                <td className="text-slate-500 truncate max-w-[160px]">{e.memo}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filtered.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-4">No matching entries</p>}
+      </div>
+
+      <div className="flex justify-between text-[10px] text-slate-500 font-black uppercase mt-3">
+        <span>Showing {visible.length} of {filtered.length} entries</span>
+        <span>Net cash flow: <span className={netCash >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{netCash >= 0 ? '+' : '-'}${Math.abs(netCash).toLocaleString(undefined, { maximumFractionDigits: 0 })}</span></span>
+      </div>
+    </section>
+  );
+};
+
+export default JournalPanel;
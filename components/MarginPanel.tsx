@@ -0,0 +1,62 @@
+
+import React from 'react';
+import { GameState } from '../types';
+import { MAINTENANCE_MARGIN, INITIAL_MARGIN, SHORT_BORROW_RATE } from '../constants';
+import { getShortExposure } from '../engine/economy';
+import { getMarginRatio } from '../engine/margin';
+
+interface Props {
+  gameState: GameState;
+}
+
+const MarginPanel: React.FC<Props> = ({ gameState }) => {
+  const exposure = getShortExposure(gameState);
+  const ratio = getMarginRatio(gameState);
+  const { marginCall } = gameState;
+
+  if (exposure === 0 && !marginCall) return null;
+
+  // Bar spans 0% to the initial margin requirement
+  const fill = Math.max(0, Math.min(1, ratio / INITIAL_MARGIN)) * 100;
+  const maintenanceMark = (MAINTENANCE_MARGIN / INITIAL_MARGIN) * 100;
+
+  return (
+    <section className={`bg-slate-800 rounded-2xl p-5 border shadow-xl border-t-4 border-t-rose-500 ${marginCall ? 'border-rose-500 ring-2 ring-rose-500/30' : 'border-slate-700'}`}>
+      <h2 className="text-lg font-bold mb-5 text-rose-400 uppercase italic">Margin Account</h2>
+      <div className="space-y-4">
+        <div className="flex justify-between items-center">
+          <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">Short Exposure</p>
+          <span className="text-rose-400 font-mono font-bold text-lg">${exposure.toLocaleString(undefined, { maximumFractionDigits: 0 })}</span>
+        </div>
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] font-black uppercase text-slate-500">
+            <span>Equity Ratio</span>
+            <span className={ratio < MAINTENANCE_MARGIN ? 'text-rose-500' : 'text-emerald-400'}>{(ratio * 100).toFixed(1)}%</span>
+          </div>
+          <div className="w-full bg-slate-950 h-3 rounded-full overflow-hidden border border-slate-700 relative">
+            <div className={`h-full transition-all duration-500 ${ratio < MAINTENANCE_MARGIN ? 'bg-rose-500' : 'bg-emerald-500'}`} style={{ width: `${fill}%` }}></div>
+            <div className="absolute top-0 bottom-0 w-0.5 bg-amber-400" style={{ left: `${maintenanceMark}%` }}></div>
+          </div>
+          <div className="flex justify-between text-[9px] text-slate-600 font-black uppercase">
+            <span>Maint. {MAINTENANCE_MARGIN * 100}%</span>
+            <span>Initial {INITIAL_MARGIN * 100}%</span>
+          </div>
+        </div>
+        <div className="flex justify-between text-[10px] font-bold uppercase text-slate-500">
+          <span>Borrow Fee / Day</span>
+          <span className="text-rose-400 font-mono">-${(exposure * SHORT_BORROW_RATE).toLocaleString(undefined, { maximumFractionDigits: 2 })}</span>
+        </div>
+        {marginCall && (
+          <div className="bg-rose-600/20 border border-rose-500 p-3 rounded-xl">
+            <p className="text-rose-400 font-black uppercase text-xs">Margin Call</p>
+            <p className="text-[10px] text-slate-300 font-bold">
+              Restore ${marginCall.shortfall.toLocaleString(undefined, { maximumFractionDigits: 0 })} of equity within {Math.max(0, marginCall.deadlineDay - gameState.day)} days or shorts are bought back.
+            </p>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default MarginPanel;
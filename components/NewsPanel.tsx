@@ -0,0 +1,58 @@
+
+import React from 'react';
+import { Commodity, NewsItem, NewsKind } from '../types';
+import { INTEL_DAILY_FEE } from '../constants';
+import { getEventDefinition, isCommodityTargeted } from '../engine/events';
+
+interface Props {
+  news: NewsItem[];
+  currentDay: number;
+  // Headlines touching the charted commodity are highlighted
+  focus: Commodity;
+  hasIntelligence: boolean;
+  onToggleIntelligence: (enabled: boolean) => void;
+  isPaused: boolean;
+}
+
+const KIND_STYLES: Record<NewsKind, string> = {
+  RUMOR: 'bg-amber-500/20 text-amber-400',
+  BREAKING: 'bg-blue-600 text-white',
+  ENDED: 'bg-slate-700 text-slate-300',
+  DEBUNKED: 'bg-slate-700 text-slate-500 line-through'
+};
+
+const NewsPanel: React.FC<Props> = ({ news, currentDay, focus, hasIntelligence, onToggleIntelligence, isPaused }) => (
+  <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl">
+    <div className="flex justify-between items-center mb-4">
+      <h2 className="text-lg font-black text-blue-400 uppercase italic tracking-tighter">Newswire</h2>
+      <button
+        onClick={() => onToggleIntelligence(!hasIntelligence)}
+        disabled={isPaused}
+        title="Rumors come true more often and their reliability scores are sharper"
+        className={`text-[9px] px-3 py-1 rounded font-black uppercase transition-all ${hasIntelligence ? 'bg-emerald-600 text-white hover:bg-emerald-500' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+      >
+        {hasIntelligence ? 'Intel Active' : 'Subscribe Intel'} (${INTEL_DAILY_FEE}/day)
+      </button>
+    </div>
+    <div className="space-y-1.5 max-h-56 overflow-y-auto no-scrollbar">
+      {news.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">No headlines yet</p>}
+      {[...news].reverse().map(item => {
+        const isFocused = isCommodityTargeted(getEventDefinition(item.eventId).target, focus);
+        return (
+          <div key={item.id} className={`flex items-center gap-2 text-[10px] px-2 py-1.5 rounded-lg ${isFocused ? 'bg-slate-900/80 border border-blue-500/30' : 'bg-slate-900/30'}`}>
+            <span className="font-mono text-slate-500 w-10 flex-shrink-0">D{item.day}</span>
+            <span className={`px-1.5 py-0.5 rounded font-black uppercase text-[8px] flex-shrink-0 ${KIND_STYLES[item.kind]}`}>{item.kind}</span>
+            <span className={`flex-1 font-bold ${isFocused ? 'text-slate-200' : 'text-slate-400'}`}>{item.headline}</span>
+            {item.reliability !== null && (
+              <span className="font-mono text-amber-400 flex-shrink-0" title={item.expectedDay !== null && item.expectedDay > currentDay ? `Due day ${item.expectedDay}` : undefined}>
+                {(item.reliability * 100).toFixed(0)}%
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  </section>
+);
+
+export default NewsPanel;
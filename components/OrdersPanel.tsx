@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import { StandingOrder, OrderFill } from '../types';
+import { ORDER_LABELS, isBuyOrder } from '../engine/orders';
+import { getCommodity, getRegion } from '../engine/economy';
+
+interface Props {
+  orders: StandingOrder[];
+  fills: OrderFill[];
+  currentDay: number;
+  onCancel: (orderId: string) => void;
+  isPaused: boolean;
+}
+
+const OrdersPanel: React.FC<Props> = ({ orders, fills, currentDay, onCancel, isPaused }) => {
+  const [tab, setTab] = useState<'open' | 'fills'>('open');
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-t-4 border-t-blue-500">
+      <div className="flex justify-between items-center mb-5">
+        <h2 className="text-lg font-bold text-blue-400 uppercase italic">Order Book</h2>
+        <div className="flex gap-1">
+          {(['open', 'fills'] as const).map(t => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`text-[9px] px-2 py-1 rounded font-black uppercase transition-all ${tab === t ? 'bg-blue-600' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+            >
+              {t === 'open' ? `Open (${orders.length})` : 'Fills'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2 max-h-64 overflow-y-auto no-scrollbar">
+        {tab === 'open' && orders.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">No working orders</p>}
+        {tab === 'open' && orders.map(order => {
+          const commodity = getCommodity(order.commodityId);
+          return (
+            <div key={order.id} className="bg-slate-900/50 p-2.5 rounded-lg border border-slate-700 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-bold">
+                  <span className={isBuyOrder(order.type) ? 'text-emerald-400' : 'text-rose-400'}>{ORDER_LABELS[order.type]}</span> {commodity.icon} {order.quantity.toLocaleString()} <span className="text-slate-500">{getRegion(order.region).icon}</span>
+                </p>
+                <p className="text-[9px] text-slate-500 font-mono">
+                  @ ${order.triggerPrice.toFixed(2)} · {order.expiryDay === null ? 'GTC' : `${order.expiryDay - currentDay}D LEFT`}
+                </p>
+              </div>
+              <button
+                onClick={() => onCancel(order.id)}
+                disabled={isPaused}
+                className="text-[9px] bg-slate-700 hover:bg-rose-600/40 text-rose-400 px-2 py-1 rounded font-bold uppercase transition-all flex-shrink-0"
+              >
+                Cancel
+              </button>
+            </div>
+          );
+        })}
+
+        {tab === 'fills' && fills.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">No fills yet</p>}
+        {tab === 'fills' && [...fills].reverse().map(fill => (
+          <div key={`${fill.orderId}-${fill.day}`} className="flex justify-between items-center text-[10px] font-mono font-bold text-slate-400 px-1">
+            <span>D{fill.day} {getCommodity(fill.commodityId).icon}{getRegion(fill.region).icon} {ORDER_LABELS[fill.type]}</span>
+            <span className={isBuyOrder(fill.type) ? 'text-emerald-400' : 'text-rose-400'}>
+              {isBuyOrder(fill.type) ? '+' : '-'}{fill.quantity.toLocaleString()} @ ${fill.price.toFixed(2)}
+            </span>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default OrdersPanel;
@@ -0,0 +1,306 @@
+
+import React, { useMemo, useState } from 'react';
+import { ComposedChart, Line, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine, ReferenceArea, ReferenceDot } from 'recharts';
+import { ActiveEvent, Commodity, IndicatorId, IndicatorSettings, JournalEntry, MarketPrice, NewsItem, RegionId } from '../types';
+import { COMMODITIES, REGIONS, SEASON_LENGTH } from '../constants';
+import { getBarDay, getClose } from '../engine/history';
+import { getEventDefinition, isCommodityTargeted } from '../engine/events';
+import { INDICATORS, MA_PERIODS, Series, bollinger, ema, macd, rsi, sma, volatility } from '../engine/indicators';
+import { DEFAULT_INDICATOR_SETTINGS, readChartSettings, writeChartSettings } from '../services/chartSettings';
+
+interface Props {
+  commodity: Commodity;
+  // Global index of every commodity; compare mode plots several at once
+  prices: Record<string, MarketPrice>;
+  quotes: Record<RegionId, MarketPrice>;
+  activeRegion: RegionId;
+  currentDay: number;
+  news: NewsItem[];
+  activeEvents: ActiveEvent[];
+  eventHistory: ActiveEvent[];
+  journal: JournalEntry[];
+}
+
+type ChartMode = 'LINE' | 'CANDLE' | 'COMPARE';
+
+const MODE_LABELS: Record<ChartMode, string> = { LINE: 'Line', CANDLE: 'Candles', COMPARE: 'Compare' };
+
+const REGION_COLORS: Record<RegionId, string> = { AMERICAS: '#3b82f6', EUROPE: '#a855f7', ASIA: '#f59e0b' };
+
+// One per commodity, in COMMODITIES order
+const COMPARE_COLORS = ['#f59e0b', '#f97316', '#facc15', '#94a3b8', '#a3e635', '#10b981', '#f43f5e', '#ec4899'];
+
+// 1Y is the game's year, the same one seasonality cycles over
+const TIMEFRAMES: { label: string; days: number | null }[] = [
+  { label: '20D', days: 20 },
+  { label: '90D', days: 90 },
+  { label: '1Y', days: SEASON_LENGTH },
+  { label: 'All', days: null }
+];
+
+// Oscillators get a pane of their own under the price
+const SUB_PANES = (Object.keys(INDICATORS) as IndicatorId[]).filter(id => !INDICATORS[id].isOverlay);
+
+const BUY_KINDS = ['BUY', 'SHORT_COVER'];
+const SELL_KINDS = ['SELL', 'SHORT_SALE'];
+
+const TOOLTIP_STYLE = { backgroundColor: '#0f172a', border: '1px solid #334155', borderRadius: '12px', color: '#fff' };
+
+// One day on the chart; every other series is keyed by name (price, a region, a commodity or an indicator line)
+interface ChartPoint {
+  day: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  close?: number;
+  range?: [number, number];
+  macdHistogram?: number;
+  [series: string]: number | [number, number] | undefined;
+}
+
+// Where recharts places a custom shape
+interface ShapeBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface BarShapeProps extends ShapeBounds {
+  payload: ChartPoint;
+}
+
+// Drawn over a low-to-high range bar: the wick spans the bar, the body sits between open and close
+const Candle = ({ x, y, width, height, payload }: BarShapeProps) => {
+  const { open, high, low, close } = payload;
+  if (open === undefined || high === undefined || low === undefined || close === undefined) return <g />;
+  const color = close >= open ? '#10b981' : '#f43f5e';
+  const top = Math.min(y, y + height);
+  const span = Math.abs(height);
+  const scale = high > low ? span / (high - low) : 0;
+  const bodyTop = top + (high - Math.max(open, close)) * scale;
+  const center = x + width / 2;
+  return (
+    <g>
+      <line x1={center} x2={center} y1={top} y2={top + span} stroke={color} strokeWidth={1} />
+      <rect x={x + width * 0.15} y={bodyTop} width={Math.max(1, width * 0.7)} height={Math.max(1, Math.abs(open - close) * scale)} fill={color} />
+    </g>
+  );
+};
+
+const EventShade = ({ x, y, width, height }: ShapeBounds) => (
+  <rect x={x} y={y} width={width} height={height} fill="#3b82f6" fillOpacity={0.08} />
+);
+
+const HistogramBar = ({ x, y, width, height, payload }: BarShapeProps) => (
+  <rect x={x} y={Math.min(y, y + height)} width={width} height={Math.abs(height)} fill={(payload.macdHistogram ?? 0) >= 0 ? '#10b981' : '#f43f5e'} fillOpacity={0.6} />
+);
+
+const PriceChart: React.FC<Props> = ({ commodity, prices, quotes, activeRegion, currentDay, news, activeEvents, eventHistory, journal }) => {
+  const [mode, setMode] = useState<ChartMode>('LINE');
+  const [timeframe, setTimeframe] = useState(TIMEFRAMES[0]);
+  const [allSettings, setAllSettings] = useState(readChartSettings);
+  const [compareIds, setCompareIds] = useState<string[]>(() => COMMODITIES.map(c => c.id));
+
+  const settings = allSettings[commodity.id] ?? DEFAULT_INDICATOR_SETTINGS;
+  const isShown = (id: IndicatorId) => mode !== 'COMPARE' && settings.enabled.includes(id);
+
+  const updateSettings = (next: IndicatorSettings) => {
+    const updated = { ...allSettings, [commodity.id]: next };
+    setAllSettings(updated);
+    writeChartSettings(updated);
+  };
+
+  const toggleIndicator = (id: IndicatorId) =>
+    updateSettings({ ...settings, enabled: settings.enabled.includes(id) ? settings.enabled.filter(i => i !== id) : [...settings.enabled, id] });
+
+  const toggleCompare = (id: string) =>
+    setCompareIds(compareIds.includes(id) ? compareIds.filter(i => i !== id) : [...compareIds, id]);
+
+  // Histories may differ in length (older saves), so every series is placed by its own days.
+  // Indicators run over the whole history so they are warmed up at the window's left edge.
+  const chartData = useMemo(() => {
+    const from = timeframe.days === null ? -Infinity : currentDay - timeframe.days + 1;
+    const points = new Map<number, ChartPoint>();
+    const pointAt = (day: number) => {
+      if (!points.has(day)) points.set(day, { day });
+      return points.get(day)!;
+    };
+    const place = (quote: MarketPrice, key: string, series: Series) => series.forEach((value, i) => {
+      const day = getBarDay(quote, i, currentDay);
+      if (day >= from && value !== null) pointAt(day)[key] = value;
+    });
+
+    if (mode === 'COMPARE') {
+      // Each commodity is rebased to 100 at the first day it has in the window
+      compareIds.forEach(id => {
+        const quote = prices[id];
+        const closes = quote.history.map(getClose);
+        const base = closes[quote.history.findIndex((_, i) => getBarDay(quote, i, currentDay) >= from)];
+        place(quote, id, closes.map(c => c / base * 100));
+      });
+      return [...points.values()].sort((a, b) => a.day - b.day);
+    }
+
+    const index = prices[commodity.id];
+    place(index, 'price', index.history.map(getClose));
+    REGIONS.forEach(r => place(quotes[r.id], r.id, quotes[r.id].history.map(getClose)));
+
+    // Candles and indicators follow the exchange being viewed
+    const local = quotes[activeRegion];
+    local.history.forEach((bar, i) => {
+      const day = getBarDay(local, i, currentDay);
+      const [open, high, low, close] = bar;
+      if (day >= from) Object.assign(pointAt(day), { open, high, low, close, range: [low, high] });
+    });
+    const closes = local.history.map(getClose);
+    const enabled = settings.enabled;
+    if (enabled.includes('SMA')) place(local, 'sma', sma(closes, settings.maPeriod));
+    if (enabled.includes('EMA')) place(local, 'ema', ema(closes, settings.maPeriod));
+    if (enabled.includes('BOLLINGER')) {
+      const bands = bollinger(closes);
+      place(local, 'bbUpper', bands.upper);
+      place(local, 'bbMiddle', bands.middle);
+      place(local, 'bbLower', bands.lower);
+    }
+    if (enabled.includes('RSI')) place(local, 'rsi', rsi(closes));
+    if (enabled.includes('MACD')) {
+      const lines = macd(closes);
+      place(local, 'macd', lines.line);
+      place(local, 'macdSignal', lines.signal);
+      place(local, 'macdHistogram', lines.histogram);
+    }
+    if (enabled.includes('VOLATILITY')) place(local, 'volatility', volatility(closes));
+    return [...points.values()].sort((a, b) => a.day - b.day);
+  }, [prices, quotes, commodity.id, activeRegion, currentDay, timeframe, mode, compareIds, settings]);
+
+  const firstDay = chartData.length > 0 ? chartData[0].day : currentDay;
+  const isInWindow = (day: number) => day >= firstDay && day <= currentDay;
+
+  // Periods of events touching this commodity, clipped to the window
+  const eventSpans = mode === 'COMPARE' ? [] : [...eventHistory, ...activeEvents]
+    .map(e => ({ event: e, def: getEventDefinition(e.eventId), end: Math.min(currentDay, e.startedDay + e.duration) }))
+    .filter(s => isCommodityTargeted(s.def.target, commodity) && s.end >= firstDay);
+  const chartNews = mode === 'COMPARE' ? [] : news.filter(n => n.kind !== 'DEBUNKED' && isInWindow(n.day) && isCommodityTargeted(getEventDefinition(n.eventId).target, commodity));
+  const fills = mode === 'COMPARE' ? [] : journal.filter(j => j.commodityId === commodity.id && j.region === activeRegion && j.price !== null && isInWindow(j.day) && [...BUY_KINDS, ...SELL_KINDS].includes(j.kind));
+
+  const xAxis = <XAxis dataKey="day" stroke="#94a3b8" fontSize={10} interval="preserveStartEnd" minTickGap={24} tickFormatter={(day) => `D${day}`} />;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-3">
+        <div className="flex gap-1">
+          {(Object.keys(MODE_LABELS) as ChartMode[]).map(m => (
+            <button key={m} onClick={() => setMode(m)} className={`px-2.5 py-1 rounded text-[9px] font-black uppercase transition-all ${mode === m ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}>
+              {MODE_LABELS[m]}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-1">
+          {TIMEFRAMES.map(t => (
+            <button key={t.label} onClick={() => setTimeframe(t)} className={`px-2.5 py-1 rounded text-[9px] font-black uppercase transition-all ${timeframe.label === t.label ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}>
+              {t.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode === 'COMPARE' ? (
+        <div className="flex gap-1 mb-3 flex-wrap">
+          {COMMODITIES.map((c, i) => (
+            <button
+              key={c.id}
+              onClick={() => toggleCompare(c.id)}
+              className={`px-2 py-1 rounded text-[9px] font-black uppercase transition-all border ${compareIds.includes(c.id) ? 'bg-slate-900 text-white' : 'bg-slate-700 text-slate-500 border-transparent opacity-60'}`}
+              style={compareIds.includes(c.id) ? { borderColor: COMPARE_COLORS[i] } : undefined}
+            >
+              {c.icon} {c.name}
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex gap-1 mb-3 flex-wrap items-center">
+          {(Object.keys(INDICATORS) as IndicatorId[]).map(id => (
+            <button key={id} onClick={() => toggleIndicator(id)} className={`px-2 py-1 rounded text-[9px] font-black uppercase transition-all ${settings.enabled.includes(id) ? 'bg-cyan-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}>
+              {INDICATORS[id].label}
+            </button>
+          ))}
+          <select
+            value={settings.maPeriod}
+            onChange={(e) => updateSettings({ ...settings, maPeriod: parseInt(e.target.value) })}
+            title="Moving average period"
+            className="bg-slate-900 border border-slate-700 rounded px-1.5 py-1 text-[9px] font-mono text-slate-300"
+          >
+            {MA_PERIODS.map(p => <option key={p} value={p}>MA {p}</option>)}
+          </select>
+        </div>
+      )}
+
+      <div className="h-[320px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} syncId="market">
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+            {xAxis}
+            <YAxis domain={['auto', 'auto']} stroke="#94a3b8" fontSize={11} tickFormatter={(v) => (mode === 'COMPARE' ? v.toFixed(0) : `$${v.toFixed(0)}`)} />
+            <Tooltip labelFormatter={(day) => `Day ${day}`} contentStyle={TOOLTIP_STYLE} />
+            {eventSpans.map(s => (
+              <React.Fragment key={`${s.event.eventId}-${s.event.startedDay}`}>
+                <ReferenceArea x1={Math.max(firstDay, s.event.startedDay)} x2={s.end} shape={EventShade} label={{ value: s.def.name, position: 'insideTop', fill: '#64748b', fontSize: 9 }} />
+              </React.Fragment>
+            ))}
+            {chartNews.map(n => (
+              <ReferenceLine key={n.id} x={n.day} stroke={n.kind === 'RUMOR' ? '#f59e0b' : '#3b82f6'} strokeDasharray="2 4" />
+            ))}
+            {mode === 'COMPARE' && <ReferenceLine y={100} stroke="#475569" strokeDasharray="3 3" />}
+            {mode === 'COMPARE' && COMMODITIES.map((c, i) => compareIds.includes(c.id) && (
+              <Line key={c.id} type="monotone" dataKey={c.id} name={c.name} stroke={COMPARE_COLORS[i]} strokeWidth={c.id === commodity.id ? 4 : 2} dot={false} animationDuration={300} />
+            ))}
+            {mode !== 'COMPARE' && <Line type="monotone" dataKey="price" name="Global" stroke="#94a3b8" strokeWidth={2} strokeDasharray="6 4" dot={false} animationDuration={300} />}
+            {mode === 'LINE' && REGIONS.map(r => (
+              <Line key={r.id} type="monotone" dataKey={r.id} name={r.name} stroke={REGION_COLORS[r.id]} strokeWidth={r.id === activeRegion ? 4 : 2} dot={false} animationDuration={300} />
+            ))}
+            {mode === 'CANDLE' && <Bar dataKey="range" name="Range" shape={Candle} isAnimationActive={false} />}
+            {isShown('SMA') && <Line type="monotone" dataKey="sma" name={`SMA ${settings.maPeriod}`} stroke="#facc15" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+            {isShown('EMA') && <Line type="monotone" dataKey="ema" name={`EMA ${settings.maPeriod}`} stroke="#22d3ee" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+            {isShown('BOLLINGER') && <Line type="monotone" dataKey="bbUpper" name="BB Upper" stroke="#e2e8f0" strokeOpacity={0.5} strokeWidth={1} dot={false} isAnimationActive={false} />}
+            {isShown('BOLLINGER') && <Line type="monotone" dataKey="bbMiddle" name="BB Mid" stroke="#e2e8f0" strokeOpacity={0.3} strokeDasharray="2 4" strokeWidth={1} dot={false} isAnimationActive={false} />}
+            {isShown('BOLLINGER') && <Line type="monotone" dataKey="bbLower" name="BB Lower" stroke="#e2e8f0" strokeOpacity={0.5} strokeWidth={1} dot={false} isAnimationActive={false} />}
+            {fills.map(f => (
+              <ReferenceDot key={f.id} x={f.day} y={f.price!} r={4} fill={BUY_KINDS.includes(f.kind) ? '#10b981' : '#f43f5e'} stroke="#0f172a" strokeWidth={1.5} />
+            ))}
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      {SUB_PANES.filter(isShown).map(id => (
+        <div key={id} className="h-[110px] mt-2">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={chartData} syncId="market">
+              <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+              {xAxis}
+              <YAxis domain={id === 'RSI' ? [0, 100] : ['auto', 'auto']} stroke="#94a3b8" fontSize={10} tickFormatter={(v) => (id === 'VOLATILITY' ? `${v.toFixed(1)}%` : v.toFixed(id === 'MACD' ? 2 : 0))} />
+              <Tooltip labelFormatter={(day) => `Day ${day}`} contentStyle={TOOLTIP_STYLE} />
+              {id === 'RSI' && <ReferenceLine y={70} stroke="#f43f5e" strokeDasharray="3 3" />}
+              {id === 'RSI' && <ReferenceLine y={30} stroke="#10b981" strokeDasharray="3 3" />}
+              {id === 'RSI' && <Line type="monotone" dataKey="rsi" name="RSI" stroke="#a855f7" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+              {id === 'MACD' && <Bar dataKey="macdHistogram" name="Histogram" shape={HistogramBar} isAnimationActive={false} />}
+              {id === 'MACD' && <Line type="monotone" dataKey="macd" name="MACD" stroke="#22d3ee" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+              {id === 'MACD' && <Line type="monotone" dataKey="macdSignal" name="Signal" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+              {id === 'VOLATILITY' && <Line type="monotone" dataKey="volatility" name="Volatility" stroke="#f97316" strokeWidth={1.5} dot={false} isAnimationActive={false} />}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      ))}
+
+      {mode !== 'COMPARE' && (
+        <div className="flex gap-4 justify-end text-[9px] font-black uppercase text-slate-500 mt-2">
+          <span><span className="inline-block w-2 h-2 rounded-full bg-emerald-500 mr-1"></span>Your buys</span>
+          <span><span className="inline-block w-2 h-2 rounded-full bg-rose-500 mr-1"></span>Your sells</span>
+          <span><span className="inline-block w-3 h-2 bg-blue-500/30 mr-1"></span>Events</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PriceChart;
@@ -1,41 +1,93 @@
 
-import React from 'react';
-import { Commodity, ProductionFacility } from '../types';
+import React, { useState, useRef, useEffect } from 'react';
+import { Commodity, ProductionFacility, InventoryItem, ActiveEvent, RegionId } from '../types';
+import { REGIONS } from '../constants';
+import { getUnlockCost, getUpgradeCost, getServiceCost, getCommodity, getRegion, getProductionYield, getItem } from '../engine/economy';
+import { checkRecipe, getBatchYield, getBreakdownChance } from '../engine/production';
 
 interface Props {
   commodity: Commodity;
+  // Omitted for the card that builds a new site
   facility?: ProductionFacility;
-  onUnlock: (id: string) => void;
-  onUpgrade: (id: string) => void;
-  onSell: (id: string) => void;
-  onToggleStatus: (id: string) => void;
+  onUnlock: (commodityId: string, region: RegionId) => void;
+  onUpgrade: (facilityId: string) => void;
+  onSell: (facilityId: string) => void;
+  onService: (facilityId: string) => void;
+  onToggleStatus: (facilityId: string) => void;
+  inventory: InventoryItem[];
   cash: number;
+  activeEvents: ActiveEvent[];
+  // Pledged as loan collateral, so it cannot be sold
+  isPledged?: boolean;
   isPaused: boolean;
+  // Real time per game day, so the progress bar animates no slower than the clock
+  tickMs: number;
 }
 
-const ProductionPanel: React.FC<Props> = ({ commodity, facility, onUnlock, onUpgrade, onSell, onToggleStatus, cash, isPaused }) => {
-  const unlockCost = commodity.basePrice * 25;
-  const upgradeCost = facility ? Math.floor(unlockCost * Math.pow(1.8, facility.level)) : 0;
-  
-  // Daily cost increases by 40% per level
-  const currentDailyCost = facility ? Math.floor(commodity.productionCost * Math.pow(1.4, facility.level - 1)) : 0;
+const ProductionPanel: React.FC<Props> = ({ commodity, facility, onUnlock, onUpgrade, onSell, onService, onToggleStatus, inventory, cash, activeEvents, isPledged, isPaused, tickMs }) => {
+  const [buildRegion, setBuildRegion] = useState<RegionId>(REGIONS[0].id);
+  const unlockCost = getUnlockCost(commodity, buildRegion);
+  const upgradeCost = facility ? getUpgradeCost(commodity, facility.region, facility.level) : 0;
+  const sellValue = facility ? Math.floor(facility.bookValue) : 0;
+  const serviceCost = facility ? getServiceCost(facility) : 0;
+  const batchYield = facility ? getBatchYield(facility, activeEvents) : 0;
+  const normalYield = facility ? getProductionYield(commodity, facility.region) : 0;
+  // Inputs come from the site's own region, or the one picked for a new build
+  const siteRegion = facility ? facility.region : buildRegion;
+  const recipeCheck = checkRecipe(commodity, inventory, siteRegion);
+  const isStalled = !!facility?.stallReason;
+  // A finished batch wraps back to the start; sliding the bar backwards would read as lost progress
+  const lastProgress = useRef(facility?.progress ?? 0);
+  const hasWrapped = !!facility && facility.progress < lastProgress.current;
+  useEffect(() => {
+    lastProgress.current = facility?.progress ?? 0;
+  });
 
-  // Calculate total investment for resale value (70% return)
-  let totalInvested = unlockCost;
-  if (facility && facility.level > 1) {
-    for (let i = 1; i < facility.level; i++) {
-      totalInvested += Math.floor(unlockCost * Math.pow(1.8, i));
-    }
-  }
-  const sellValue = Math.floor(totalInvested * 0.7);
+  const recipeList = commodity.recipe && (
+    <div className="space-y-1 w-full">
+      {commodity.recipe.map(input => {
+        const shortfall = recipeCheck.shortfalls.find(s => s.input === input);
+        return (
+          <div key={input.label} className="flex justify-between items-center text-[9px] font-bold uppercase tracking-tighter">
+            <span className="text-slate-500">{input.label}</span>
+            <span className="flex gap-2">
+              {input.options.map((option, idx) => {
+                const held = getItem(inventory, siteRegion, option.commodityId).quantity;
+                return (
+                  <span key={option.commodityId} className={`font-mono ${held >= option.quantity ? 'text-emerald-400' : shortfall ? 'text-rose-400' : 'text-slate-500'}`}>
+                    {idx > 0 && <span className="text-slate-600 mr-1">or</span>}
+                    {getCommodity(option.commodityId).icon} {Math.floor(held)}/{option.quantity}
+                  </span>
+                );
+              })}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
 
   if (!facility) {
     return (
       <div className="bg-slate-800 p-4 rounded-xl border border-dashed border-slate-600 flex flex-col items-center justify-center gap-2 transition-all hover:bg-slate-800/80">
         <span className="text-2xl grayscale opacity-50">{commodity.icon}</span>
         <p className="text-sm text-slate-400">{commodity.name} Infrastructure</p>
+        {recipeList}
+        <div className="flex gap-1 w-full">
+          {REGIONS.map(region => (
+            <button
+              key={region.id}
+              onClick={() => setBuildRegion(region.id)}
+              title={`Cost x${region.costMultiplier} / Yield x${region.yieldMultiplier}`}
+              className={`flex-1 text-[9px] py-1 rounded font-black uppercase transition-all ${buildRegion === region.id ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+            >
+              {region.icon} {region.name}
+            </button>
+          ))}
+        </div>
+        <p className="text-[9px] text-slate-500 font-bold uppercase tracking-tighter">Yield: +{getProductionYield(commodity, buildRegion)} units / batch</p>
         <button 
-          onClick={() => onUnlock(commodity.id)}
+          onClick={() => onUnlock(commodity.id, buildRegion)}
           disabled={cash < unlockCost || isPaused}
           className="mt-2 text-xs bg-blue-600 hover:bg-blue-500 disabled:bg-slate-700 px-4 py-2 rounded-lg font-bold transition-all shadow-lg active:scale-95"
         >
@@ -47,21 +99,23 @@ const ProductionPanel: React.FC<Props> = ({ commodity, facility, onUnlock, onUpg
 
   return (
     <div className={`bg-slate-800 p-4 rounded-xl border transition-all flex flex-col gap-3 relative overflow-hidden group ${facility.isProducing ? 'border-blue-500/30' : 'border-amber-500/30 bg-slate-800/50'}`}>
-      <div className={`absolute top-0 right-0 px-2 py-0.5 text-[10px] font-black uppercase rounded-bl shadow-md ${facility.isProducing ? 'bg-blue-600' : 'bg-amber-600'}`}>
-        {facility.isProducing ? `LVL ${facility.level}` : 'PAUSED'}
+      <div className={`absolute top-0 right-0 px-2 py-0.5 text-[10px] font-black uppercase rounded-bl shadow-md ${facility.isBrokenDown ? 'bg-rose-600' : !facility.isProducing ? 'bg-amber-600' : isStalled ? 'bg-rose-600' : 'bg-blue-600'}`}>
+        {facility.isBrokenDown ? 'BROKEN DOWN' : !facility.isProducing ? 'PAUSED' : isStalled ? 'STALLED' : `LVL ${facility.level}`}
       </div>
       
       <div className="flex justify-between items-start">
         <div className="flex items-center gap-2">
           <span className={`text-xl transition-transform ${facility.isProducing ? 'animate-pulse' : 'grayscale opacity-50'}`}>{commodity.icon}</span>
           <div>
-            <span className="font-bold text-sm block leading-none">{commodity.name} Complex</span>
-            <span className="text-[10px] text-slate-500 uppercase font-bold tracking-tighter">Yield: +{commodity.productionYield} units</span>
+            <span className="font-bold text-sm block leading-none">{facility.name}</span>
+            <span className="text-[10px] text-slate-500 uppercase font-bold tracking-tighter">
+              {getRegion(facility.region).icon} Yield: <span className={batchYield < normalYield ? 'text-rose-400' : batchYield > normalYield ? 'text-emerald-400' : ''}>+{batchYield} units</span>
+            </span>
           </div>
         </div>
         <div className="flex gap-1">
           <button 
-            onClick={() => onToggleStatus(commodity.id)}
+            onClick={() => onToggleStatus(facility.id)}
             disabled={isPaused}
             className={`p-1.5 rounded-md transition-colors ${facility.isProducing ? 'bg-slate-700 hover:bg-amber-600/20 text-amber-500' : 'bg-amber-600 text-white hover:bg-amber-500'}`}
           >
@@ -72,10 +126,10 @@ const ProductionPanel: React.FC<Props> = ({ commodity, facility, onUnlock, onUpg
             )}
           </button>
           <button 
-            onClick={() => onSell(commodity.id)}
-            disabled={isPaused}
-            title="Sell Facility (70% value)"
-            className="p-1.5 bg-slate-700 hover:bg-rose-600/40 text-rose-400 rounded-md transition-colors"
+            onClick={() => onSell(facility.id)}
+            disabled={isPaused || isPledged}
+            title={isPledged ? 'Pledged as loan collateral' : 'Sell Facility at book value'}
+            className="p-1.5 bg-slate-700 hover:bg-rose-600/40 disabled:opacity-40 disabled:hover:bg-slate-700 text-rose-400 rounded-md transition-colors"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
           </button>
@@ -89,18 +143,52 @@ const ProductionPanel: React.FC<Props> = ({ commodity, facility, onUnlock, onUpg
         </div>
         <div className="w-full bg-slate-900 h-1.5 rounded-full overflow-hidden border border-slate-700 shadow-inner">
           <div 
-            className={`h-full transition-all duration-300 ease-linear ${facility.isProducing ? 'bg-gradient-to-r from-blue-600 to-cyan-400' : 'bg-slate-600'}`}
-            style={{ width: `${facility.progress}%` }}
+            className={`h-full transition-all ease-linear ${isStalled ? 'bg-rose-600' : facility.isProducing ? 'bg-gradient-to-r from-blue-600 to-cyan-400' : 'bg-slate-600'}`}
+            style={{ width: `${facility.progress}%`, transitionDuration: `${hasWrapped ? 0 : Math.min(300, tickMs)}ms` }}
+          ></div>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-[10px] font-bold text-slate-400 px-1 uppercase tracking-tighter">
+          <span>Condition</span>
+          <span title="Daily breakdown odds while producing">
+            {Math.round(facility.condition * 100)}% · {(getBreakdownChance(facility.condition) * 100).toFixed(1)}% risk
+          </span>
+        </div>
+        <div className="w-full bg-slate-900 h-1 rounded-full overflow-hidden border border-slate-700">
+          <div
+            className={`h-full ${facility.condition > 0.6 ? 'bg-emerald-500' : facility.condition > 0.3 ? 'bg-amber-500' : 'bg-rose-500'}`}
+            style={{ width: `${facility.condition * 100}%` }}
           ></div>
         </div>
       </div>
 
+      {recipeList}
+      {facility.isBrokenDown && (
+        <div className="text-[9px] text-rose-300 font-bold bg-rose-600/20 border border-rose-500/40 rounded px-2 py-1">
+          Broken down; production is halted until the site is serviced
+        </div>
+      )}
+      {isStalled && facility.isProducing && (
+        <div className="text-[9px] text-rose-300 font-bold bg-rose-600/20 border border-rose-500/40 rounded px-2 py-1">
+          {facility.stallReason}
+        </div>
+      )}
+
       <div className="flex items-center justify-between gap-2 mt-1">
         <div className="text-[9px] text-slate-500 leading-tight">
-          Value: <span className="text-emerald-400 font-mono">${sellValue.toLocaleString()}</span>
+          Book: <span className="text-emerald-400 font-mono">${sellValue.toLocaleString()}</span>
         </div>
+        <button
+          onClick={() => onService(facility.id)}
+          disabled={serviceCost <= 0 || cash < serviceCost || isPaused}
+          className={`text-[9px] ${facility.isBrokenDown ? 'bg-rose-600 hover:bg-rose-500' : 'bg-slate-700 hover:bg-emerald-600'} disabled:bg-slate-900 disabled:text-slate-600 text-white px-2 py-1 rounded font-bold transition-all whitespace-nowrap shadow-sm ml-auto`}
+        >
+          {facility.isBrokenDown ? 'Repair' : 'Service'} (${serviceCost > 1000 ? (serviceCost/1000).toFixed(1) + 'k' : serviceCost})
+        </button>
         <button 
-          onClick={() => onUpgrade(commodity.id)}
+          onClick={() => onUpgrade(facility.id)}
           disabled={cash < upgradeCost || isPaused}
           className="text-[9px] bg-slate-700 hover:bg-blue-600 disabled:bg-slate-900 disabled:text-slate-600 text-white px-2 py-1 rounded font-bold transition-all whitespace-nowrap shadow-sm"
         >
@@ -0,0 +1,67 @@
+
+import React, { useState } from 'react';
+import { GameState } from '../types';
+import { getCommodity } from '../engine/economy';
+import { getCommodityPerformance, getFacilityPerformance } from '../engine/analytics';
+
+interface Props {
+  gameState: GameState;
+}
+
+type View = 'COMMODITY' | 'FACILITY';
+
+const signed = (value: number) =>
+  `${value >= 0 ? '+' : '-'}$${Math.abs(value).toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const tone = (value: number) => (value >= 0 ? 'text-emerald-400' : 'text-rose-500');
+
+const ProfitBreakdown: React.FC<Props> = ({ gameState }) => {
+  const [view, setView] = useState<View>('COMMODITY');
+  const commodities = view === 'COMMODITY' ? getCommodityPerformance(gameState).sort((a, b) => b.net - a.net) : [];
+  const facilities = view === 'FACILITY' ? getFacilityPerformance(gameState).sort((a, b) => b.operatingProfit - a.operatingProfit) : [];
+
+  return (
+    <div className="space-y-2 text-[10px] font-bold uppercase">
+      <div className="flex justify-between items-center">
+        <p className="text-slate-400 font-black">Profitability</p>
+        <div className="flex gap-1">
+          {(['COMMODITY', 'FACILITY'] as View[]).map(v => (
+            <button
+              key={v}
+              onClick={() => setView(v)}
+              className={`text-[9px] px-2 py-0.5 rounded font-black transition-all ${view === v ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+            >
+              {v === 'COMMODITY' ? 'Goods' : 'Plants'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {view === 'COMMODITY' && (commodities.length === 0
+        ? <p className="text-slate-600 text-center">No trading yet</p>
+        : commodities.map(p => (
+          <div key={p.commodityId} className="flex justify-between text-slate-500" title={`Realized ${signed(p.realized)} · Unrealized ${signed(p.unrealized)} · Storage & freight -$${p.carryCosts.toFixed(0)}`}>
+            <span>{getCommodity(p.commodityId).icon} {getCommodity(p.commodityId).name}</span>
+            <span className="font-mono">
+              <span className="text-slate-600 mr-2">{signed(p.realized)} / {signed(p.unrealized)}</span>
+              <span className={tone(p.net)}>{signed(p.net)}</span>
+            </span>
+          </div>
+        )))}
+
+      {view === 'FACILITY' && (facilities.length === 0
+        ? <p className="text-slate-600 text-center">No facilities</p>
+        : facilities.map(p => (
+          <div key={p.facility.id} className="flex justify-between text-slate-500" title={`${p.facility.stats.batches} batches, ${p.facility.stats.unitsProduced.toLocaleString()} units · Invested $${p.invested.toLocaleString()} · Book value $${p.bookValue.toLocaleString(undefined, { maximumFractionDigits: 0 })}`}>
+            <span className="truncate mr-2">{p.facility.name}</span>
+            <span className="font-mono flex-shrink-0">
+              <span className="text-slate-600 mr-2">{(p.returnOnInvestment * 100).toFixed(0)}% ROI</span>
+              <span className={tone(p.operatingProfit)}>{signed(p.operatingProfit)}</span>
+            </span>
+          </div>
+        )))}
+    </div>
+  );
+};
+
+export default ProfitBreakdown;
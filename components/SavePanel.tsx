@@ -0,0 +1,123 @@
+
+import React, { useState, useRef, useEffect } from 'react';
+import { GameState, SaveSlotSummary } from '../types';
+import { AUTOSAVE_INTERVAL, AUTOSAVE_SLOT_ID } from '../constants';
+import { listSaves, writeSave, readSave, deleteSave, downloadSave, readSaveFromFile } from '../services/saveStorage';
+
+interface Props {
+  gameState: GameState;
+  onLoad: (state: GameState) => void;
+  lastAutosaveDay: number | null;
+  autosaveError: string | null;
+}
+
+const SavePanel: React.FC<Props> = ({ gameState, onLoad, lastAutosaveDay, autosaveError }) => {
+  const [slots, setSlots] = useState<SaveSlotSummary[]>(() => listSaves());
+  const [slotName, setSlotName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => setSlots(listSaves());
+
+  // Pick up the autosave the app writes on its interval
+  useEffect(() => {
+    if (lastAutosaveDay !== null) refresh();
+  }, [lastAutosaveDay]);
+
+  const run = (action: () => void) => {
+    try {
+      action();
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    refresh();
+  };
+
+  const handleSave = () => {
+    const name = slotName.trim() || `Day ${gameState.day}`;
+    run(() => writeSave(`slot-${Date.now()}`, name, gameState));
+    setSlotName('');
+  };
+
+  const handleOverwrite = (slot: SaveSlotSummary) => run(() => writeSave(slot.slotId, slot.name, gameState));
+
+  const handleLoad = (slotId: string) => run(() => {
+    const save = readSave(slotId);
+    if (save) onLoad(save.state);
+  });
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const save = await readSaveFromFile(file);
+      onLoad(save.state);
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-t-4 border-t-emerald-500">
+      <h2 className="text-lg font-bold mb-5 text-emerald-400 uppercase italic flex items-center gap-2">
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4"></path></svg>
+        Save Vault
+      </h2>
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={slotName}
+            onChange={(e) => setSlotName(e.target.value)}
+            placeholder={`Day ${gameState.day}`}
+            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-lg px-3 py-2 text-xs font-mono text-white placeholder:text-slate-600"
+          />
+          <button onClick={handleSave} className="text-[10px] bg-emerald-600 hover:bg-emerald-500 px-3 py-2 rounded-lg font-black uppercase transition-all active:scale-95">
+            Save
+          </button>
+        </div>
+
+        <div className="space-y-2 max-h-48 overflow-y-auto no-scrollbar">
+          {slots.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">No saves yet</p>}
+          {slots.map(slot => (
+            <div key={slot.slotId} className="bg-slate-900/50 p-2.5 rounded-lg border border-slate-700 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-xs font-bold truncate">
+                  {slot.slotId === AUTOSAVE_SLOT_ID && <span className="text-emerald-400 mr-1">⟳</span>}
+                  {slot.name}
+                </p>
+                <p className="text-[9px] text-slate-500 font-mono">DAY {slot.day} · ${slot.netEquity.toLocaleString(undefined, { maximumFractionDigits: 0 })}</p>
+              </div>
+              <div className="flex gap-1 flex-shrink-0">
+                <button onClick={() => handleLoad(slot.slotId)} className="text-[9px] bg-slate-700 hover:bg-blue-600 px-2 py-1 rounded font-bold uppercase transition-all">Load</button>
+                {slot.slotId !== AUTOSAVE_SLOT_ID && (
+                  <button onClick={() => handleOverwrite(slot)} className="text-[9px] bg-slate-700 hover:bg-emerald-600 px-2 py-1 rounded font-bold uppercase transition-all">Save</button>
+                )}
+                <button onClick={() => run(() => deleteSave(slot.slotId))} className="text-[9px] bg-slate-700 hover:bg-rose-600/40 text-rose-400 px-2 py-1 rounded font-bold uppercase transition-all">Del</button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button onClick={() => downloadSave(slotName.trim() || 'global-trader', gameState)} className="text-[10px] py-2.5 rounded-lg font-black transition-all border bg-slate-700 hover:bg-slate-600 border-slate-600 uppercase">
+            Export JSON
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="text-[10px] py-2.5 rounded-lg font-black transition-all border bg-slate-700 hover:bg-slate-600 border-slate-600 uppercase">
+            Import JSON
+          </button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+        </div>
+
+        {error && <p className="text-[10px] text-rose-400 font-bold">{error}</p>}
+        {autosaveError && <p className="text-[10px] text-rose-400 font-bold">{autosaveError}</p>}
+        <p className="text-[9px] text-slate-600 font-bold uppercase tracking-widest text-center">Autosave every {AUTOSAVE_INTERVAL} days{lastAutosaveDay !== null && ` · last day ${lastAutosaveDay}`}</p>
+      </div>
+    </section>
+  );
+};
+
+export default SavePanel;
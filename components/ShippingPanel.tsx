@@ -0,0 +1,90 @@
+
+import React, { useState } from 'react';
+import { GameState, RegionId } from '../types';
+import { COMMODITIES, REGIONS } from '../constants';
+import { getCommodity, getPrice, getRegion } from '../engine/economy';
+import { getFreightPerUnit, getShippingDays } from '../engine/shipping';
+import { getFreeCapacity } from '../engine/storage';
+import { getOwned } from '../engine/trading';
+
+interface Props {
+  gameState: GameState;
+  onShip: (commodityId: string, from: RegionId, to: RegionId, quantity: number) => void;
+  isPaused: boolean;
+}
+
+const ShippingPanel: React.FC<Props> = ({ gameState, onShip, isPaused }) => {
+  const [commodityId, setCommodityId] = useState(COMMODITIES[0].id);
+  const [from, setFrom] = useState<RegionId>('AMERICAS');
+  const [to, setTo] = useState<RegionId>('EUROPE');
+  const [quantity, setQuantity] = useState('');
+
+  const commodity = getCommodity(commodityId);
+  const available = getOwned(gameState, from, commodityId);
+  const room = getFreeCapacity(gameState, to, commodity.category);
+  const parsedQuantity = parseInt(quantity) || 0;
+  const isRoute = from !== to;
+  const freightPerUnit = isRoute ? getFreightPerUnit(commodity, from, to) : 0;
+  const freight = parsedQuantity * freightPerUnit;
+  // What a unit fetches at the destination today, net of freight, against selling it where it is
+  const arbitrage = isRoute ? getPrice(gameState, to, commodityId) - freightPerUnit - getPrice(gameState, from, commodityId) : 0;
+  const canShip = isRoute && parsedQuantity > 0 && parsedQuantity <= available && parsedQuantity <= room && freight <= gameState.cash;
+
+  const handleShip = () => {
+    if (!canShip) return;
+    onShip(commodityId, from, to, parsedQuantity);
+    setQuantity('');
+  };
+
+  const selectClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-bold uppercase text-white';
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-t-4 border-t-cyan-500">
+      <h2 className="text-lg font-bold mb-5 text-cyan-400 uppercase italic">Logistics</h2>
+      <div className="space-y-3">
+        <div className="grid grid-cols-3 gap-2">
+          <select value={commodityId} onChange={(e) => setCommodityId(e.target.value)} className={selectClass}>
+            {COMMODITIES.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+          </select>
+          <select value={from} onChange={(e) => setFrom(e.target.value as RegionId)} className={selectClass}>
+            {REGIONS.map(r => <option key={r.id} value={r.id}>From {r.icon} {r.name}</option>)}
+          </select>
+          <select value={to} onChange={(e) => setTo(e.target.value as RegionId)} className={selectClass}>
+            {REGIONS.map(r => <option key={r.id} value={r.id}>To {r.icon} {r.name}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <input type="number" min="1" value={quantity} onChange={(e) => setQuantity(e.target.value)} placeholder={`Units (max ${Math.min(available, room).toLocaleString()})`}
+            className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-xs font-mono text-white placeholder:text-slate-600" />
+          <button
+            onClick={handleShip}
+            disabled={!canShip || isPaused}
+            className="bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-4 py-1.5 rounded-lg font-black text-[10px] uppercase transition-all active:scale-95"
+          >
+            Ship
+          </button>
+        </div>
+        {isRoute && (
+          <div className="space-y-1 text-[10px] font-bold uppercase text-slate-500">
+            <div className="flex justify-between"><span>Transit</span><span className="font-mono text-slate-300">{getShippingDays(from, to)} days</span></div>
+            <div className="flex justify-between"><span>Freight</span><span className="font-mono text-rose-400">-${freight.toLocaleString(undefined, { maximumFractionDigits: 2 })} (${freightPerUnit.toFixed(2)}/unit)</span></div>
+            <div className="flex justify-between"><span>Spread After Freight</span><span className={`font-mono ${arbitrage >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{arbitrage >= 0 ? '+' : '-'}${Math.abs(arbitrage).toFixed(2)}/unit</span></div>
+          </div>
+        )}
+
+        <div className="h-px bg-slate-700/50"></div>
+        <div className="space-y-2 max-h-48 overflow-y-auto no-scrollbar">
+          {gameState.shipments.length === 0 && <p className="text-[10px] text-slate-600 font-bold uppercase text-center py-2">Nothing at sea</p>}
+          {gameState.shipments.map(s => (
+            <div key={s.id} className="flex justify-between items-center text-[10px] font-mono font-bold text-slate-400 px-1">
+              <span>{getCommodity(s.commodityId).icon} {s.quantity.toLocaleString()} {getRegion(s.from).icon} → {getRegion(s.to).icon}</span>
+              <span className="text-cyan-400">{Math.max(0, s.arrivalDay - gameState.day)}D</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ShippingPanel;
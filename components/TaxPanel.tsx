@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { GameState, TaxFiling, TaxPaymentMode, TaxRegimeId } from '../types';
+import { TAX_CYCLE, TAX_REGIMES } from '../constants';
+import { assessTaxes, getTotalDeductions } from '../engine/tax';
+
+interface Props {
+  gameState: GameState;
+  // Smooths the audit window bar over one day at the current speed
+  tickMs: number;
+  onSetRegime: (regimeId: TaxRegimeId) => void;
+  onSetPayment: (mode: TaxPaymentMode) => void;
+  onPayDeferred: (amount: number) => void;
+  isPaused: boolean;
+}
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const signed = (value: number) => `${value >= 0 ? '+' : '-'}${money(Math.abs(value))}`;
+
+const TaxPanel: React.FC<Props> = ({ gameState, tickMs, onSetRegime, onSetPayment, onPayDeferred, isPaused }) => {
+  // Null follows the latest filing as new ones come in
+  const [openFilingDay, setOpenFilingDay] = useState<number | null>(null);
+
+  const account = gameState.taxAccount;
+  const estimate = assessTaxes(gameState);
+  const filings = [...gameState.taxFilings].reverse();
+  const openFiling = filings.find(f => f.day === openFilingDay) || filings[0];
+  const payable = Math.min(account.deferred, Math.max(0, gameState.cash));
+
+  const renderLine = (label: string, value: string, className = 'text-slate-300') => (
+    <div className="flex justify-between">
+      <span>{label}</span>
+      <span className={`font-mono ${className}`}>{value}</span>
+    </div>
+  );
+
+  const renderFiling = (filing: TaxFiling) => {
+    const d = filing.deductions;
+    return (
+      <div className="bg-slate-950/60 rounded-lg p-3 space-y-1 text-[10px] font-bold uppercase text-slate-500">
+        <p className="text-slate-400 font-black">
+          Days {filing.periodStartDay}–{filing.day} · {TAX_REGIMES[filing.regimeId].name}
+          {filing.rateMultiplier !== 1 && <span className="text-amber-400 ml-1">x{filing.rateMultiplier.toFixed(2)} event</span>}
+        </p>
+        {renderLine('Operating profit', signed(filing.operatingProfit))}
+        <div title={`Depreciation ${money(d.depreciation)} · Maintenance ${money(d.maintenance)} · Interest ${money(d.interest)} · Storage ${money(d.storageFees)} · Borrow fees ${money(d.borrowFees)} · Subscriptions ${money(d.subscriptions)}`}>
+          {renderLine('Deductions', `-${money(getTotalDeductions(d))}`, 'text-slate-400')}
+        </div>
+        {filing.operatingLossUsed > 0 && renderLine('Losses brought forward', `-${money(filing.operatingLossUsed)}`, 'text-slate-400')}
+        {renderLine('Taxable income', money(filing.taxableIncome))}
+        {renderLine('Income tax', money(filing.incomeTax), 'text-rose-400')}
+        <div className="border-t border-slate-800 my-1"></div>
+        {renderLine('Capital gains', signed(filing.capitalGains))}
+        {filing.capitalLossUsed > 0 && renderLine('Losses brought forward', `-${money(filing.capitalLossUsed)}`, 'text-slate-400')}
+        {renderLine('Capital gains tax', money(filing.capitalGainsTax), 'text-rose-400')}
+        <div className="border-t border-slate-800 my-1"></div>
+        {filing.penalty > 0 && renderLine('Deferral penalty', money(filing.penalty), 'text-rose-400')}
+        {renderLine('Paid', money(filing.paid), 'text-emerald-400')}
+        {renderLine('Deferred balance', money(filing.deferredBalance), filing.deferredBalance > 0 ? 'text-amber-400' : 'text-slate-300')}
+        {(filing.operatingLossCarried > 0 || filing.capitalLossCarried > 0) &&
+          renderLine('Losses carried', `${money(filing.operatingLossCarried)} op · ${money(filing.capitalLossCarried)} cap`, 'text-slate-400')}
+      </div>
+    );
+  };
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl border-t-4 border-t-amber-500">
+      <h2 className="text-lg font-bold mb-5 text-amber-400 uppercase italic flex items-center gap-2">
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
+        Revenue Dept
+      </h2>
+      <div className="space-y-4">
+        <div className="space-y-1">
+          <div className="flex gap-1">
+            {(Object.keys(TAX_REGIMES) as TaxRegimeId[]).map(id => (
+              <button
+                key={id}
+                onClick={() => onSetRegime(id)}
+                disabled={isPaused}
+                title={TAX_REGIMES[id].description}
+                className={`flex-1 text-[9px] py-1 rounded font-black uppercase transition-all ${gameState.taxRegime === id ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+              >
+                {TAX_REGIMES[id].name}
+              </button>
+            ))}
+          </div>
+          {gameState.taxRegime !== account.regimeId && (
+            <p className="text-[9px] text-amber-400/80 font-bold uppercase">This period is still assessed under {TAX_REGIMES[account.regimeId].name}</p>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center">
+          <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">At Filing</p>
+          <div className="flex gap-1">
+            {(['PAY', 'DEFER'] as TaxPaymentMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => onSetPayment(mode)}
+                disabled={isPaused}
+                className={`text-[9px] px-2 py-0.5 rounded font-black uppercase transition-all ${gameState.taxPayment === mode ? 'bg-amber-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+              >
+                {mode === 'PAY' ? 'Pay from cash' : 'Defer'}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-slate-900/50 p-3.5 rounded-xl border border-slate-700">
+          <p className="text-[10px] text-slate-500 uppercase font-black mb-1">Est. Liability</p>
+          <p className="text-rose-400 font-mono font-bold text-xl">-{money(estimate.due)}</p>
+          <p className="text-[9px] text-slate-500 font-bold uppercase mt-1">
+            Income {money(estimate.taxableIncome)} · Gains {money(estimate.taxableGains)} so far
+          </p>
+        </div>
+
+        {account.deferred > 0 && (
+          <div className="flex justify-between items-center gap-2">
+            <div>
+              <p className="text-[10px] text-slate-500 font-black uppercase">Deferred Tax</p>
+              <p className="text-amber-400 font-mono font-bold">{money(account.deferred)}</p>
+              <p className="text-[9px] text-slate-600 font-bold uppercase">+{(TAX_REGIMES[account.regimeId].deferralPenaltyRate * 100).toFixed(0)}% penalty each filing</p>
+            </div>
+            <button
+              onClick={() => onPayDeferred(payable)}
+              disabled={payable <= 0 || isPaused}
+              className="bg-emerald-600 hover:bg-emerald-500 disabled:bg-slate-700 disabled:text-slate-500 text-white px-3 py-2 rounded-lg font-black text-[10px] uppercase transition-all active:scale-95"
+            >
+              Pay {money(payable)}
+            </button>
+          </div>
+        )}
+
+        <div className="w-full bg-slate-950 h-3 rounded-full overflow-hidden border border-slate-700">
+          <div className="h-full bg-amber-500 transition-all ease-linear" style={{ width: `${((TAX_CYCLE - (gameState.nextTaxDay - gameState.day)) / TAX_CYCLE) * 100}%`, transitionDuration: `${Math.min(1000, tickMs)}ms` }}></div>
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-500 font-black">
+          <span>NEXT FILING</span>
+          <span>{gameState.nextTaxDay - gameState.day} DAYS</span>
+        </div>
+
+        {openFiling && (
+          <div className="space-y-2">
+            <div className="flex gap-1 overflow-x-auto no-scrollbar">
+              {filings.map(f => (
+                <button
+                  key={f.day}
+                  onClick={() => setOpenFilingDay(f.day)}
+                  className={`text-[9px] px-2 py-0.5 rounded font-black uppercase flex-shrink-0 transition-all ${f === openFiling ? 'bg-slate-600 text-white' : 'bg-slate-900 text-slate-500 hover:bg-slate-700'}`}
+                >
+                  D{f.day}
+                </button>
+              ))}
+            </div>
+            {renderFiling(openFiling)}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default TaxPanel;
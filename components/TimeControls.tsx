@@ -0,0 +1,168 @@
+
+import React, { useState } from 'react';
+import { COMMODITIES, GAME_SPEEDS, REGIONS } from '../constants';
+import { FastForwardTarget, GameState, RegionId } from '../types';
+import { getEventDefinition } from '../engine/events';
+import { getPrice } from '../engine/economy';
+import { describeTarget } from '../engine/fastForward';
+
+interface Props {
+  gameState: GameState;
+  isPaused: boolean;
+  speed: number;
+  fastForward: FastForwardTarget | null;
+  onTogglePause: () => void;
+  onStep: () => void;
+  onSetSpeed: (speed: number) => void;
+  // Null cancels a fast-forward in progress
+  onFastForward: (target: FastForwardTarget | null) => void;
+  // Price alerts start on the commodity and exchange on screen
+  defaultCommodityId: string;
+  defaultRegion: RegionId;
+}
+
+type TargetKind = FastForwardTarget['kind'];
+
+const TARGET_LABELS: Record<TargetKind, string> = {
+  DAY: 'Day',
+  TAX_AUDIT: 'Next Tax Audit',
+  EVENT_END: 'Event Ends',
+  PRICE_ALERT: 'Price Alert'
+};
+
+const fieldClass = 'bg-slate-900 border border-slate-700 rounded-lg px-2 py-1.5 text-[10px] font-bold uppercase text-white';
+
+const TimeControls: React.FC<Props> = ({ gameState, isPaused, speed, fastForward, onTogglePause, onStep, onSetSpeed, onFastForward, defaultCommodityId, defaultRegion }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [kind, setKind] = useState<TargetKind>('DAY');
+  const [day, setDay] = useState('');
+  const [eventId, setEventId] = useState('');
+  const [commodityId, setCommodityId] = useState(defaultCommodityId);
+  const [region, setRegion] = useState<RegionId>(defaultRegion);
+  const [direction, setDirection] = useState<'ABOVE' | 'BELOW'>('ABOVE');
+  const [price, setPrice] = useState('');
+
+  const activeEventId = gameState.activeEvents.some(e => e.eventId === eventId) ? eventId : gameState.activeEvents[0]?.eventId;
+
+  const buildTarget = (): FastForwardTarget | null => {
+    switch (kind) {
+      case 'DAY': {
+        const target = parseInt(day);
+        return target > gameState.day ? { kind, day: target } : null;
+      }
+      case 'TAX_AUDIT':
+        return { kind, day: gameState.nextTaxDay };
+      case 'EVENT_END':
+        return activeEventId ? { kind, eventId: activeEventId } : null;
+      case 'PRICE_ALERT': {
+        const level = parseFloat(price);
+        return level > 0 ? { kind, region, commodityId, direction, price: level } : null;
+      }
+    }
+  };
+  const target = buildTarget();
+
+  const openForm = () => {
+    // Seed the alert from what is on screen each time the form opens
+    setCommodityId(defaultCommodityId);
+    setRegion(defaultRegion);
+    setIsOpen(!isOpen);
+  };
+
+  const handleStart = () => {
+    if (!target) return;
+    onFastForward(target);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative flex items-center gap-2">
+      <button
+        onClick={onTogglePause}
+        className={`flex items-center gap-2 px-6 py-2 rounded-xl font-black text-xs uppercase tracking-widest transition-all ${isPaused ? 'bg-emerald-600 hover:bg-emerald-500 shadow-emerald-500/20' : 'bg-slate-700 hover:bg-slate-600 shadow-slate-900/50'} shadow-lg active:scale-95`}
+      >
+        {isPaused ? 'RESUME' : 'PAUSE'}
+      </button>
+      <button
+        onClick={onStep}
+        disabled={!isPaused || !!fastForward}
+        title="Advance one day"
+        className="px-3 py-2 rounded-xl font-black text-xs bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-700 transition-all"
+      >
+        +1D
+      </button>
+      <div className="flex bg-slate-800 rounded-xl p-0.5">
+        {GAME_SPEEDS.map(s => (
+          <button
+            key={s}
+            onClick={() => onSetSpeed(s)}
+            className={`px-2 py-1.5 rounded-lg text-[10px] font-black transition-all ${speed === s ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+          >
+            {s}x
+          </button>
+        ))}
+      </div>
+      {fastForward ? (
+        <button
+          onClick={() => onFastForward(null)}
+          title="Cancel fast-forward"
+          className="px-3 py-2 rounded-xl font-black text-[10px] uppercase bg-cyan-600 hover:bg-rose-600 text-white transition-all animate-pulse"
+        >
+          ⏩ {describeTarget(fastForward)} ✕
+        </button>
+      ) : (
+        <button onClick={openForm} className="px-3 py-2 rounded-xl font-black text-[10px] uppercase bg-slate-700 hover:bg-slate-600 transition-all">
+          ⏩ Until…
+        </button>
+      )}
+
+      {isOpen && !fastForward && (
+        <div className="absolute top-full right-0 mt-2 w-72 bg-slate-900 border border-slate-700 rounded-xl p-3 shadow-2xl space-y-2 z-50">
+          <select value={kind} onChange={(e) => setKind(e.target.value as TargetKind)} className={`${fieldClass} w-full`}>
+            {(Object.keys(TARGET_LABELS) as TargetKind[]).map(k => <option key={k} value={k}>{TARGET_LABELS[k]}</option>)}
+          </select>
+
+          {kind === 'DAY' && (
+            <input type="number" min={gameState.day + 1} value={day} onChange={(e) => setDay(e.target.value)} placeholder={`After day ${gameState.day}`} className={`${fieldClass} w-full`} />
+          )}
+          {kind === 'TAX_AUDIT' && (
+            <p className="text-[10px] text-slate-400 font-bold uppercase">Day {gameState.nextTaxDay} · {gameState.nextTaxDay - gameState.day} days away</p>
+          )}
+          {kind === 'EVENT_END' && (gameState.activeEvents.length === 0
+            ? <p className="text-[10px] text-slate-600 font-bold uppercase">No events running</p>
+            : (
+              <select value={activeEventId} onChange={(e) => setEventId(e.target.value)} className={`${fieldClass} w-full`}>
+                {gameState.activeEvents.map(e => <option key={e.eventId} value={e.eventId}>{getEventDefinition(e.eventId).name} ({e.remainingDays}d)</option>)}
+              </select>
+            ))}
+          {kind === 'PRICE_ALERT' && (
+            <div className="grid grid-cols-2 gap-1.5">
+              <select value={commodityId} onChange={(e) => setCommodityId(e.target.value)} className={fieldClass}>
+                {COMMODITIES.map(c => <option key={c.id} value={c.id}>{c.icon} {c.name}</option>)}
+              </select>
+              <select value={region} onChange={(e) => setRegion(e.target.value as RegionId)} className={fieldClass}>
+                {REGIONS.map(r => <option key={r.id} value={r.id}>{r.icon} {r.name}</option>)}
+              </select>
+              <select value={direction} onChange={(e) => setDirection(e.target.value as 'ABOVE' | 'BELOW')} className={fieldClass}>
+                <option value="ABOVE">At or above</option>
+                <option value="BELOW">At or below</option>
+              </select>
+              <input type="number" min="0" step="any" value={price} onChange={(e) => setPrice(e.target.value)} placeholder={`Now $${getPrice(gameState, region, commodityId).toFixed(2)}`} className={fieldClass} />
+            </div>
+          )}
+
+          <p className="text-[9px] text-slate-500 font-bold uppercase">Stops early on new events, margin calls, missed installments, breakdowns and missed contracts</p>
+          <button
+            onClick={handleStart}
+            disabled={!target}
+            className="w-full bg-cyan-600 hover:bg-cyan-500 disabled:bg-slate-700 disabled:text-slate-500 text-white text-[10px] font-black uppercase py-2 rounded-lg transition-all"
+          >
+            Fast-Forward
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeControls;
@@ -0,0 +1,79 @@
+
+import React, { useState } from 'react';
+import { CommodityCategory, GameState, RegionId } from '../types';
+import { REGIONS, WAREHOUSE_SPECS } from '../constants';
+import { getWarehouseCost } from '../engine/economy';
+import { getCapacity, getInboundUnits, getStoredUnits, getWarehouseLevel } from '../engine/storage';
+
+interface Props {
+  gameState: GameState;
+  onBuild: (region: RegionId, category: CommodityCategory) => void;
+  onUpgrade: (region: RegionId, category: CommodityCategory) => void;
+  isPaused: boolean;
+}
+
+const WarehousePanel: React.FC<Props> = ({ gameState, onBuild, onUpgrade, isPaused }) => {
+  const [region, setRegion] = useState<RegionId>(REGIONS[0].id);
+
+  return (
+    <section className="bg-slate-800 rounded-2xl p-5 border border-slate-700 shadow-xl">
+      <h2 className="text-lg font-black text-blue-400 uppercase italic tracking-tighter mb-5 flex items-center gap-2">
+        <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4"></path></svg>
+        Warehouses
+      </h2>
+      <div className="flex gap-1 mb-3">
+        {REGIONS.map(r => (
+          <button
+            key={r.id}
+            onClick={() => setRegion(r.id)}
+            className={`flex-1 text-[9px] py-1 rounded font-black uppercase transition-all ${region === r.id ? 'bg-blue-600 text-white' : 'bg-slate-700 text-slate-400 hover:bg-slate-600'}`}
+          >
+            {r.icon} {r.name}
+          </button>
+        ))}
+      </div>
+      <div className="space-y-3">
+        {(Object.keys(WAREHOUSE_SPECS) as CommodityCategory[]).map(category => {
+          const spec = WAREHOUSE_SPECS[category];
+          const level = getWarehouseLevel(gameState, region, category);
+          const capacity = getCapacity(gameState, region, category);
+          const stored = getStoredUnits(gameState.inventory, region, category);
+          const inbound = getInboundUnits(gameState, region, category);
+          const cost = getWarehouseCost(category, level);
+          const fill = capacity > 0 ? Math.min(100, ((stored + inbound) / capacity) * 100) : 100;
+
+          return (
+            <div key={category} className="bg-slate-900/50 p-3 rounded-xl border border-slate-700 space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-[10px] font-black uppercase tracking-widest text-slate-300">{category}</span>
+                <span className="text-[9px] font-black uppercase text-slate-500">{level > 0 ? `LVL ${level}` : 'Rented'}</span>
+              </div>
+              <div className="w-full bg-slate-950 h-1.5 rounded-full overflow-hidden border border-slate-700">
+                <div className={`h-full transition-all ${fill >= 90 ? 'bg-rose-500' : fill >= 70 ? 'bg-amber-500' : 'bg-emerald-500'}`} style={{ width: `${fill}%` }}></div>
+              </div>
+              <div className="flex justify-between text-[9px] font-bold uppercase tracking-tighter text-slate-500">
+                <span className="font-mono">
+                  {stored.toLocaleString()} / {capacity.toLocaleString()}
+                  {inbound > 0 && <span className="text-blue-400 ml-1">+{inbound.toLocaleString()} inbound</span>}
+                </span>
+                <span>
+                  ${spec.storageFee}/unit/day
+                  {spec.spoilageRate > 0 && <span className="text-amber-500 ml-2">Spoils {(spec.spoilageRate * 100).toFixed(0)}%/day</span>}
+                </span>
+              </div>
+              <button
+                onClick={() => level > 0 ? onUpgrade(region, category) : onBuild(region, category)}
+                disabled={gameState.cash < cost || isPaused}
+                className="w-full text-[9px] bg-slate-700 hover:bg-blue-600 disabled:bg-slate-900 disabled:text-slate-600 text-white py-1.5 rounded font-bold uppercase transition-all"
+              >
+                {level > 0 ? 'Expand' : 'Build'} +{spec.capacityPerLevel.toLocaleString()} (${cost > 1000 ? (cost / 1000).toFixed(1) + 'k' : cost})
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+};
+
+export default WarehousePanel;
@@ -1,16 +1,257 @@
 
-import { Commodity, CommodityCategory } from './types';
+import { Commodity, CommodityCategory, ContractTier, CreditRating, EventDefinition, LoanProduct, Region, RegionId, TaxRegime, TaxRegimeId, WarehouseSpec } from './types';
 
 export const COMMODITIES: Commodity[] = [
-  { id: 'oil', name: 'Crude Oil', category: CommodityCategory.ENERGY, basePrice: 80, volatility: 0.15, icon: '🛢️', productionCost: 50, productionYield: 10 },
-  { id: 'gas', name: 'Natural Gas', category: CommodityCategory.ENERGY, basePrice: 4, volatility: 0.25, icon: '🔥', productionCost: 2, productionYield: 50 },
-  { id: 'gold', name: 'Gold', category: CommodityCategory.METAL, basePrice: 2000, volatility: 0.05, icon: '✨', productionCost: 1500, productionYield: 1 },
-  { id: 'steel', name: 'Steel', category: CommodityCategory.METAL, basePrice: 600, volatility: 0.10, icon: '🏗️', productionCost: 400, productionYield: 5 },
-  { id: 'wheat', name: 'Wheat', category: CommodityCategory.AGRICULTURE, basePrice: 250, volatility: 0.12, icon: '🌾', productionCost: 150, productionYield: 20 },
-  { id: 'corn', name: 'Corn', category: CommodityCategory.AGRICULTURE, basePrice: 180, volatility: 0.10, icon: '🌽', productionCost: 100, productionYield: 25 },
-  { id: 'beef', name: 'Beef', category: CommodityCategory.LIVESTOCK, basePrice: 450, volatility: 0.08, icon: '🥩', productionCost: 300, productionYield: 8 },
-  { id: 'pork', name: 'Pork', category: CommodityCategory.LIVESTOCK, basePrice: 320, volatility: 0.09, icon: '🥓', productionCost: 200, productionYield: 12 },
+  { id: 'oil', name: 'Crude Oil', category: CommodityCategory.ENERGY, basePrice: 80, volatility: 0.15, icon: '🛢️', productionCost: 50, productionYield: 10,
+    liquidity: { spread: 0.01, depth: 12000 }, priceModel: { kind: 'JUMP_DIFFUSION', reversion: 0.1, jumpChance: 0.03, jumpMean: 0, jumpVolatility: 0.2 } },
+  { id: 'gas', name: 'Natural Gas', category: CommodityCategory.ENERGY, basePrice: 4, volatility: 0.25, icon: '🔥', productionCost: 2, productionYield: 50,
+    liquidity: { spread: 0.02, depth: 250000 }, priceModel: { kind: 'MEAN_REVERTING', reversion: 0.15 }, seasonality: { amplitude: 0.2, peakDay: 0 } },
+  { id: 'gold', name: 'Gold', category: CommodityCategory.METAL, basePrice: 2000, volatility: 0.05, icon: '✨', productionCost: 1500, productionYield: 1,
+    liquidity: { spread: 0.002, depth: 500 }, priceModel: { kind: 'MEAN_REVERTING', reversion: 0.05 } },
+  { id: 'steel', name: 'Steel', category: CommodityCategory.METAL, basePrice: 600, volatility: 0.10, icon: '🏗️', productionCost: 400, productionYield: 5,
+    liquidity: { spread: 0.01, depth: 1500 }, priceModel: { kind: 'RANDOM_WALK', gravity: 0.1 },
+    recipe: [{ label: 'Energy', options: [{ commodityId: 'gas', quantity: 100 }, { commodityId: 'oil', quantity: 5 }] }] },
+  { id: 'wheat', name: 'Wheat', category: CommodityCategory.AGRICULTURE, basePrice: 250, volatility: 0.12, icon: '🌾', productionCost: 150, productionYield: 20,
+    liquidity: { spread: 0.015, depth: 4000 }, priceModel: { kind: 'MEAN_REVERTING', reversion: 0.1 }, seasonality: { amplitude: 0.15, peakDay: 75 } },
+  { id: 'corn', name: 'Corn', category: CommodityCategory.AGRICULTURE, basePrice: 180, volatility: 0.10, icon: '🌽', productionCost: 100, productionYield: 25,
+    liquidity: { spread: 0.015, depth: 5000 }, priceModel: { kind: 'RANDOM_WALK', gravity: 0.1 }, seasonality: { amplitude: 0.15, peakDay: 85 } },
+  { id: 'beef', name: 'Beef', category: CommodityCategory.LIVESTOCK, basePrice: 450, volatility: 0.08, icon: '🥩', productionCost: 300, productionYield: 8,
+    liquidity: { spread: 0.02, depth: 2000 }, priceModel: { kind: 'RANDOM_WALK', gravity: 0.1 },
+    recipe: [{ label: 'Feed', options: [{ commodityId: 'corn', quantity: 4 }, { commodityId: 'wheat', quantity: 3 }] }] },
+  { id: 'pork', name: 'Pork', category: CommodityCategory.LIVESTOCK, basePrice: 320, volatility: 0.09, icon: '🥓', productionCost: 200, productionYield: 12,
+    liquidity: { spread: 0.02, depth: 3000 }, priceModel: { kind: 'RANDOM_WALK', gravity: 0.1 },
+    recipe: [{ label: 'Feed', options: [{ commodityId: 'corn', quantity: 3 }, { commodityId: 'wheat', quantity: 3 }] }] },
+];
+
+// Pairwise correlation of daily price shocks; unlisted pairs move independently
+export const PRICE_CORRELATIONS: { a: string; b: string; rho: number }[] = [
+  { a: 'oil', b: 'gas', rho: 0.7 },
+  { a: 'gold', b: 'steel', rho: 0.2 },
+  { a: 'wheat', b: 'corn', rho: 0.6 },
+  { a: 'beef', b: 'pork', rho: 0.5 },
+  { a: 'corn', b: 'beef', rho: 0.3 },
+  { a: 'corn', b: 'pork', rho: 0.3 },
+];
+
+export const SEASON_LENGTH = 120; // Days in a seasonal year
+
+// Random events roll at each ledger close; weight 0 marks an event that only arrives through a chain
+export const EVENTS_POOL: EventDefinition[] = [
+  { id: 'opec_cut', name: "OPEC Production Cut", description: "Energy prices surge as oil supply is restricted.",
+    target: { category: CommodityCategory.ENERGY }, effects: { price: 2.1 }, weight: 3, minDuration: 3, maxDuration: 7, cooldown: 30,
+    followUps: [{ eventId: 'rate_hike', chance: 0.4, delay: 2 }] },
+  { id: 'global_drought', name: "Global Drought", description: "Crop failures leading to massive grain shortages.",
+    target: { category: CommodityCategory.AGRICULTURE }, effects: { price: 1.8, yield: 0.6 }, weight: 3, minDuration: 4, maxDuration: 8, cooldown: 30,
+    followUps: [{ eventId: 'feed_crisis', chance: 0.6, delay: 1 }] },
+  { id: 'feed_crisis', name: "Livestock Feed Crisis", description: "Grain shortages leave herds underfed; meat supply tightens.",
+    target: { category: CommodityCategory.LIVESTOCK }, effects: { price: 1.6, yield: 0.7 }, weight: 0, minDuration: 4, maxDuration: 6, cooldown: 20 },
+  { id: 'market_panic', name: "Market Panic", description: "Sell-offs ripple through every exchange; prices swing wildly.",
+    target: {}, effects: { volatility: 2 }, weight: 2, minDuration: 8, maxDuration: 14, cooldown: 25 },
+  { id: 'safe_haven', name: "Financial Safe Haven", description: "Investors rush to precious metals amid uncertainty.",
+    target: { category: CommodityCategory.METAL }, effects: { price: 1.6 }, weight: 4, minDuration: 3, maxDuration: 7, cooldown: 20,
+    requires: ['market_panic'] },
+  { id: 'livestock_epidemic', name: "Livestock Epidemic", description: "Supply chain collapse in meat production.",
+    target: { category: CommodityCategory.LIVESTOCK }, effects: { price: 2.3, yield: 0.5 }, weight: 2, minDuration: 3, maxDuration: 7, cooldown: 30 },
+  { id: 'tech_breakthrough', name: "Technological Breakthrough", description: "Efficiency gains lead to market surplus and price drops.",
+    target: {}, effects: { price: 0.5, yield: 1.3 }, weight: 1, minDuration: 3, maxDuration: 7, cooldown: 40 },
+  { id: 'trade_war', name: "Trade War Escalation", description: "Global tariffs crush industrial demand.",
+    target: { category: CommodityCategory.METAL }, effects: { price: 0.6 }, weight: 2, minDuration: 3, maxDuration: 7, cooldown: 25 },
+  { id: 'energy_discovery', name: "Energy Discovery", description: "New shale reserves discovered, energy prices tank.",
+    target: { category: CommodityCategory.ENERGY }, effects: { price: 0.4 }, weight: 2, minDuration: 3, maxDuration: 7, cooldown: 30 },
+  { id: 'mine_collapse', name: "Gold Mine Collapse", description: "A major mine floods; gold output stalls worldwide.",
+    target: { commodityId: 'gold' }, effects: { price: 1.4, yield: 0.5 }, weight: 2, minDuration: 3, maxDuration: 6, cooldown: 30 },
+  { id: 'rate_hike', name: "Central Bank Rate Hike", description: "Inflation fears push lenders to reprice every loan.",
+    target: {}, effects: { interestRate: 1.8 }, weight: 1, minDuration: 5, maxDuration: 10, cooldown: 30 },
+  { id: 'austerity', name: "Austerity Budget", description: "The treasury raises every tax rate to close its deficit.",
+    target: {}, effects: { taxRate: 1.5 }, weight: 1, minDuration: 10, maxDuration: 20, cooldown: 60 },
+  { id: 'gulf_hurricane', name: "Gulf Coast Hurricane", description: "Offshore rigs and refineries in the Americas shut down.",
+    target: { category: CommodityCategory.ENERGY, region: 'AMERICAS' }, effects: { price: 1.4, yield: 0.3, volatility: 1.5 }, weight: 2, minDuration: 3, maxDuration: 7, cooldown: 25,
+    followUps: [{ eventId: 'refinery_backlog', chance: 0.5, delay: 0 }] },
+  { id: 'refinery_backlog', name: "Refinery Backlog", description: "Repairs drag on and crude piles up waiting for capacity.",
+    target: { commodityId: 'oil', region: 'AMERICAS' }, effects: { price: 0.8 }, weight: 0, minDuration: 3, maxDuration: 5, cooldown: 20 },
+  { id: 'european_heatwave', name: "European Heatwave", description: "Record temperatures scorch European harvests.",
+    target: { category: CommodityCategory.AGRICULTURE, region: 'EUROPE' }, effects: { price: 1.3, yield: 0.5 }, weight: 2, minDuration: 3, maxDuration: 7, cooldown: 25 },
+  { id: 'asian_swine_fever', name: "Asian Swine Fever", description: "Culling orders sweep Asian pig herds.",
+    target: { commodityId: 'pork', region: 'ASIA' }, effects: { price: 1.5, yield: 0.4 }, weight: 2, minDuration: 3, maxDuration: 7, cooldown: 25 },
+];
+
+// Europe builds dear but runs efficient plants; Asia is cheap with thinner yields.
+// Spreads make the Americas a cheap source of energy and food, Europe and Asia the buyers.
+export const REGIONS: Region[] = [
+  { id: 'AMERICAS', name: 'Americas', icon: '🌎', costMultiplier: 1, yieldMultiplier: 1,
+    priceSpread: { [CommodityCategory.ENERGY]: -0.06, [CommodityCategory.AGRICULTURE]: -0.08, [CommodityCategory.LIVESTOCK]: -0.05 } },
+  { id: 'EUROPE', name: 'Europe', icon: '🌍', costMultiplier: 1.3, yieldMultiplier: 1.2,
+    priceSpread: { [CommodityCategory.ENERGY]: 0.08, [CommodityCategory.METAL]: 0.03, [CommodityCategory.AGRICULTURE]: 0.05 } },
+  { id: 'ASIA', name: 'Asia', icon: '🌏', costMultiplier: 0.75, yieldMultiplier: 0.85,
+    priceSpread: { [CommodityCategory.ENERGY]: 0.04, [CommodityCategory.METAL]: -0.04, [CommodityCategory.LIVESTOCK]: 0.1 } },
+];
+
+// Sea freight transit times in days; routes are symmetric
+export const SHIPPING_DAYS: Record<RegionId, Record<RegionId, number>> = {
+  AMERICAS: { AMERICAS: 0, EUROPE: 4, ASIA: 6 },
+  EUROPE: { AMERICAS: 4, EUROPE: 0, ASIA: 5 },
+  ASIA: { AMERICAS: 6, EUROPE: 5, ASIA: 0 },
+};
+
+// Energy and metals keep indefinitely; crops and meat spoil
+export const WAREHOUSE_SPECS: Record<CommodityCategory, WarehouseSpec> = {
+  [CommodityCategory.ENERGY]: { baseCapacity: 500, capacityPerLevel: 2000, buildCost: 4000, storageFee: 0.02, spoilageRate: 0 },
+  [CommodityCategory.METAL]: { baseCapacity: 20, capacityPerLevel: 100, buildCost: 6000, storageFee: 1, spoilageRate: 0 },
+  [CommodityCategory.AGRICULTURE]: { baseCapacity: 100, capacityPerLevel: 500, buildCost: 5000, storageFee: 0.5, spoilageRate: 0.01 },
+  [CommodityCategory.LIVESTOCK]: { baseCapacity: 50, capacityPerLevel: 200, buildCost: 5000, storageFee: 1, spoilageRate: 0.03 },
+};
+
+// Best grade first; a score lands in the first grade whose minimum it meets
+export const CREDIT_RATINGS: CreditRating[] = [
+  { grade: 'AAA', minScore: 90, rateMultiplier: 0.5, limitFactor: 3 },
+  { grade: 'AA', minScore: 80, rateMultiplier: 0.7, limitFactor: 2.5 },
+  { grade: 'A', minScore: 65, rateMultiplier: 0.85, limitFactor: 2 },
+  { grade: 'BBB', minScore: 50, rateMultiplier: 1, limitFactor: 1.5 },
+  { grade: 'BB', minScore: 40, rateMultiplier: 1.3, limitFactor: 1 },
+  { grade: 'B', minScore: 30, rateMultiplier: 1.7, limitFactor: 0.5 },
+  { grade: 'CCC', minScore: 0, rateMultiplier: 2.5, limitFactor: 0 },
+];
+
+// Daily base rates before the rating multiplier
+export const LOAN_PRODUCTS: Record<LoanProduct, { label: string; baseRate: number }> = {
+  REVOLVER: { label: 'Credit Line', baseRate: 0.015 },
+  TERM: { label: 'Term Loan', baseRate: 0.01 },
+  SECURED: { label: 'Facility-Backed', baseRate: 0.006 },
+};
+
+// Brackets are per filing period; gains, capex write-offs and deferral penalties too
+export const TAX_REGIMES: Record<TaxRegimeId, TaxRegime> = {
+  PROGRESSIVE: {
+    id: 'PROGRESSIVE', name: 'Progressive', description: 'Graduated income brackets, moderate capital gains, steady write-offs',
+    brackets: [{ upTo: 2000, rate: 0 }, { upTo: 10000, rate: 0.15 }, { upTo: 40000, rate: 0.25 }, { upTo: null, rate: 0.35 }],
+    capitalGainsRate: 0.2, depreciationRate: 0.1, deferralPenaltyRate: 0.05
+  },
+  FLAT: {
+    id: 'FLAT', name: 'Flat Tax', description: 'One rate on income and gains alike, slow write-offs',
+    brackets: [{ upTo: null, rate: 0.2 }],
+    capitalGainsRate: 0.2, depreciationRate: 0.05, deferralPenaltyRate: 0.05
+  },
+  ENTERPRISE: {
+    id: 'ENTERPRISE', name: 'Enterprise Zone', description: 'Generous allowance and fast capex write-offs; trading gains pay for it',
+    brackets: [{ upTo: 5000, rate: 0 }, { upTo: null, rate: 0.3 }],
+    capitalGainsRate: 0.35, depreciationRate: 0.25, deferralPenaltyRate: 0.08
+  }
+};
+
+// Offers come from every tier up to one above the player's reputation, so the next unlock is always in view
+export const CONTRACT_TIERS: ContractTier[] = [
+  { name: 'Local', minReputation: 0, minValue: 1500, maxValue: 5000, minPremium: -0.08, maxPremium: 0.12, penaltyRate: 0.2, reputationGain: 5, reputationLoss: 10 },
+  { name: 'Regional', minReputation: 20, minValue: 5000, maxValue: 15000, minPremium: -0.05, maxPremium: 0.15, penaltyRate: 0.25, reputationGain: 7, reputationLoss: 14 },
+  { name: 'National', minReputation: 45, minValue: 15000, maxValue: 40000, minPremium: -0.02, maxPremium: 0.18, penaltyRate: 0.3, reputationGain: 9, reputationLoss: 18 },
+  { name: 'Global', minReputation: 70, minValue: 40000, maxValue: 100000, minPremium: 0, maxPremium: 0.22, penaltyRate: 0.35, reputationGain: 12, reputationLoss: 25 }
+];
+
+export const CONTRACT_CLIENTS = [
+  'Harbor Mills', 'Northwind Foods', 'Apex Refining', 'Crescent Metals', 'Solace Energy', 'Ironvale Works',
+  'Bluewater Bakers', 'Meridian Utilities', 'Summit Alloys', 'Greenfield Co-op', 'Orbit Electronics', 'Tidewater Shipping'
 ];
 
 export const INITIAL_CASH = 5000;
 export const TICK_RATE = 3000; // ms per day
+export const GAME_SPEEDS = [0.5, 1, 2, 5, 10]; // Multiples of TICK_RATE on offer
+export const FAST_FORWARD_TICK = 60; // ms per day while fast-forwarding; every day still renders
+export const DEFAULT_TAX_REGIME: TaxRegimeId = 'PROGRESSIVE';
+export const TAX_CYCLE = 30; // Every 30 days
+export const TAX_FILING_HISTORY = 12; // Filings kept for the report view
+export const LEDGER_CYCLE = 10; // Ledger closes every 10 days
+export const MAX_ACTIVE_EVENTS = 3; // Random rolls stop while this many events run; chains may exceed it
+export const RUMOR_LEAD = 3; // Rumors surface this many days before the event roll they point at
+export const RUMOR_CHANCE = 0.6; // Odds a rumor surfaces ahead of each roll
+export const RUMOR_ACCURACY = 0.55; // Share of rumors that come true without a subscription
+export const INTEL_ACCURACY = 0.85; // Share that come true with market intelligence
+export const INTEL_DAILY_FEE = 200; // Market intelligence subscription, per day
+export const NEWS_HISTORY = 100; // Headlines kept in the feed
+export const BANKRUPTCY_THRESHOLD = -1000; // Net equity below this ends the run
+export const AUTOSAVE_INTERVAL = 5; // Autosave every 5 days
+export const AUTOSAVE_SLOT_ID = 'autosave';
+export const ORDER_FILL_HISTORY = 50; // Fills kept for the history view
+export const INITIAL_REPUTATION = 10; // Out of 100
+export const CONTRACT_BOARD_SIZE = 6; // Open offers on the board at most
+export const CONTRACT_OFFER_CHANCE = 0.5; // Odds a new offer posts each day while the board has room
+export const CONTRACT_OFFER_DAYS = 7; // Days an offer stays open
+export const CONTRACT_MIN_LEAD = 15; // Days from offer to deadline, before the tier's extra time
+export const CONTRACT_MAX_LEAD = 40;
+export const CONTRACT_TIER_LEAD = 10; // Extra days per tier for the bigger orders
+export const CONTRACT_HISTORY = 20; // Settled contracts kept for the history view
+export const INITIAL_MARGIN = 0.5; // Equity must cover 50% of short exposure to open
+export const MAINTENANCE_MARGIN = 0.25; // Margin call below 25%
+export const MARGIN_CALL_GRACE = 3; // Days to cure a margin call before forced liquidation
+export const SHORT_BORROW_RATE = 0.002; // 0.2% of short exposure per day
+export const OVERFLOW_DISCOUNT = 0.5; // Production with nowhere to go is dumped at half of spot
+export const FACILITY_WEAR_RATE = 0.004; // Condition lost per day of production, so about 250 days from new to worn out
+export const WORN_YIELD_SHARE = 0.5; // Share of normal yield a worn-out facility still delivers
+export const MAX_BREAKDOWN_CHANCE = 0.08; // Daily breakdown odds at zero condition; scales with the square of wear
+export const SERVICE_COST_RATE = 0.2; // Restoring a worn-out facility costs this share of its build cost, pro rata to wear
+export const BREAKDOWN_REPAIR_RATE = 0.05; // On top of that, to restart after a breakdown
+export const BOOK_DEPRECIATION_RATE = 0.002; // Share of a facility's book value written off each day
+export const FREIGHT_RATE = 0.01; // Per unit per day at sea, as a share of the commodity's base price
+export const LOCAL_SHOCK_VOLATILITY = 0.03; // Daily noise on each regional premium
+export const LOCAL_SHOCK_REVERSION = 0.2; // Share of the gap to its target a regional premium closes each day
+export const MAX_PRICE_IMPACT = 0.5; // No single fill moves a quote by more than half
+export const PRODUCTION_IMPACT_SHARE = 0.5; // Facility output weighs on the local price at half the impact of a sale
+export const TERM_LENGTHS = [30, 60, 90]; // Term loan lengths on offer, in days
+export const SECURED_TERM = 90; // Facility-backed loans always run 90 days
+export const INSTALLMENT_INTERVAL = 10; // Days between amortizing installments
+export const SECURED_LTV = 0.6; // Borrow up to 60% of a facility's book value against it
+export const SECURED_DEFAULT_MISSES = 2; // Missed installments before the pledged facility is seized
+export const LATE_FEE_RATE = 0.1; // Added to the balance on a missed installment, as a share of it
+export const CREDIT_LIMIT_FLOOR = 10000; // Equity assumed for limits while the business is small
+export const STRATEGY_HISTORY_DAYS = 30; // Closes per market handed to a strategy each tick
+export const BOT_TIME_BUDGET_MS = 250; // A strategy that has not answered by then is cut off
+export const BOT_MAX_DECISIONS = 20; // Decisions acted on per bot per tick
+export const BOT_LOG_LIMIT = 100; // Log lines kept per bot
+
+// Starting points for the bot editor. A strategy defines onTick(view) and returns a list of decisions.
+export const STRATEGY_TEMPLATES: { name: string; source: string }[] = [
+  {
+    name: 'Buy the Dip',
+    source: `// Called once a day with a read-only view of the market; return a list of decisions.
+// log(...) writes to this bot's log. Top-level variables persist between days.
+const REGION = 'AMERICAS';
+const DIP = 0.05; // Buy when 5% under the 10-day average
+const TAKE_PROFIT = 0.08; // Sell once the bid is 8% over cost
+
+function onTick(view) {
+  const decisions = [];
+  for (const c of view.commodities) {
+    const quote = view.markets[REGION][c.id];
+    const recent = quote.history.slice(-10);
+    const average = recent.reduce((a, b) => a + b, 0) / recent.length;
+    const held = view.inventory.find(i => i.commodityId === c.id && i.region === REGION);
+    if (held && held.free > 0 && quote.bid > held.averageCost * (1 + TAKE_PROFIT)) {
+      // Only the free units; the rest is promised to contracts and selling it would open a short
+      decisions.push({ type: 'SELL', commodity: c.id, quantity: held.free, region: REGION });
+    } else if (!held && quote.price < average * (1 - DIP)) {
+      const quantity = Math.min(Math.floor(view.cash * 0.2 / quote.ask), view.freeCapacity[REGION][c.category]);
+      if (quantity > 0) {
+        log(c.name, 'dipped to', quote.price.toFixed(2), 'against', average.toFixed(2));
+        decisions.push({ type: 'BUY', commodity: c.id, quantity, region: REGION });
+      }
+    }
+  }
+  return decisions;
+}
+`
+  },
+  {
+    name: 'Sell Production',
+    source: `// Sells whatever a facility has stockpiled once its local bid clears a threshold.
+const THRESHOLD = 1.1; // Bid at least 10% over the commodity's base price
+
+function onTick(view) {
+  return view.inventory
+    .filter(item => item.free > 0 && view.facilities.some(f => f.commodityId === item.commodityId && f.region === item.region))
+    .filter(item => {
+      const base = view.commodities.find(c => c.id === item.commodityId).basePrice;
+      return view.markets[item.region][item.commodityId].bid >= base * THRESHOLD;
+    })
+    .map(item => ({ type: 'SELL', commodity: item.commodityId, quantity: item.free, region: item.region }));
+}
+`
+  }
+];
@@ -0,0 +1,130 @@
+import { COMMODITIES, SEASON_LENGTH } from '../constants';
+import { CommodityCategory, GameState, NetWorthSnapshot, ProductionFacility } from '../types';
+import {
+  getCommodity, getInfrastructureValue, getInventoryValue, getNetEquity, getPrice,
+  getReservedCash, getShortExposure, getTotalDebt, getTotalInvested
+} from './economy';
+import { getUnrealizedPnl } from './lots';
+
+// Cents are plenty for a chart, and keep a long history small in saves
+const toCents = (value: number) => Math.round(value * 100) / 100;
+
+export const takeSnapshot = (state: GameState): NetWorthSnapshot => ({
+  day: state.day,
+  cash: toCents(state.cash + getReservedCash(state)),
+  inventory: toCents(getInventoryValue(state)),
+  infrastructure: toCents(getInfrastructureValue(state)),
+  debt: toCents(getTotalDebt(state) + getShortExposure(state) + state.taxAccount.deferred),
+  equity: toCents(getNetEquity(state))
+});
+
+export const recordSnapshot = (state: GameState): GameState =>
+  ({ ...state, netWorthHistory: [...state.netWorthHistory, takeSnapshot(state)] });
+
+export interface DailyChange {
+  day: number;
+  change: number;
+  // Share of the previous day's equity; null when that equity was not positive
+  return: number | null;
+}
+
+export const getDailyChanges = (history: NetWorthSnapshot[]): DailyChange[] =>
+  history.slice(1).map((s, i) => {
+    const previous = history[i].equity;
+    return { day: s.day, change: s.equity - previous, return: previous > 0 ? s.equity / previous - 1 : null };
+  });
+
+// Largest fall in equity from a running peak
+export const getMaxDrawdown = (history: NetWorthSnapshot[]) => {
+  let peak = history[0];
+  let worst = { amount: 0, percent: 0, peakDay: 0, troughDay: 0 };
+  history.forEach(s => {
+    if (s.equity > peak.equity) peak = s;
+    const amount = peak.equity - s.equity;
+    if (amount > worst.amount) {
+      worst = { amount, percent: peak.equity > 0 ? amount / peak.equity : 1, peakDay: peak.day, troughDay: s.day };
+    }
+  });
+  return worst;
+};
+
+/**
+ * Mean daily return over its standard deviation, scaled to a game year. No
+ * risk-free rate is subtracted, so this is Sharpe in shape rather than in
+ * letter. Null until there are enough days to say anything.
+ */
+export const getReturnVolatilityRatio = (history: NetWorthSnapshot[]) => {
+  const returns = getDailyChanges(history).map(c => c.return).filter((r): r is number => r !== null);
+  if (returns.length < 5) return null;
+  const mean = returns.reduce((acc, r) => acc + r, 0) / returns.length;
+  const deviation = Math.sqrt(returns.reduce((acc, r) => acc + (r - mean) ** 2, 0) / returns.length);
+  return deviation > 0 ? (mean / deviation) * Math.sqrt(SEASON_LENGTH) : null;
+};
+
+export const getBestAndWorstDays = (history: NetWorthSnapshot[]) => {
+  const changes = getDailyChanges(history);
+  if (changes.length === 0) return null;
+  const sorted = [...changes].sort((a, b) => b.change - a.change);
+  return { best: sorted[0], worst: sorted[sorted.length - 1] };
+};
+
+// Holdings and plant by commodity category, with cash on its own; shorts and debt are left out
+export const getAllocation = (state: GameState) => {
+  const byCategory = new Map<CommodityCategory, number>();
+  const add = (commodityId: string, value: number) => {
+    const category = getCommodity(commodityId).category;
+    byCategory.set(category, (byCategory.get(category) || 0) + value);
+  };
+  state.inventory.forEach(item => add(item.commodityId, item.quantity * getPrice(state, item.region, item.commodityId)));
+  state.shipments.forEach(s => add(s.commodityId, s.quantity * getPrice(state, s.to, s.commodityId)));
+  state.facilities.forEach(f => add(f.commodityId, f.bookValue));
+  return [
+    { label: 'Cash', value: Math.max(0, state.cash + getReservedCash(state)) },
+    ...[...byCategory.entries()].map(([label, value]) => ({ label: label as string, value }))
+  ].filter(slice => slice.value > 0);
+};
+
+export interface CommodityPerformance {
+  commodityId: string;
+  realized: number;
+  unrealized: number;
+  // Storage fees and freight booked against the commodity
+  carryCosts: number;
+  net: number;
+}
+
+/**
+ * Profit by commodity across every exchange. Realized P&L already carries
+ * production and spoilage through cost basis, and short covers; unrealized
+ * marks what is still held, at sea or shorted.
+ */
+export const getCommodityPerformance = (state: GameState): CommodityPerformance[] =>
+  COMMODITIES.map(c => {
+    const items = state.inventory.filter(i => i.commodityId === c.id);
+    const realized = items.reduce((acc, i) => acc + i.realizedPnl, 0);
+    const unrealized =
+      items.reduce((acc, i) => acc + getUnrealizedPnl(i, getPrice(state, i.region, c.id)), 0) +
+      state.shipments.filter(s => s.commodityId === c.id).reduce((acc, s) => acc + (getPrice(state, s.to, c.id) - s.unitCost) * s.quantity, 0) +
+      state.shortPositions.filter(p => p.commodityId === c.id).reduce((acc, p) => acc + (p.entryPrice - getPrice(state, p.region, c.id)) * p.quantity, 0);
+    const carryCosts = state.journal
+      .filter(j => j.commodityId === c.id && (j.kind === 'STORAGE_FEE' || j.kind === 'SHIPPING'))
+      .reduce((acc, j) => acc - j.cashDelta, 0);
+    return { commodityId: c.id, realized, unrealized, carryCosts, net: realized + unrealized - carryCosts };
+  }).filter(p => p.realized !== 0 || p.unrealized !== 0 || p.carryCosts !== 0);
+
+export interface FacilityPerformance {
+  facility: ProductionFacility;
+  // Output value less running, input and maintenance costs
+  operatingProfit: number;
+  invested: number;
+  bookValue: number;
+  // Operating profit against what was put into the plant
+  returnOnInvestment: number;
+}
+
+export const getFacilityPerformance = (state: GameState): FacilityPerformance[] =>
+  state.facilities.map(f => {
+    const operatingProfit = f.stats.outputValue - f.stats.runningCosts - f.stats.inputCosts - f.stats.maintenanceCosts;
+    const invested = getTotalInvested(getCommodity(f.commodityId), f.region, f.level);
+    return { facility: f, operatingProfit, invested, bookValue: f.bookValue, returnOnInvestment: operatingProfit / invested };
+  });
@@ -0,0 +1,99 @@
+import { GameState } from '../types';
+import { applyAction, createInitialState } from './simulation';
+import { createStrategyView, StrategyView, toGameAction } from './strategy';
+import { validateAction } from './validation';
+import { getNetEquity, isBankrupt } from './economy';
+import { getMaxDrawdown, getReturnVolatilityRatio } from './analytics';
+import { BOT_MAX_DECISIONS } from '../constants';
+
+// One turn of a strategy; throwing counts as a turn with no decisions
+export type StrategyTurn = (view: StrategyView) => unknown[];
+
+export interface BacktestRun {
+  seed: number;
+  daysPlayed: number;
+  finalEquity: number;
+  // Largest fall from a running equity peak, as a share of that peak
+  maxDrawdown: number;
+  returnVolatilityRatio: number | null;
+  taxesPaid: number;
+  interestPaid: number;
+  isBankrupt: boolean;
+  actionsTaken: number;
+  actionsRejected: number;
+  strategyErrors: number;
+}
+
+export interface BacktestSummary {
+  runs: number;
+  meanEquity: number;
+  medianEquity: number;
+  minEquity: number;
+  maxEquity: number;
+  meanDrawdown: number;
+  meanTaxesPaid: number;
+  bankruptcyRate: number;
+}
+
+/**
+ * Plays one seed for up to the given number of days, giving the strategy a
+ * turn each day as the bots get in the app: decisions pass the same checks as
+ * the buttons, and the run ends early on bankruptcy.
+ */
+export const runBacktest = (seed: number, days: number, strategy: StrategyTurn | null): BacktestRun => {
+  let state: GameState = createInitialState(seed);
+  let actionsTaken = 0;
+  let actionsRejected = 0;
+  let strategyErrors = 0;
+
+  for (let played = 0; played < days && !isBankrupt(state); played++) {
+    if (strategy) {
+      let decisions: unknown[] = [];
+      try {
+        decisions = strategy(createStrategyView(state));
+      } catch {
+        strategyErrors++;
+      }
+      decisions.slice(0, BOT_MAX_DECISIONS).forEach(decision => {
+        const converted = toGameAction(decision, state);
+        if ('error' in converted || validateAction(state, converted.action)) {
+          actionsRejected++;
+          return;
+        }
+        state = applyAction(state, converted.action).state;
+        actionsTaken++;
+      });
+    }
+    state = applyAction(state, { type: 'ADVANCE_DAY' }).state;
+  }
+
+  return {
+    seed,
+    daysPlayed: state.day - 1,
+    finalEquity: getNetEquity(state),
+    maxDrawdown: getMaxDrawdown(state.netWorthHistory).percent,
+    returnVolatilityRatio: getReturnVolatilityRatio(state.netWorthHistory),
+    taxesPaid: state.lifetime.totalTaxesPaid,
+    interestPaid: state.lifetime.totalInterestPaid,
+    isBankrupt: isBankrupt(state),
+    actionsTaken,
+    actionsRejected,
+    strategyErrors
+  };
+};
+
+export const summarizeBacktest = (runs: BacktestRun[]): BacktestSummary => {
+  const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+  const equities = runs.map(r => r.finalEquity).sort((a, b) => a - b);
+  const middle = Math.floor(equities.length / 2);
+  return {
+    runs: runs.length,
+    meanEquity: mean(equities),
+    medianEquity: equities.length % 2 ? equities[middle] : (equities[middle - 1] + equities[middle]) / 2,
+    minEquity: equities[0],
+    maxEquity: equities[equities.length - 1],
+    meanDrawdown: mean(runs.map(r => r.maxDrawdown)),
+    meanTaxesPaid: mean(runs.map(r => r.taxesPaid)),
+    bankruptcyRate: runs.filter(r => r.isBankrupt).length / runs.length
+  };
+};
@@ -0,0 +1,211 @@
+import { COMMODITIES, REGIONS } from '../constants';
+import { Commodity, GameAction, GameState, RegionId } from '../types';
+import { getPrice, getRegion, getServiceCost } from './economy';
+import { getOwned } from './trading';
+import { coverShort, getShorted } from './margin';
+import { getMaxAffordable } from './liquidity';
+import { getFreeCapacity } from './storage';
+import { getAvailableCredit } from './credit';
+
+export type ParsedCommand =
+  | { kind: 'ACTIONS'; actions: GameAction[]; summary: string }
+  | { kind: 'PAUSE' }
+  | { kind: 'RESUME' }
+  | { kind: 'HELP' }
+  | { kind: 'CLEAR' }
+  | { kind: 'ERROR'; message: string };
+
+export const COMMAND_HELP = [
+  { usage: 'buy <commodity> <qty|max> [region]', description: 'Market buy; covers any short first' },
+  { usage: 'sell <commodity> <qty|all> [region]', description: 'Market sell; goes short past your holdings' },
+  { usage: 'build <commodity> [region]', description: 'Build a production facility' },
+  { usage: 'upgrade <commodity> [region]', description: 'Upgrade the lowest-level facility' },
+  { usage: 'service <commodity> [region]', description: 'Service the most worn facility, repairing a breakdown' },
+  { usage: 'loan <amount|max>', description: 'Draw on the revolving credit line' },
+  { usage: 'repay <amount|max>', description: 'Repay loans, highest rate first' },
+  { usage: 'pause | resume', description: 'Stop or restart the clock' },
+  { usage: 'clear | help', description: 'Clear the console or show this list' }
+];
+
+const COMMANDS = ['buy', 'sell', 'build', 'upgrade', 'service', 'loan', 'repay', 'pause', 'resume', 'help', 'clear'];
+
+const error = (message: string): ParsedCommand => ({ kind: 'ERROR', message });
+
+// Ids, or any unambiguous start of an id or name, e.g. "nat" for Natural Gas
+const findCommodity = (token: string): Commodity | string => {
+  const exact = COMMODITIES.find(c => c.id === token);
+  if (exact) return exact;
+  const matches = COMMODITIES.filter(c => c.id.startsWith(token) || c.name.toLowerCase().startsWith(token));
+  if (matches.length === 1) return matches[0];
+  return matches.length === 0 ? `Unknown commodity "${token}"` : `"${token}" could be ${matches.map(c => c.id).join(', ')}`;
+};
+
+// Defaults to the exchange on screen when no region is given
+const findRegion = (token: string | undefined, fallback: RegionId): RegionId | null => {
+  if (token === undefined) return fallback;
+  const matches = REGIONS.filter(r => r.id.toLowerCase().startsWith(token) || r.name.toLowerCase().startsWith(token));
+  return matches.length === 1 ? matches[0].id : null;
+};
+
+// Plain numbers with an optional k or m suffix, e.g. 2.5k
+const parseAmount = (token: string | undefined) => {
+  const match = token?.match(/^(\d+(?:\.\d+)?)([km]?)$/);
+  if (!match) return null;
+  return Number(match[1]) * (match[2] === 'k' ? 1000 : match[2] === 'm' ? 1000000 : 1);
+};
+
+const parseUnits = (token: string | undefined) => {
+  const amount = parseAmount(token);
+  return amount !== null && Number.isInteger(amount) && amount > 0 ? amount : null;
+};
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+// Covers any short, then as much as the remaining cash and local storage allow
+const getMaxBuy = (state: GameState, region: RegionId, commodity: Commodity) => {
+  const shorted = getShorted(state, region, commodity.id);
+  const covered = coverShort(state, region, commodity.id, shorted);
+  const affordable = getMaxAffordable(commodity, getPrice(covered, region, commodity.id), covered.cash);
+  return shorted + Math.min(affordable, getFreeCapacity(covered, region, commodity.category));
+};
+
+const parseTrade = (state: GameState, isBuy: boolean, args: string[], activeRegion: RegionId): ParsedCommand => {
+  if (args.length < 2) return error(`Usage: ${COMMAND_HELP[isBuy ? 0 : 1].usage}`);
+  const commodity = findCommodity(args[0]);
+  if (typeof commodity === 'string') return error(commodity);
+  const regionId = findRegion(args[2], activeRegion);
+  if (!regionId) return error(`Unknown region "${args[2]}"`);
+
+  let quantity: number | null;
+  if (isBuy && args[1] === 'max') {
+    // At least one unit, so a max that comes to nothing is explained by validation
+    quantity = Math.max(1, getMaxBuy(state, regionId, commodity));
+  } else if (!isBuy && args[1] === 'all') {
+    quantity = getOwned(state, regionId, commodity.id);
+    if (quantity === 0) return error(`No ${commodity.name} held in ${getRegion(regionId).name}`);
+  } else {
+    quantity = parseUnits(args[1]);
+    if (quantity === null) return error(`"${args[1]}" is not a whole number of units`);
+  }
+  return {
+    kind: 'ACTIONS',
+    actions: [{ type: 'TRADE', region: regionId, commodityId: commodity.id, quantity: isBuy ? quantity : -quantity }],
+    summary: `${isBuy ? 'Bought' : 'Sold'} ${quantity.toLocaleString()} ${commodity.name} in ${getRegion(regionId).name}`
+  };
+};
+
+const parseFacility = (state: GameState, command: 'build' | 'upgrade' | 'service', args: string[], activeRegion: RegionId): ParsedCommand => {
+  if (args.length < 1) return error(`Usage: ${COMMAND_HELP[{ build: 2, upgrade: 3, service: 4 }[command]].usage}`);
+  const commodity = findCommodity(args[0]);
+  if (typeof commodity === 'string') return error(commodity);
+  const regionId = findRegion(args[1], activeRegion);
+  if (!regionId) return error(`Unknown region "${args[1]}"`);
+
+  if (command === 'build') {
+    return {
+      kind: 'ACTIONS',
+      actions: [{ type: 'UNLOCK_FACILITY', commodityId: commodity.id, region: regionId }],
+      summary: `Built a ${commodity.name} facility in ${getRegion(regionId).name}`
+    };
+  }
+  const sites = state.facilities.filter(f => f.commodityId === commodity.id && f.region === regionId);
+  if (sites.length === 0) return error(`No ${commodity.name} facility in ${getRegion(regionId).name}`);
+  if (command === 'service') {
+    // Breakdowns first, then whichever site is most worn
+    const facility = [...sites].sort((a, b) => Number(b.isBrokenDown) - Number(a.isBrokenDown) || a.condition - b.condition)[0];
+    return {
+      kind: 'ACTIONS',
+      actions: [{ type: 'SERVICE_FACILITY', facilityId: facility.id }],
+      summary: `${facility.isBrokenDown ? 'Repaired' : 'Serviced'} ${facility.name} for ${money(getServiceCost(facility))}`
+    };
+  }
+  const facility = [...sites].sort((a, b) => a.level - b.level)[0];
+  return {
+    kind: 'ACTIONS',
+    actions: [{ type: 'UPGRADE_FACILITY', facilityId: facility.id }],
+    summary: `Upgraded ${facility.name} to level ${facility.level + 1}`
+  };
+};
+
+const parseLoan = (state: GameState, args: string[]): ParsedCommand => {
+  const amount = args[0] === 'max' ? Math.floor(getAvailableCredit(state)) : parseAmount(args[0]);
+  if (amount === null) return error(`Usage: ${COMMAND_HELP[5].usage}`);
+  return {
+    kind: 'ACTIONS',
+    actions: [{ type: 'TAKE_LOAN', product: 'REVOLVER', amount }],
+    summary: `Drew ${money(amount)} on the credit line`
+  };
+};
+
+// Splits the payment across loans, dearest first, until it or the cash runs out
+const parseRepay = (state: GameState, args: string[]): ParsedCommand => {
+  if (state.loans.length === 0) return error('No loans outstanding');
+  const requested = args[0] === 'max' ? Infinity : parseAmount(args[0]);
+  if (!requested) return error(`Usage: ${COMMAND_HELP[6].usage}`);
+  const budget = Math.min(requested, Math.max(0, state.cash));
+  if (budget <= 0) return error('No cash to repay with');
+  let remaining = budget;
+  const actions: GameAction[] = [];
+  [...state.loans].sort((a, b) => b.rate - a.rate).forEach(loan => {
+    const amount = Math.min(remaining, loan.balance);
+    if (amount <= 0) return;
+    actions.push({ type: 'REPAY', loanId: loan.id, amount });
+    remaining -= amount;
+  });
+  return { kind: 'ACTIONS', actions, summary: `Repaid ${money(budget - remaining)} across ${actions.length} loan${actions.length === 1 ? '' : 's'}` };
+};
+
+/**
+ * Turns a console line into engine actions. Sizes like "max" and "all" are
+ * resolved against the given state; whether the actions can actually go
+ * through is left to validateAction, same as for the buttons.
+ */
+export const parseCommand = (line: string, state: GameState, activeRegion: RegionId): ParsedCommand => {
+  const [command, ...args] = line.trim().toLowerCase().split(/\s+/);
+  switch (command) {
+    case 'buy':
+    case 'sell':
+      return parseTrade(state, command === 'buy', args, activeRegion);
+    case 'build':
+    case 'upgrade':
+    case 'service':
+      return parseFacility(state, command, args, activeRegion);
+    case 'loan':
+      return parseLoan(state, args);
+    case 'repay':
+      return parseRepay(state, args);
+    case 'pause':
+      return { kind: 'PAUSE' };
+    case 'resume':
+      return { kind: 'RESUME' };
+    case 'help':
+      return { kind: 'HELP' };
+    case 'clear':
+      return { kind: 'CLEAR' };
+    default:
+      return error(command ? `Unknown command "${command}"; type help for a list` : 'Type help for a list of commands');
+  }
+};
+
+// Values that can fill each argument slot, by command
+const getArgumentOptions = (command: string, position: number) => {
+  const commodities = COMMODITIES.map(c => c.id);
+  const regions = REGIONS.map(r => r.id.toLowerCase());
+  if (command === 'buy' || command === 'sell') {
+    return [commodities, [command === 'buy' ? 'max' : 'all'], regions][position] ?? [];
+  }
+  if (command === 'build' || command === 'upgrade' || command === 'service') return [commodities, regions][position] ?? [];
+  if (command === 'loan' || command === 'repay') return position === 0 ? ['max'] : [];
+  return [];
+};
+
+// Whole-line completions for the word being typed
+export const getCompletions = (input: string): string[] => {
+  const words = input.toLowerCase().trimStart().split(/\s+/);
+  const partial = words[words.length - 1];
+  const head = words.slice(0, -1);
+  const options = head.length === 0 ? COMMANDS : getArgumentOptions(head[0], head.length - 1);
+  return options
+    .filter(option => option.startsWith(partial) && option !== partial)
+    .map(option => [...head, option].join(' '));
+};
@@ -0,0 +1,143 @@
+import {
+  COMMODITIES, REGIONS, CONTRACT_TIERS, CONTRACT_CLIENTS, CONTRACT_BOARD_SIZE, CONTRACT_OFFER_CHANCE,
+  CONTRACT_OFFER_DAYS, CONTRACT_MIN_LEAD, CONTRACT_MAX_LEAD, CONTRACT_TIER_LEAD, CONTRACT_HISTORY
+} from '../constants';
+import { ContractOutcome, EngineEvent, GameState, SupplyContract } from '../types';
+import { Rng } from './rng';
+import { getItem, getPrice, isItemAt } from './economy';
+import { removeUnits } from './lots';
+import { recordEntry } from './journal';
+import { accrueGains } from './tax';
+
+const pick = <T>(items: T[], rng: Rng) => items[Math.floor(rng.next() * items.length)];
+
+const between = (min: number, max: number, rng: Rng) => min + rng.next() * (max - min);
+
+// Highest tier the reputation unlocks
+export const getUnlockedTier = (reputation: number) =>
+  CONTRACT_TIERS.reduce((best, tier, i) => reputation >= tier.minReputation ? i : best, 0);
+
+export const getContractValue = (contract: SupplyContract) => contract.quantity * contract.price;
+
+const createOffer = (state: GameState, rng: Rng): SupplyContract => {
+  const tierIndex = Math.floor(rng.next() * Math.min(CONTRACT_TIERS.length, getUnlockedTier(state.reputation) + 2));
+  const tier = CONTRACT_TIERS[tierIndex];
+  const commodity = pick(COMMODITIES, rng);
+  const region = pick(REGIONS, rng).id;
+  const spot = getPrice(state, region, commodity.id);
+  const quantity = Math.max(1, Math.round(between(tier.minValue, tier.maxValue, rng) / spot));
+  const premium = between(tier.minPremium, tier.maxPremium, rng);
+  const price = Math.round(spot * (1 + premium) * 100) / 100;
+  return {
+    id: `CTR-${state.nextContractId}`,
+    client: pick(CONTRACT_CLIENTS, rng),
+    tier: tierIndex,
+    commodityId: commodity.id,
+    region,
+    quantity,
+    price,
+    premium,
+    minReputation: tier.minReputation,
+    penalty: Math.round(quantity * price * tier.penaltyRate),
+    offeredDay: state.day,
+    offerExpiryDay: state.day + CONTRACT_OFFER_DAYS,
+    deadlineDay: state.day + Math.round(between(CONTRACT_MIN_LEAD, CONTRACT_MAX_LEAD, rng)) + tierIndex * CONTRACT_TIER_LEAD,
+    acceptedDay: null,
+    reserved: 0
+  };
+};
+
+/**
+ * Shares each region's stock out among accepted contracts in the order they
+ * were accepted. New output, purchases and arrivals top reservations up;
+ * spoilage and inputs drawn by facilities, which ignore reservations, trim them.
+ */
+const reserveStock = (state: GameState): SupplyContract[] => {
+  const claimed: Record<string, number> = {};
+  return state.contracts.map(contract => {
+    const key = `${contract.region}:${contract.commodityId}`;
+    const free = getItem(state.inventory, contract.region, contract.commodityId).quantity - (claimed[key] ?? 0);
+    const reserved = Math.max(0, Math.min(contract.quantity, free));
+    claimed[key] = (claimed[key] ?? 0) + reserved;
+    return { ...contract, reserved };
+  });
+};
+
+const settle = (prev: GameState, contract: SupplyContract, status: ContractOutcome['status'], cashDelta: number, reputationDelta: number, events: EngineEvent[]): GameState => {
+  const outcome: ContractOutcome = { contract, day: prev.day, status, cashDelta, reputationDelta };
+  events.push({ type: 'CONTRACT_SETTLED', day: prev.day, outcome });
+  return {
+    ...prev,
+    contracts: prev.contracts.filter(c => c.id !== contract.id),
+    reputation: Math.max(0, Math.min(100, prev.reputation + reputationDelta)),
+    contractHistory: [...prev.contractHistory, outcome].slice(-CONTRACT_HISTORY)
+  };
+};
+
+// Hands the reserved units over at the contract price; the gain splits for tax like a sale does
+const deliverContract = (prev: GameState, contract: SupplyContract, events: EngineEvent[]): GameState => {
+  const payment = getContractValue(contract);
+  const { item: remaining, costBasis, produced } = removeUnits(getItem(prev.inventory, contract.region, contract.commodityId), contract.quantity, prev.costMethod);
+  const realized = payment - costBasis;
+  const operating = produced.quantity * contract.price - produced.costBasis;
+  const delivered: GameState = {
+    ...prev,
+    cash: prev.cash + payment,
+    inventory: prev.inventory.map(i => isItemAt(i, contract.region, contract.commodityId) ? { ...remaining, realizedPnl: remaining.realizedPnl + realized } : i),
+    taxAccount: accrueGains(prev.taxAccount, operating, realized - operating),
+    cycleLedger: { ...prev.cycleLedger, sales: prev.cycleLedger.sales + payment },
+    lifetime: { ...prev.lifetime, totalSales: prev.lifetime.totalSales + payment }
+  };
+  return recordEntry(settle(delivered, contract, 'DELIVERED', payment, CONTRACT_TIERS[contract.tier].reputationGain, events), {
+    kind: 'CONTRACT_DELIVERY', commodityId: contract.commodityId, region: contract.region, quantity: contract.quantity, price: contract.price,
+    cashDelta: payment, memo: `${contract.id} for ${contract.client}`
+  });
+};
+
+// Charges the penalty and frees the reservation; cash may go negative like any other charge
+const defaultContract = (prev: GameState, contract: SupplyContract, status: 'DEFAULTED' | 'WALKED_AWAY', events: EngineEvent[]): GameState => {
+  const charged: GameState = {
+    ...prev,
+    cash: prev.cash - contract.penalty,
+    lifetime: { ...prev.lifetime, totalContractPenalties: prev.lifetime.totalContractPenalties + contract.penalty }
+  };
+  return recordEntry(settle(charged, contract, status, -contract.penalty, -CONTRACT_TIERS[contract.tier].reputationLoss, events), {
+    kind: 'CONTRACT_PENALTY', commodityId: contract.commodityId, region: contract.region, quantity: contract.quantity,
+    cashDelta: -contract.penalty, memo: `${contract.id} for ${contract.client}: ${status === 'DEFAULTED' ? 'missed deadline' : 'walked away'}`
+  });
+};
+
+export const acceptContract = (prev: GameState, contractId: string): GameState => {
+  const offer = prev.contractOffers.find(c => c.id === contractId);
+  if (!offer || prev.reputation < offer.minReputation || prev.day > offer.offerExpiryDay) return prev;
+  const accepted = {
+    ...prev,
+    contractOffers: prev.contractOffers.filter(c => c.id !== contractId),
+    contracts: [...prev.contracts, { ...offer, acceptedDay: prev.day }]
+  };
+  return { ...accepted, contracts: reserveStock(accepted) };
+};
+
+export const walkAwayFromContract = (prev: GameState, contractId: string, events: EngineEvent[]): GameState => {
+  const contract = prev.contracts.find(c => c.id === contractId);
+  return contract ? defaultContract(prev, contract, 'WALKED_AWAY', events) : prev;
+};
+
+/**
+ * Runs the contracts board for the day: lapsed offers come down, stock is
+ * re-reserved, fully reserved contracts deliver and any still short once
+ * their deadline has passed default. A new offer may then post if the board
+ * has room.
+ */
+export const processContracts = (prev: GameState, rng: Rng, events: EngineEvent[]): GameState => {
+  const open = { ...prev, contractOffers: prev.contractOffers.filter(o => o.offerExpiryDay >= prev.day) };
+  let state: GameState = { ...open, contracts: reserveStock(open) };
+
+  state.contracts.forEach(contract => {
+    if (contract.reserved >= contract.quantity) state = deliverContract(state, contract, events);
+    else if (state.day > contract.deadlineDay) state = defaultContract(state, contract, 'DEFAULTED', events);
+  });
+
+  if (state.contractOffers.length >= CONTRACT_BOARD_SIZE || rng.next() >= CONTRACT_OFFER_CHANCE) return state;
+  return { ...state, contractOffers: [...state.contractOffers, createOffer(state, rng)], nextContractId: state.nextContractId + 1 };
+};
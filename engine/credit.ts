@@ -0,0 +1,222 @@
+import {
+  CREDIT_RATINGS, LOAN_PRODUCTS, TERM_LENGTHS, SECURED_TERM, INSTALLMENT_INTERVAL, SECURED_LTV,
+  SECURED_DEFAULT_MISSES, LATE_FEE_RATE, CREDIT_LIMIT_FLOOR
+} from '../constants';
+import { CreditRating, EngineEvent, GameState, Loan, LoanProduct, ProductionFacility, ScheduledPayment } from '../types';
+import { getNetEquity, getTotalDebt } from './economy';
+import { recordEntry } from './journal';
+import { getRateMultiplier } from './events';
+import { recordDisposal } from './tax';
+
+// Balances below this are written off so a loan can close
+const DUST = 0.1;
+
+/**
+ * 0-100 from three parts: leverage (debt against gross assets, up to 40),
+ * equity on a log scale from $1k to $1M (up to 30) and payment history
+ * (starts at 20; on-time installments add 2, missed ones cost 10, capped at 30).
+ */
+export const getCreditScore = (state: GameState) => {
+  const equity = getNetEquity(state);
+  const debt = getTotalDebt(state);
+  const assets = equity + debt;
+  const leverage = debt === 0 ? 0 : assets > 0 ? Math.min(1, debt / assets) : 1;
+  const leverageScore = 40 * (1 - leverage);
+  const equityScore = equity > 1000 ? 30 * Math.min(1, Math.log10(equity / 1000) / 3) : 0;
+  const { onTimePayments, missedPayments } = state.creditHistory;
+  const historyScore = Math.max(0, Math.min(30, 20 + onTimePayments * 2 - missedPayments * 10));
+  return Math.round(leverageScore + equityScore + historyScore);
+};
+
+export const getCreditRating = (state: GameState): CreditRating =>
+  CREDIT_RATINGS.find(r => getCreditScore(state) >= r.minScore)!;
+
+export const getLoanRate = (state: GameState, product: LoanProduct) =>
+  LOAN_PRODUCTS[product].baseRate * getCreditRating(state).rateMultiplier;
+
+// Revolver and term loans share one unsecured limit; facility-backed loans are limited by their collateral
+export const getUnsecuredDebt = (state: Pick<GameState, 'loans'>) =>
+  state.loans.filter(l => !l.collateralFacilityId).reduce((acc, l) => acc + l.balance, 0);
+
+export const getCreditLimit = (state: GameState) =>
+  Math.floor(Math.max(CREDIT_LIMIT_FLOOR, getNetEquity(state)) * getCreditRating(state).limitFactor);
+
+export const getAvailableCredit = (state: GameState) =>
+  Math.max(0, getCreditLimit(state) - getUnsecuredDebt(state));
+
+export const isPledged = (state: Pick<GameState, 'loans'>, facilityId: string) =>
+  state.loans.some(l => l.collateralFacilityId === facilityId);
+
+export const getMaxSecured = (state: Pick<GameState, 'loans'>, facility: ProductionFacility) =>
+  isPledged(state, facility.id) ? 0 : Math.floor(facility.bookValue * SECURED_LTV);
+
+// Interest compounds daily, so one installment period carries this much
+const getPeriodRate = (rate: number, days: number) => Math.pow(1 + rate, days) - 1;
+
+// Level payment that clears the principal over the term's installments
+export const getInstallment = (principal: number, rate: number, termDays: number) => {
+  const periods = Math.floor(termDays / INSTALLMENT_INTERVAL);
+  const r = getPeriodRate(rate, INSTALLMENT_INTERVAL);
+  return r > 0 ? principal * r / (1 - Math.pow(1 + r, -periods)) : principal / periods;
+};
+
+/**
+ * Projects the remaining installments of an amortizing loan from today's
+ * balance. The payment due at or after maturity is a balloon for whatever is
+ * left, which is where missed installments and late fees end up.
+ */
+export const getSchedule = (loan: Loan, day: number): ScheduledPayment[] => {
+  if (loan.installment === null || loan.nextDueDay === null || loan.maturityDay === null) return [];
+  const rows: ScheduledPayment[] = [];
+  let balance = loan.balance;
+  let from = day;
+  for (let dueDay = loan.nextDueDay; balance >= DUST; dueDay += INSTALLMENT_INTERVAL) {
+    const interest = balance * getPeriodRate(loan.rate, dueDay - from);
+    const isFinal = dueDay >= loan.maturityDay;
+    const payment = isFinal ? balance + interest : Math.min(loan.installment, balance + interest);
+    balance = balance + interest - payment;
+    rows.push({ loanId: loan.id, dueDay, payment, interest, principal: payment - interest, balanceAfter: balance });
+    from = dueDay;
+    if (isFinal) break;
+  }
+  return rows;
+};
+
+export const takeLoan = (prev: GameState, product: LoanProduct, amount: number, termDays?: number, collateralFacilityId?: string): GameState => {
+  if (!(amount > 0)) return prev;
+  const rate = getLoanRate(prev, product);
+
+  if (product === 'REVOLVER') {
+    if (amount > getAvailableCredit(prev)) return prev;
+    const existing = prev.loans.find(l => l.product === 'REVOLVER');
+    const revolver: Loan = existing
+      ? { ...existing, balance: existing.balance + amount, rate }
+      : { id: `LN-${prev.nextLoanId}`, product, balance: amount, rate, originatedDay: prev.day, installment: null, nextDueDay: null, maturityDay: null, missedPayments: 0, collateralFacilityId: null };
+    return recordEntry({
+      ...prev,
+      cash: prev.cash + amount,
+      loans: existing ? prev.loans.map(l => l.id === existing.id ? revolver : l) : [...prev.loans, revolver],
+      nextLoanId: existing ? prev.nextLoanId : prev.nextLoanId + 1
+    }, { kind: 'LOAN', cashDelta: amount, debtDelta: amount, memo: `${revolver.id} ${LOAN_PRODUCTS.REVOLVER.label} draw` });
+  }
+
+  let term = SECURED_TERM;
+  let collateral: ProductionFacility | undefined;
+  if (product === 'TERM') {
+    if (termDays === undefined || !TERM_LENGTHS.includes(termDays) || amount > getAvailableCredit(prev)) return prev;
+    term = termDays;
+  } else {
+    collateral = prev.facilities.find(f => f.id === collateralFacilityId);
+    if (!collateral || amount > getMaxSecured(prev, collateral)) return prev;
+  }
+
+  const loan: Loan = {
+    id: `LN-${prev.nextLoanId}`,
+    product,
+    balance: amount,
+    rate,
+    originatedDay: prev.day,
+    installment: getInstallment(amount, rate, term),
+    nextDueDay: prev.day + INSTALLMENT_INTERVAL,
+    maturityDay: prev.day + term,
+    missedPayments: 0,
+    collateralFacilityId: collateral?.id ?? null
+  };
+  return recordEntry({
+    ...prev,
+    cash: prev.cash + amount,
+    loans: [...prev.loans, loan],
+    nextLoanId: prev.nextLoanId + 1
+  }, {
+    kind: 'LOAN',
+    commodityId: collateral?.commodityId,
+    region: collateral?.region,
+    cashDelta: amount,
+    debtDelta: amount,
+    memo: `${loan.id} ${LOAN_PRODUCTS[product].label}, ${term} days${collateral ? ` against ${collateral.name}` : ''}`
+  });
+};
+
+// Prepaying an amortizing loan keeps the installment, so it simply clears sooner
+export const repayLoan = (prev: GameState, loanId: string, amount: number): GameState => {
+  const loan = prev.loans.find(l => l.id === loanId);
+  if (!loan || amount <= 0) return prev;
+  const paid = Math.min(amount, loan.balance, Math.max(0, prev.cash));
+  if (paid <= 0) return prev;
+  const balance = loan.balance - paid;
+  const isClosed = balance < DUST;
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - paid,
+    loans: isClosed ? prev.loans.filter(l => l.id !== loanId) : prev.loans.map(l => l.id === loanId ? { ...l, balance } : l)
+  }, { kind: 'REPAYMENT', cashDelta: -paid, debtDelta: (isClosed ? 0 : balance) - loan.balance, memo: loan.id });
+};
+
+const accrueInterest = (prev: GameState, loan: Loan): GameState => {
+  const interest = loan.balance * loan.rate * getRateMultiplier(prev.activeEvents, 'interestRate');
+  return recordEntry({
+    ...prev,
+    loans: prev.loans.map(l => l.id === loan.id ? { ...l, balance: l.balance + interest } : l),
+    lifetime: { ...prev.lifetime, totalInterestPaid: prev.lifetime.totalInterestPaid + interest }
+  }, { kind: 'INTEREST', cashDelta: 0, debtDelta: interest, memo: loan.id });
+};
+
+// The lender takes the pledged facility in full settlement of the balance
+const seizeCollateral = (prev: GameState, loan: Loan, events: EngineEvent[]): GameState => {
+  const facility = prev.facilities.find(f => f.id === loan.collateralFacilityId);
+  if (!facility) return prev;
+  events.push({ type: 'COLLATERAL_SEIZED', day: prev.day, loanId: loan.id, facilityId: facility.id });
+  return recordEntry({
+    ...prev,
+    loans: prev.loans.filter(l => l.id !== loan.id),
+    facilities: prev.facilities.filter(f => f.id !== facility.id),
+    taxAccount: recordDisposal(prev.taxAccount, facility, loan.balance)
+  }, { kind: 'COLLATERAL_SEIZURE', commodityId: facility.commodityId, region: facility.region, cashDelta: 0, debtDelta: -loan.balance, memo: `${facility.name} for ${loan.id}` });
+};
+
+/**
+ * Debits an installment from cash when it can be covered. Otherwise the
+ * installment is missed: a late fee goes onto the balance, the credit history
+ * takes the hit and a facility-backed loan may forfeit its collateral.
+ */
+const collectInstallment = (prev: GameState, loan: Loan, events: EngineEvent[]): GameState => {
+  const isFinal = loan.nextDueDay! >= loan.maturityDay!;
+  const due = isFinal ? loan.balance : Math.min(loan.installment!, loan.balance);
+  const nextDueDay = loan.nextDueDay! + INSTALLMENT_INTERVAL;
+
+  if (prev.cash >= due) {
+    const balance = loan.balance - due;
+    const isClosed = balance < DUST;
+    return recordEntry({
+      ...prev,
+      cash: prev.cash - due,
+      loans: isClosed ? prev.loans.filter(l => l.id !== loan.id) : prev.loans.map(l => l.id === loan.id ? { ...l, balance, nextDueDay } : l),
+      creditHistory: { ...prev.creditHistory, onTimePayments: prev.creditHistory.onTimePayments + 1 }
+    }, { kind: 'REPAYMENT', cashDelta: -due, debtDelta: (isClosed ? 0 : balance) - loan.balance, memo: `${loan.id} installment` });
+  }
+
+  const fee = due * LATE_FEE_RATE;
+  const missed: Loan = { ...loan, balance: loan.balance + fee, nextDueDay, missedPayments: loan.missedPayments + 1 };
+  events.push({ type: 'INSTALLMENT_MISSED', day: prev.day, loanId: loan.id, amount: due });
+  const state = recordEntry({
+    ...prev,
+    loans: prev.loans.map(l => l.id === loan.id ? missed : l),
+    creditHistory: { ...prev.creditHistory, missedPayments: prev.creditHistory.missedPayments + 1 },
+    lifetime: { ...prev.lifetime, totalInterestPaid: prev.lifetime.totalInterestPaid + fee }
+  }, { kind: 'LATE_FEE', cashDelta: 0, debtDelta: fee, memo: `${loan.id} missed $${due.toFixed(2)}` });
+  return missed.collateralFacilityId && missed.missedPayments >= SECURED_DEFAULT_MISSES ? seizeCollateral(state, missed, events) : state;
+};
+
+// Daily servicing: accrue interest, collect what is due, then reprice the revolver off the new rating
+export const processLoans = (prev: GameState, events: EngineEvent[]): GameState => {
+  if (prev.loans.length === 0) return prev;
+  let state = prev.loans.reduce(accrueInterest, prev);
+  state.loans
+    .filter(l => l.nextDueDay !== null && l.nextDueDay <= state.day)
+    .forEach(due => {
+      const loan = state.loans.find(l => l.id === due.id);
+      if (loan) state = collectInstallment(state, loan, events);
+    });
+  const revolverRate = getLoanRate(state, 'REVOLVER');
+  return { ...state, loans: state.loans.map(l => l.product === 'REVOLVER' ? { ...l, rate: revolverRate } : l) };
+};
@@ -0,0 +1,92 @@
+import { COMMODITIES, REGIONS, BANKRUPTCY_THRESHOLD, WAREHOUSE_SPECS, SERVICE_COST_RATE, BREAKDOWN_REPAIR_RATE } from '../constants';
+import { Commodity, CommodityCategory, GameState, InventoryItem, ProductionFacility, Region, RegionId } from '../types';
+
+export const getCommodity = (id: string): Commodity => COMMODITIES.find(c => c.id === id)!;
+
+export const getRegion = (id: RegionId): Region => REGIONS.find(r => r.id === id)!;
+
+export const getPrice = (state: Pick<GameState, 'markets'>, region: RegionId, id: string) =>
+  state.markets[region][id].currentPrice;
+
+export const isItemAt = (item: InventoryItem, region: RegionId, id: string) =>
+  item.region === region && item.commodityId === id;
+
+// Every commodity has a (possibly empty) position in every region
+export const getItem = (inventory: InventoryItem[], region: RegionId, id: string) =>
+  inventory.find(i => isItemAt(i, region, id))!;
+
+export const getUnlockCost = (commodity: Commodity, region: RegionId) =>
+  Math.floor(commodity.basePrice * 25 * getRegion(region).costMultiplier);
+
+export const getUpgradeCost = (commodity: Commodity, region: RegionId, level: number) =>
+  Math.floor(getUnlockCost(commodity, region) * Math.pow(1.8, level));
+
+// Daily cost increases by 40% per level
+export const getDailyProductionCost = (commodity: Commodity, region: RegionId, level: number) =>
+  Math.floor(commodity.productionCost * Math.pow(1.4, level - 1) * getRegion(region).costMultiplier);
+
+// Progress points gained per day; a batch completes at 100
+export const getProductionSpeed = (level: number) => 5 + (level * 10);
+
+// Units per completed batch in undisturbed conditions
+export const getProductionYield = (commodity: Commodity, region: RegionId) =>
+  Math.max(1, Math.floor(commodity.productionYield * getRegion(region).yieldMultiplier));
+
+// Running cost accrued over one batch; spread over the output as its cost basis
+export const getBatchRunningCost = (commodity: Commodity, region: RegionId, level: number) =>
+  getDailyProductionCost(commodity, region, level) * 100 / getProductionSpeed(level);
+
+// Construction plus every upgrade paid to reach the given level
+export const getTotalInvested = (commodity: Commodity, region: RegionId, level: number) => {
+  let total = getUnlockCost(commodity, region);
+  for (let i = 1; i < level; i++) {
+    total += getUpgradeCost(commodity, region, i);
+  }
+  return total;
+};
+
+// Restores full condition; a broken-down facility also pays the repair to restart
+export const getServiceCost = (facility: ProductionFacility) => {
+  const invested = getTotalInvested(getCommodity(facility.commodityId), facility.region, facility.level);
+  return Math.ceil(invested * (SERVICE_COST_RATE * (1 - facility.condition) + (facility.isBrokenDown ? BREAKDOWN_REPAIR_RATE : 0)));
+};
+
+// Level 1 is the initial build; each level after costs 80% more, like facility upgrades
+export const getWarehouseCost = (category: CommodityCategory, currentLevel: number) =>
+  Math.floor(WAREHOUSE_SPECS[category].buildCost * Math.pow(1.8, currentLevel));
+
+export const getWarehouseInvested = (category: CommodityCategory, level: number) => {
+  let total = 0;
+  for (let i = 0; i < level; i++) total += getWarehouseCost(category, i);
+  return total;
+};
+
+export const getReservedCash = (state: Pick<GameState, 'orders'>) =>
+  state.orders.reduce((acc, o) => acc + o.reservedCash, 0);
+
+// Units in a region held back for accepted supply contracts; they stay in inventory until delivered
+export const getReservedUnits = (state: Pick<GameState, 'contracts'>, region: RegionId, id: string) =>
+  state.contracts.reduce((acc, c) => c.region === region && c.commodityId === id ? acc + c.reserved : acc, 0);
+
+// Goods at sea are marked at their destination's price
+export const getInventoryValue = (state: Pick<GameState, 'inventory' | 'markets' | 'shipments'>) =>
+  state.inventory.reduce((acc, item) => acc + (item.quantity * getPrice(state, item.region, item.commodityId)), 0) +
+  state.shipments.reduce((acc, s) => acc + (s.quantity * getPrice(state, s.to, s.commodityId)), 0);
+
+// Facilities at their depreciated book value, which is also what they sell for; warehouses at cost
+export const getInfrastructureValue = (state: Pick<GameState, 'facilities' | 'warehouses'>) =>
+  state.facilities.reduce((acc, f) => acc + f.bookValue, 0) +
+  state.warehouses.reduce((acc, w) => acc + getWarehouseInvested(w.category, w.level), 0);
+
+// Cost to buy back every borrowed unit at today's price
+export const getShortExposure = (state: Pick<GameState, 'shortPositions' | 'markets'>) =>
+  state.shortPositions.reduce((acc, p) => acc + (p.quantity * getPrice(state, p.region, p.commodityId)), 0);
+
+export const getTotalDebt = (state: Pick<GameState, 'loans'>) =>
+  state.loans.reduce((acc, l) => acc + l.balance, 0);
+
+// Cash escrowed in open buy orders still belongs to the player; short positions and deferred tax are liabilities
+export const getNetEquity = (state: GameState) =>
+  state.cash + getReservedCash(state) + getInventoryValue(state) + getInfrastructureValue(state) - getShortExposure(state) - getTotalDebt(state) - state.taxAccount.deferred;
+
+export const isBankrupt = (state: GameState) => getNetEquity(state) < BANKRUPTCY_THRESHOLD;
@@ -0,0 +1,105 @@
+import { EVENTS_POOL, LEDGER_CYCLE, MAX_ACTIVE_EVENTS } from '../constants';
+import { ActiveEvent, Commodity, EngineEvent, EventDefinition, EventEffects, EventTarget, GameState, RegionId, ScheduledEvent } from '../types';
+import { Rng } from './rng';
+
+export const getEventDefinition = (id: string): EventDefinition => EVENTS_POOL.find(e => e.id === id)!;
+
+export const isCommodityTargeted = (target: EventTarget, commodity: Commodity) =>
+  (target.commodityId === undefined || target.commodityId === commodity.id) &&
+  (target.category === undefined || target.category === commodity.category);
+
+// Concurrent events stack multiplicatively
+const combine = (active: ActiveEvent[], effect: keyof EventEffects, matches: (def: EventDefinition) => boolean) =>
+  active.reduce((acc, e) => {
+    const def = getEventDefinition(e.eventId);
+    const value = def.effects[effect];
+    return value !== undefined && matches(def) ? acc * value : acc;
+  }, 1);
+
+// Effect on the global index; local disasters are left to their own exchange
+export const getIndexMultiplier = (active: ActiveEvent[], effect: 'price' | 'volatility', commodity: Commodity) =>
+  combine(active, effect, def => !def.target.region && isCommodityTargeted(def.target, commodity));
+
+// Effect on one exchange on top of the index, i.e. from events local to that region only
+export const getLocalMultiplier = (active: ActiveEvent[], effect: 'price' | 'volatility', commodity: Commodity, region: RegionId) =>
+  combine(active, effect, def => def.target.region === region && isCommodityTargeted(def.target, commodity));
+
+// Facilities feel both worldwide events and disasters at their own site
+export const getYieldMultiplier = (active: ActiveEvent[], commodity: Commodity, region: RegionId) =>
+  combine(active, 'yield', def => (!def.target.region || def.target.region === region) && isCommodityTargeted(def.target, commodity));
+
+export const getRateMultiplier = (active: ActiveEvent[], effect: 'interestRate' | 'taxRate') =>
+  combine(active, effect, () => true);
+
+// Whether an event moves anything about this commodity on this exchange, for alerts
+export const isEventRelevant = (def: EventDefinition, commodity: Commodity, region: RegionId) =>
+  (!def.target.region || def.target.region === region) && isCommodityTargeted(def.target, commodity) &&
+  (def.effects.price !== undefined || def.effects.volatility !== undefined || def.effects.yield !== undefined);
+
+const startEvent = (def: EventDefinition, day: number, rng: Rng): ActiveEvent => {
+  const duration = def.minDuration + Math.floor(rng.next() * (def.maxDuration - def.minDuration + 1));
+  return { eventId: def.id, startedDay: day, duration, remainingDays: duration };
+};
+
+export type EventState = Pick<GameState, 'activeEvents' | 'eventHistory' | 'eventCooldowns' | 'scheduledEvents'>;
+
+const isEligible = (def: EventDefinition, prev: EventState, day: number) =>
+  def.weight > 0 &&
+  !prev.activeEvents.some(e => e.eventId === def.id) &&
+  !prev.scheduledEvents.some(s => s.eventId === def.id) &&
+  (prev.eventCooldowns[def.id] ?? 0) <= day &&
+  (def.requires ?? []).every(id => prev.activeEvents.some(e => e.eventId === id));
+
+// Weighted draw among events off cooldown, not already running or queued, whose prerequisites are running
+export const pickEvent = (prev: EventState, day: number, rng: Rng): EventDefinition | undefined => {
+  const eligible = EVENTS_POOL.filter(def => isEligible(def, prev, day));
+  const totalWeight = eligible.reduce((acc, def) => acc + def.weight, 0);
+  let pick = rng.next() * totalWeight;
+  return eligible.find(d => (pick -= d.weight) < 0);
+};
+
+/**
+ * Moves the event calendar on a day: running events tick down and may queue
+ * their follow-ups, due follow-ups start, and on a ledger close one new event
+ * may roll by weight from those off cooldown whose prerequisites are running.
+ */
+export const rollEvents = (prev: EventState, day: number, cycleProgress: number, rng: Rng, events: EngineEvent[]): EventState => {
+  const activeEvents: ActiveEvent[] = [];
+  const ended: ActiveEvent[] = [];
+  const eventCooldowns = { ...prev.eventCooldowns };
+  const scheduledEvents: ScheduledEvent[] = [...prev.scheduledEvents];
+
+  prev.activeEvents.forEach(e => {
+    const ticked = { ...e, remainingDays: e.remainingDays - 1 };
+    if (ticked.remainingDays > 0) {
+      activeEvents.push(ticked);
+      return;
+    }
+    const def = getEventDefinition(e.eventId);
+    ended.push(ticked);
+    events.push({ type: 'EVENT_ENDED', day, event: ticked });
+    eventCooldowns[def.id] = day + def.cooldown;
+    (def.followUps ?? []).forEach(f => {
+      if (rng.next() < f.chance) scheduledEvents.push({ eventId: f.eventId, day: day + f.delay });
+    });
+  });
+
+  scheduledEvents.filter(s => s.day <= day).forEach(s => {
+    if (activeEvents.some(e => e.eventId === s.eventId)) return;
+    const started = startEvent(getEventDefinition(s.eventId), day, rng);
+    activeEvents.push(started);
+    events.push({ type: 'EVENT_STARTED', day, event: started });
+  });
+
+  const upcoming = scheduledEvents.filter(s => s.day > day);
+  if (cycleProgress >= LEDGER_CYCLE && activeEvents.length < MAX_ACTIVE_EVENTS && rng.next() > 0.3) {
+    const def = pickEvent({ ...prev, activeEvents, eventCooldowns, scheduledEvents: upcoming }, day, rng);
+    if (def) {
+      const started = startEvent(def, day, rng);
+      activeEvents.push(started);
+      events.push({ type: 'EVENT_STARTED', day, event: started });
+    }
+  }
+
+  return { activeEvents, eventHistory: [...prev.eventHistory, ...ended], eventCooldowns, scheduledEvents: upcoming };
+};
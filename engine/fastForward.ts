@@ -0,0 +1,65 @@
+import { EngineEvent, FastForwardTarget, GameState } from '../types';
+import { getCommodity, getPrice, getRegion } from './economy';
+import { getEventDefinition } from './events';
+
+export const describeTarget = (target: FastForwardTarget) => {
+  switch (target.kind) {
+    case 'DAY':
+      return `Day ${target.day}`;
+    case 'TAX_AUDIT':
+      return `Tax audit on day ${target.day}`;
+    case 'EVENT_END':
+      return `End of ${getEventDefinition(target.eventId).name}`;
+    case 'PRICE_ALERT':
+      return `${getCommodity(target.commodityId).name} ${target.direction === 'ABOVE' ? '≥' : '≤'} $${target.price} in ${getRegion(target.region).name}`;
+  }
+};
+
+const isReached = (target: FastForwardTarget, state: GameState) => {
+  switch (target.kind) {
+    case 'DAY':
+    case 'TAX_AUDIT':
+      return state.day >= target.day;
+    case 'EVENT_END':
+      return !state.activeEvents.some(e => e.eventId === target.eventId);
+    case 'PRICE_ALERT': {
+      const price = getPrice(state, target.region, target.commodityId);
+      return target.direction === 'ABOVE' ? price >= target.price : price <= target.price;
+    }
+  }
+};
+
+// Events worth stopping for whatever the target; routine ones like fills and arrivals are not
+const getInterruption = (e: EngineEvent): string | null => {
+  switch (e.type) {
+    case 'EVENT_STARTED':
+      return `${getEventDefinition(e.event.eventId).name} broke`;
+    case 'MARGIN_CALL':
+      return 'Margin call issued';
+    case 'FORCED_LIQUIDATION':
+      return 'Shorts force-liquidated';
+    case 'INSTALLMENT_MISSED':
+      return `${e.loanId} installment missed`;
+    case 'COLLATERAL_SEIZED':
+      return `${e.loanId} collateral seized`;
+    case 'CONTRACT_SETTLED':
+      return e.outcome.status === 'DEFAULTED' ? `${e.outcome.contract.id} missed its deadline` : null;
+    case 'FACILITY_BROKE_DOWN':
+      return `${getCommodity(e.commodityId).name} site in ${getRegion(e.region).name} broke down`;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Why a fast-forward should stop after a day that produced these events, or
+ * null to keep going. Reaching the target is checked first so its reason wins.
+ */
+export const getFastForwardStop = (target: FastForwardTarget, state: GameState, events: EngineEvent[]): string | null => {
+  if (isReached(target, state)) return `Reached: ${describeTarget(target)}`;
+  for (const e of events) {
+    const interruption = getInterruption(e);
+    if (interruption) return `Stopped early: ${interruption}`;
+  }
+  return null;
+};
@@ -0,0 +1,32 @@
+import { MarketPrice, PriceBar } from '../types';
+
+// Six significant figures is finer than any quote moves and keeps saves compact
+const compact = (price: number) => Number(price.toPrecision(6));
+
+export const getClose = (bar: PriceBar) => bar[3];
+
+export const createQuote = (id: string, price: number): MarketPrice => {
+  const p = compact(price);
+  return { id, currentPrice: price, history: [[p, p, p, p]], trend: 'stable' };
+};
+
+// Starts a new day's bar at the previous close and settles the quote at the day's price
+export const closeDay = (quote: MarketPrice, price: number): MarketPrice => {
+  const open = getClose(quote.history[quote.history.length - 1]);
+  const bar: PriceBar = [open, compact(Math.max(open, price)), compact(Math.min(open, price)), compact(price)];
+  return { ...quote, currentPrice: price, history: [...quote.history, bar], trend: price > quote.currentPrice ? 'up' : 'down' };
+};
+
+// Moves the quote within the day; today's bar stretches to cover it
+export const moveQuote = (quote: MarketPrice, price: number): MarketPrice => {
+  const [open, high, low] = quote.history[quote.history.length - 1];
+  const bar: PriceBar = [open, compact(Math.max(high, price)), compact(Math.min(low, price)), compact(price)];
+  return { ...quote, currentPrice: price, history: [...quote.history.slice(0, -1), bar] };
+};
+
+export const getPreviousClose = (quote: MarketPrice) =>
+  quote.history.length > 1 ? getClose(quote.history[quote.history.length - 2]) : quote.history[0][0];
+
+// Every day appends exactly one bar, so the last one is today
+export const getBarDay = (quote: MarketPrice, index: number, today: number) =>
+  today - (quote.history.length - 1 - index);
@@ -0,0 +1,92 @@
+import { IndicatorId } from '../types';
+
+// Each series lines up with its input; points before the first full window are null
+export type Series = (number | null)[];
+
+export const INDICATORS: Record<IndicatorId, { label: string; isOverlay: boolean }> = {
+  SMA: { label: 'SMA', isOverlay: true },
+  EMA: { label: 'EMA', isOverlay: true },
+  BOLLINGER: { label: 'Bollinger', isOverlay: true },
+  RSI: { label: 'RSI 14', isOverlay: false },
+  MACD: { label: 'MACD', isOverlay: false },
+  VOLATILITY: { label: 'Volatility', isOverlay: false }
+};
+
+// Choices for the moving-average period; the other indicators use their textbook settings
+export const MA_PERIODS = [10, 20, 50];
+
+const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+const stdev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / values.length);
+};
+
+const windowAt = (values: number[], i: number, period: number) => values.slice(i + 1 - period, i + 1);
+
+export const sma = (values: number[], period: number): Series =>
+  values.map((_, i) => (i + 1 < period ? null : mean(windowAt(values, i, period))));
+
+// Seeded with the SMA of the first window
+export const ema = (values: number[], period: number): Series => {
+  const k = 2 / (period + 1);
+  let last: number | null = null;
+  return values.map((v, i) => {
+    if (i + 1 < period) return null;
+    last = last === null ? mean(values.slice(0, period)) : v * k + last * (1 - k);
+    return last;
+  });
+};
+
+export const bollinger = (values: number[], period = 20, width = 2) => {
+  const middle = sma(values, period);
+  const band = values.map((_, i) => (middle[i] === null ? null : width * stdev(windowAt(values, i, period))));
+  return {
+    middle,
+    upper: middle.map((m, i) => (m === null ? null : m + band[i]!)),
+    lower: middle.map((m, i) => (m === null ? null : m - band[i]!))
+  };
+};
+
+// Wilder's smoothing: a simple average over the first window, then a running one
+export const rsi = (values: number[], period = 14): Series => {
+  let gain = 0;
+  let loss = 0;
+  return values.map((v, i) => {
+    if (i === 0) return null;
+    const change = v - values[i - 1];
+    const up = Math.max(0, change);
+    const down = Math.max(0, -change);
+    if (i <= period) {
+      gain += up / period;
+      loss += down / period;
+    } else {
+      gain += (up - gain) / period;
+      loss += (down - loss) / period;
+    }
+    if (i < period) return null;
+    return loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  });
+};
+
+export const macd = (values: number[], fast = 12, slow = 26, signalPeriod = 9) => {
+  const fastLine = ema(values, fast);
+  const slowLine = ema(values, slow);
+  const line: Series = values.map((_, i) => (fastLine[i] === null || slowLine[i] === null ? null : fastLine[i]! - slowLine[i]!));
+  // The signal line is an EMA of the MACD line from its first value
+  const start = line.findIndex(v => v !== null);
+  const signal: Series = start < 0
+    ? line.map(() => null)
+    : [...line.slice(0, start).map(() => null), ...ema(line.slice(start) as number[], signalPeriod)];
+  return {
+    line,
+    signal,
+    histogram: line.map((v, i) => (v === null || signal[i] === null ? null : v - signal[i]!))
+  };
+};
+
+// Standard deviation of daily returns over the window, in percent
+export const volatility = (values: number[], period = 20): Series => {
+  const returns = values.map((v, i) => (i === 0 ? 0 : v / values[i - 1] - 1));
+  return values.map((_, i) => (i < period ? null : stdev(windowAt(returns, i, period)) * 100));
+};
@@ -0,0 +1,38 @@
+import { GameState, JournalEntry } from '../types';
+
+export type JournalInput = Omit<JournalEntry, 'id' | 'day' | 'cashAfter' | 'debtDelta' | 'commodityId' | 'region' | 'quantity' | 'price'> &
+  Partial<Pick<JournalEntry, 'debtDelta' | 'commodityId' | 'region' | 'quantity' | 'price'>>;
+
+/**
+ * Appends to the journal. Call it after the cash has moved: the entry stamps
+ * the state's current day and cash as the resulting balance.
+ */
+export const recordEntry = (state: GameState, input: JournalInput): GameState => ({
+  ...state,
+  journal: [...state.journal, {
+    id: state.journal.length + 1,
+    day: state.day,
+    commodityId: null,
+    region: null,
+    quantity: null,
+    price: null,
+    debtDelta: 0,
+    ...input,
+    cashAfter: state.cash
+  }]
+});
+
+// Moves cash by the entry's delta and records it in one step; loan balances are kept by the credit engine
+export const postEntry = (state: GameState, input: JournalInput): GameState =>
+  recordEntry({ ...state, cash: state.cash + input.cashDelta }, input);
+
+const CSV_COLUMNS: (keyof JournalEntry)[] = ['id', 'day', 'kind', 'commodityId', 'region', 'quantity', 'price', 'cashDelta', 'debtDelta', 'cashAfter', 'memo'];
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const journalToCsv = (entries: JournalEntry[]) =>
+  [CSV_COLUMNS.join(','), ...entries.map(e => CSV_COLUMNS.map(col => csvCell(e[col])).join(','))].join('\n');
@@ -0,0 +1,76 @@
+import { MAX_PRICE_IMPACT } from '../constants';
+import { Commodity, GameState, MarketPrice, RegionId } from '../types';
+import { getCommodity, getPrice } from './economy';
+import { moveQuote } from './history';
+
+export interface FillEstimate {
+  // Average price per unit across the whole order
+  price: number;
+  // Average price against the mid, signed the way the order pays (+ costs a buyer, - costs a seller)
+  slippage: number;
+}
+
+// Share of the price an order of this size moves the local quote
+export const getPriceImpact = (commodity: Commodity, quantity: number) =>
+  Math.min(MAX_PRICE_IMPACT, Math.abs(quantity) / commodity.liquidity.depth);
+
+export const getBid = (commodity: Commodity, mid: number) => mid * (1 - commodity.liquidity.spread / 2);
+export const getAsk = (commodity: Commodity, mid: number) => mid * (1 + commodity.liquidity.spread / 2);
+
+/**
+ * Average fill of a market order against a book of linear depth: buys start at
+ * the ask, sells at the bid, and each further unit fills a little worse, so
+ * the average lands halfway along the order's impact.
+ */
+export const estimateFill = (commodity: Commodity, mid: number, quantity: number): FillEstimate => {
+  const side = Math.sign(quantity);
+  const touch = side > 0 ? getAsk(commodity, mid) : getBid(commodity, mid);
+  const price = touch * (1 + side * getPriceImpact(commodity, quantity) / 2);
+  return { price, slippage: price / mid - 1 };
+};
+
+export const getFillEstimate = (state: Pick<GameState, 'markets'>, region: RegionId, id: string, quantity: number) =>
+  estimateFill(getCommodity(id), getPrice(state, region, id), quantity);
+
+// Largest buy whose filled cost fits in the cash; fill cost rises with size, so bisect
+export const getMaxAffordable = (commodity: Commodity, mid: number, cash: number) => {
+  let low = 0;
+  let high = Math.floor(Math.max(0, cash) / getAsk(commodity, mid));
+  while (low < high) {
+    const size = Math.ceil((low + high) / 2);
+    if (size * estimateFill(commodity, mid, size).price <= cash) low = size;
+    else high = size - 1;
+  }
+  return low;
+};
+
+// Largest part of an order whose average fill is no worse than the limit; fills worsen with size, so bisect
+export const getMaxWithinLimit = (commodity: Commodity, mid: number, quantity: number, limit: number) => {
+  const side = Math.sign(quantity);
+  let low = 0;
+  let high = Math.abs(quantity);
+  while (low < high) {
+    const size = Math.ceil((low + high) / 2);
+    if (side * (limit - estimateFill(commodity, mid, side * size).price) >= 0) low = size;
+    else high = size - 1;
+  }
+  return low;
+};
+
+/**
+ * Moves the local quote after a fill: up for buys, down for sells. The move
+ * becomes part of the regional premium, which updateMarkets pulls back toward
+ * its target every day, so the market recovers without state of its own.
+ */
+export const applyImpact = (
+  markets: Record<RegionId, Record<string, MarketPrice>>,
+  region: RegionId,
+  id: string,
+  quantity: number
+): Record<RegionId, Record<string, MarketPrice>> => {
+  if (quantity === 0) return markets;
+  const commodity = getCommodity(id);
+  const quote = markets[region][id];
+  const price = Math.max(commodity.basePrice * 0.1, quote.currentPrice * (1 + Math.sign(quantity) * getPriceImpact(commodity, quantity)));
+  return { ...markets, [region]: { ...markets[region], [id]: moveQuote(quote, price) } };
+};
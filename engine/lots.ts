@@ -0,0 +1,74 @@
+import { CostMethod, InventoryItem, InventoryLot } from '../types';
+
+export const addLot = (item: InventoryItem, quantity: number, unitCost: number, day: number, source: InventoryLot['source']): InventoryItem => {
+  if (quantity <= 0) return item;
+  return {
+    ...item,
+    quantity: item.quantity + quantity,
+    lots: [...item.lots, { quantity, unitCost, acquiredDay: day, source }]
+  };
+};
+
+// Units and cost basis drawn from a facility's own output, kept apart for tax
+export interface ProducedShare {
+  quantity: number;
+  costBasis: number;
+}
+
+const NONE_PRODUCED: ProducedShare = { quantity: 0, costBasis: 0 };
+
+/**
+ * Takes units out of a position and reports what they cost, and how much of
+ * that came from own production. FIFO consumes the oldest lots first; AVERAGE
+ * pools bought and produced lots separately at the blended cost and draws on
+ * both pro rata, so what remains keeps that same average.
+ */
+export const removeUnits = (item: InventoryItem, quantity: number, method: CostMethod): { item: InventoryItem; costBasis: number; produced: ProducedShare } => {
+  const toRemove = Math.min(quantity, item.quantity);
+  if (toRemove <= 0) return { item, costBasis: 0, produced: NONE_PRODUCED };
+
+  if (method === 'AVERAGE') {
+    const avg = getAverageCost(item);
+    const ownOutput = item.lots.filter(l => l.source === 'PRODUCTION').reduce((acc, l) => acc + l.quantity, 0);
+    const bought = item.quantity - ownOutput;
+    const producedTaken = Math.min(ownOutput, Math.max(toRemove - bought, Math.round(toRemove * ownOutput / item.quantity)));
+    const acquiredDay = item.lots.length > 0 ? item.lots[0].acquiredDay : 0;
+    const lots: InventoryLot[] = [];
+    if (bought - (toRemove - producedTaken) > 0) lots.push({ quantity: bought - (toRemove - producedTaken), unitCost: avg, acquiredDay, source: 'MARKET' });
+    if (ownOutput - producedTaken > 0) lots.push({ quantity: ownOutput - producedTaken, unitCost: avg, acquiredDay, source: 'PRODUCTION' });
+    return {
+      item: { ...item, quantity: item.quantity - toRemove, lots },
+      costBasis: avg * toRemove,
+      produced: { quantity: producedTaken, costBasis: avg * producedTaken }
+    };
+  }
+
+  let left = toRemove;
+  let costBasis = 0;
+  const produced = { ...NONE_PRODUCED };
+  const lots: InventoryLot[] = [];
+  item.lots.forEach(lot => {
+    if (left <= 0) {
+      lots.push(lot);
+      return;
+    }
+    const taken = Math.min(left, lot.quantity);
+    costBasis += taken * lot.unitCost;
+    if (lot.source === 'PRODUCTION') {
+      produced.quantity += taken;
+      produced.costBasis += taken * lot.unitCost;
+    }
+    left -= taken;
+    if (taken < lot.quantity) lots.push({ ...lot, quantity: lot.quantity - taken });
+  });
+  return { item: { ...item, quantity: item.quantity - toRemove, lots }, costBasis, produced };
+};
+
+export const getCostBasis = (item: InventoryItem) =>
+  item.lots.reduce((acc, lot) => acc + lot.quantity * lot.unitCost, 0);
+
+export const getAverageCost = (item: InventoryItem) =>
+  item.quantity > 0 ? getCostBasis(item) / item.quantity : 0;
+
+export const getUnrealizedPnl = (item: InventoryItem, price: number) =>
+  item.quantity * price - getCostBasis(item);
@@ -0,0 +1,113 @@
+import { INITIAL_MARGIN, MAINTENANCE_MARGIN, MARGIN_CALL_GRACE, SHORT_BORROW_RATE } from '../constants';
+import { GameState, EngineEvent, ShortPosition, RegionId } from '../types';
+import { getNetEquity, getPrice, getShortExposure, isItemAt } from './economy';
+import { recordEntry } from './journal';
+import { applyImpact, getFillEstimate } from './liquidity';
+import { accrueGains } from './tax';
+
+const isPositionAt = (p: ShortPosition, region: RegionId, id: string) => p.region === region && p.commodityId === id;
+
+export const getShorted = (state: GameState, region: RegionId, id: string) =>
+  state.shortPositions.find(p => isPositionAt(p, region, id))?.quantity || 0;
+
+// Equity as a fraction of short exposure; Infinity with nothing shorted
+export const getMarginRatio = (state: GameState) => {
+  const exposure = getShortExposure(state);
+  return exposure > 0 ? getNetEquity(state) / exposure : Infinity;
+};
+
+/**
+ * Largest new short that keeps equity at or above the initial margin. Opening
+ * a short leaves equity unchanged (proceeds in, liability out), so the limit is
+ * purely how much extra exposure the current equity can carry.
+ */
+export const getMaxShortable = (state: GameState, region: RegionId, id: string) => {
+  if (state.marginCall) return 0;
+  const headroom = getNetEquity(state) / INITIAL_MARGIN - getShortExposure(state);
+  return Math.max(0, Math.floor(headroom / getPrice(state, region, id)));
+};
+
+export const openShort = (prev: GameState, region: RegionId, id: string, quantity: number): GameState => {
+  if (quantity <= 0 || quantity > getMaxShortable(prev, region, id)) return prev;
+  const price = getFillEstimate(prev, region, id, -quantity).price;
+  const proceeds = quantity * price;
+  const existing = prev.shortPositions.find(p => isPositionAt(p, region, id));
+  const position: ShortPosition = existing
+    ? { ...existing, quantity: existing.quantity + quantity, entryPrice: (existing.entryPrice * existing.quantity + proceeds) / (existing.quantity + quantity) }
+    : { commodityId: id, region, quantity, entryPrice: price, openedDay: prev.day };
+  return recordEntry({
+    ...prev,
+    cash: prev.cash + proceeds,
+    markets: applyImpact(prev.markets, region, id, -quantity),
+    shortPositions: existing ? prev.shortPositions.map(p => isPositionAt(p, region, id) ? position : p) : [...prev.shortPositions, position],
+    cycleLedger: { ...prev.cycleLedger, sales: prev.cycleLedger.sales + proceeds },
+    lifetime: { ...prev.lifetime, totalSales: prev.lifetime.totalSales + proceeds }
+  }, { kind: 'SHORT_SALE', commodityId: id, region, quantity, price, cashDelta: proceeds });
+};
+
+// Buying back is always allowed, even into negative cash, so a margin call can be cured
+export const coverShort = (prev: GameState, region: RegionId, id: string, quantity: number): GameState => {
+  const existing = prev.shortPositions.find(p => isPositionAt(p, region, id));
+  if (!existing || quantity <= 0) return prev;
+  const covered = Math.min(quantity, existing.quantity);
+  const price = getFillEstimate(prev, region, id, covered).price;
+  const cost = covered * price;
+  const realized = covered * existing.entryPrice - cost;
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - cost,
+    markets: applyImpact(prev.markets, region, id, covered),
+    inventory: prev.inventory.map(item => isItemAt(item, region, id) ? { ...item, realizedPnl: item.realizedPnl + realized } : item),
+    taxAccount: accrueGains(prev.taxAccount, 0, realized),
+    shortPositions: covered === existing.quantity
+      ? prev.shortPositions.filter(p => !isPositionAt(p, region, id))
+      : prev.shortPositions.map(p => isPositionAt(p, region, id) ? { ...p, quantity: p.quantity - covered } : p),
+    cycleLedger: { ...prev.cycleLedger, purchases: prev.cycleLedger.purchases + cost },
+    lifetime: { ...prev.lifetime, totalMarketPurchases: prev.lifetime.totalMarketPurchases + cost }
+  }, { kind: 'SHORT_COVER', commodityId: id, region, quantity: covered, price, cashDelta: -cost });
+};
+
+/**
+ * Daily margin account upkeep: charges borrow fees, then issues, clears or
+ * enforces margin calls. An uncured call past its deadline buys back every
+ * short at the day's price.
+ */
+export const processMargin = (prev: GameState, events: EngineEvent[]): GameState => {
+  if (prev.shortPositions.length === 0) {
+    if (prev.marginCall) events.push({ type: 'MARGIN_CALL_CLEARED', day: prev.day });
+    return prev.marginCall ? { ...prev, marginCall: null } : prev;
+  }
+
+  const borrowFee = getShortExposure(prev) * SHORT_BORROW_RATE;
+  let state = recordEntry({
+    ...prev,
+    cash: prev.cash - borrowFee,
+    lifetime: { ...prev.lifetime, totalBorrowFees: prev.lifetime.totalBorrowFees + borrowFee }
+  }, { kind: 'BORROW_FEE', cashDelta: -borrowFee });
+
+  const exposure = getShortExposure(state);
+  const equity = getNetEquity(state);
+  const belowMaintenance = equity < exposure * MAINTENANCE_MARGIN;
+
+  if (!belowMaintenance) {
+    if (state.marginCall) {
+      events.push({ type: 'MARGIN_CALL_CLEARED', day: state.day });
+      state = { ...state, marginCall: null };
+    }
+    return state;
+  }
+
+  if (state.marginCall && state.day >= state.marginCall.deadlineDay) {
+    const covered = state.shortPositions.map(p => ({ commodityId: p.commodityId, region: p.region, quantity: p.quantity, price: getFillEstimate(state, p.region, p.commodityId, p.quantity).price }));
+    covered.forEach(c => { state = coverShort(state, c.region, c.commodityId, c.quantity); });
+    events.push({ type: 'FORCED_LIQUIDATION', day: state.day, covered });
+    return { ...state, marginCall: null };
+  }
+
+  const shortfall = exposure * MAINTENANCE_MARGIN - equity;
+  if (state.marginCall) return { ...state, marginCall: { ...state.marginCall, shortfall } };
+
+  const call = { issuedDay: state.day, deadlineDay: state.day + MARGIN_CALL_GRACE, shortfall };
+  events.push({ type: 'MARGIN_CALL', day: state.day, call });
+  return { ...state, marginCall: call };
+};
@@ -0,0 +1,47 @@
+import { COMMODITIES, REGIONS, LOCAL_SHOCK_VOLATILITY, LOCAL_SHOCK_REVERSION } from '../constants';
+import { ActiveEvent, Commodity, GameState, MarketPrice, Region, RegionId } from '../types';
+import { Rng } from './rng';
+import { getLocalMultiplier } from './events';
+import { closeDay, createQuote } from './history';
+
+const getSpread = (region: Region, commodity: Commodity) => region.priceSpread[commodity.category] || 0;
+
+export const createInitialMarkets = (prices: Record<string, MarketPrice>): Record<RegionId, Record<string, MarketPrice>> => {
+  const markets = {} as Record<RegionId, Record<string, MarketPrice>>;
+  REGIONS.forEach(region => {
+    markets[region.id] = {};
+    COMMODITIES.forEach(c => {
+      markets[region.id][c.id] = createQuote(c.id, prices[c.id].currentPrice * (1 + getSpread(region, c)));
+    });
+  });
+  return markets;
+};
+
+/**
+ * Prices every regional exchange off the day's global index. Each quote is the
+ * index times the region's structural spread times a local premium; the
+ * premium is recovered from yesterday's quotes, so no extra state is kept.
+ */
+export const updateMarkets = (
+  prev: Pick<GameState, 'prices' | 'markets'>,
+  prices: Record<string, MarketPrice>,
+  activeEvents: ActiveEvent[],
+  rng: Rng
+): Record<RegionId, Record<string, MarketPrice>> => {
+  const markets = {} as Record<RegionId, Record<string, MarketPrice>>;
+  REGIONS.forEach(region => {
+    markets[region.id] = {};
+    COMMODITIES.forEach(c => {
+      const quote = prev.markets[region.id][c.id];
+      const anchor = 1 + getSpread(region, c);
+      const premium = quote.currentPrice / (prev.prices[c.id].currentPrice * anchor) - 1;
+      // Regional events pull the local premium toward their combined multiplier; otherwise it settles at zero
+      const target = getLocalMultiplier(activeEvents, 'price', c, region.id) - 1;
+      const volatility = LOCAL_SHOCK_VOLATILITY * getLocalMultiplier(activeEvents, 'volatility', c, region.id);
+      const nextPremium = premium + (target - premium) * LOCAL_SHOCK_REVERSION + (rng.next() - 0.5) * 2 * volatility;
+      const newPrice = Math.max(c.basePrice * 0.1, prices[c.id].currentPrice * anchor * (1 + nextPremium));
+      markets[region.id][c.id] = closeDay(quote, newPrice);
+    });
+  });
+  return markets;
+};
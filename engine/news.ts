@@ -0,0 +1,56 @@
+import { LEDGER_CYCLE, RUMOR_LEAD, RUMOR_CHANCE, RUMOR_ACCURACY, INTEL_ACCURACY, NEWS_HISTORY } from '../constants';
+import { EngineEvent, GameState, NewsItem, NewsKind } from '../types';
+import { Rng } from './rng';
+import { getEventDefinition, pickEvent } from './events';
+
+const publish = (state: GameState, kind: NewsKind, eventId: string, headline: string, rumor?: { reliability: number; expectedDay: number }): GameState => {
+  const item: NewsItem = {
+    id: state.nextNewsId,
+    day: state.day,
+    kind,
+    eventId,
+    headline,
+    reliability: rumor?.reliability ?? null,
+    expectedDay: rumor?.expectedDay ?? null
+  };
+  return { ...state, news: [...state.news, item].slice(-NEWS_HISTORY), nextNewsId: state.nextNewsId + 1 };
+};
+
+/**
+ * Rumors point at the next event roll. A true rumor queues its event for that
+ * day; a false one queues nothing. The published reliability is a noisy read
+ * of the truth, and a market intelligence subscription makes rumors both more
+ * often right and their scores less noisy.
+ */
+const spreadRumor = (prev: GameState, rng: Rng): GameState => {
+  const expectedDay = prev.day + RUMOR_LEAD;
+  const def = pickEvent(prev, expectedDay, rng);
+  if (!def) return prev;
+  const accuracy = prev.hasIntelligence ? INTEL_ACCURACY : RUMOR_ACCURACY;
+  const isTrue = rng.next() < accuracy;
+  const noise = prev.hasIntelligence ? 0.1 : 0.25;
+  const reliability = Math.min(0.95, Math.max(0.05, accuracy + (isTrue ? 0.15 : -0.15) + (rng.next() - 0.5) * 2 * noise));
+  const state = publish(prev, 'RUMOR', def.id, `Sources hint at ${def.name.toLowerCase()} within ${RUMOR_LEAD} days`, { reliability, expectedDay });
+  return {
+    ...state,
+    scheduledEvents: isTrue ? [...state.scheduledEvents, { eventId: def.id, day: expectedDay }] : state.scheduledEvents,
+    pendingRumors: [...state.pendingRumors, { newsId: prev.nextNewsId, eventId: def.id, expectedDay, isTrue }]
+  };
+};
+
+// Turns the day's event starts and ends into headlines, settles rumors that came due and may start a new one
+export const updateNews = (prev: GameState, rng: Rng, events: EngineEvent[]): GameState => {
+  let state = prev;
+  events.forEach(e => {
+    if (e.type === 'EVENT_STARTED') state = publish(state, 'BREAKING', e.event.eventId, getEventDefinition(e.event.eventId).name);
+    if (e.type === 'EVENT_ENDED') state = publish(state, 'ENDED', e.event.eventId, `${getEventDefinition(e.event.eventId).name} eases`);
+  });
+
+  state.pendingRumors.filter(r => r.expectedDay <= state.day && !r.isTrue).forEach(r => {
+    state = publish(state, 'DEBUNKED', r.eventId, `${getEventDefinition(r.eventId).name} rumor proves unfounded`);
+  });
+  state = { ...state, pendingRumors: state.pendingRumors.filter(r => r.expectedDay > state.day) };
+
+  if (state.cycleProgress === LEDGER_CYCLE - RUMOR_LEAD && rng.next() < RUMOR_CHANCE) state = spreadRumor(state, rng);
+  return state;
+};
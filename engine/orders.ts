@@ -0,0 +1,135 @@
+import { ORDER_FILL_HISTORY } from '../constants';
+import { GameState, EngineEvent, OrderCloseReason, OrderType, StandingOrder, OrderFill, RegionId } from '../types';
+import { executeTrade, getOwned } from './trading';
+import { recordEntry } from './journal';
+import { getCommodity, getPrice } from './economy';
+import { getFillEstimate, getMaxWithinLimit } from './liquidity';
+
+export const ORDER_LABELS: Record<OrderType, string> = {
+  BUY_LIMIT: 'Buy Limit',
+  SELL_LIMIT: 'Sell Limit',
+  STOP_LOSS: 'Stop-Loss',
+  TAKE_PROFIT: 'Take-Profit'
+};
+
+export const ORDER_CLOSE_REASONS: Record<OrderCloseReason, string> = {
+  EXPIRED: 'expired',
+  NO_INVENTORY: 'had no inventory to sell',
+  NO_CASH: 'could not be paid for',
+  NO_SPACE: 'had no storage space'
+};
+
+export const isBuyOrder = (type: OrderType) => type === 'BUY_LIMIT';
+
+// Limits never fill worse than their trigger; stops sell at whatever the book gives
+export const isLimitOrder = (type: OrderType) => type === 'BUY_LIMIT' || type === 'SELL_LIMIT';
+
+// Buy limits and stop-losses trigger on the way down; sell limits and take-profits on the way up
+export const isOrderTriggered = (order: StandingOrder, price: number) =>
+  order.type === 'BUY_LIMIT' || order.type === 'STOP_LOSS' ? price <= order.triggerPrice : price >= order.triggerPrice;
+
+export const placeOrder = (
+  prev: GameState,
+  region: RegionId,
+  commodityId: string,
+  type: OrderType,
+  quantity: number,
+  triggerPrice: number,
+  expiryDay: number | null
+): GameState => {
+  if (!prev.markets[region]?.[commodityId] || quantity <= 0 || !Number.isInteger(quantity) || triggerPrice <= 0) return prev;
+  if (expiryDay !== null && expiryDay <= prev.day) return prev;
+  const reservedCash = isBuyOrder(type) ? quantity * triggerPrice : 0;
+  if (isBuyOrder(type) && reservedCash > prev.cash) return prev;
+  const order: StandingOrder = {
+    id: `ORD-${prev.nextOrderId}`,
+    commodityId,
+    region,
+    type,
+    quantity,
+    triggerPrice,
+    placedDay: prev.day,
+    expiryDay,
+    reservedCash
+  };
+  const placed = { ...prev, orders: [...prev.orders, order], nextOrderId: prev.nextOrderId + 1 };
+  if (reservedCash === 0) return placed;
+  return recordEntry({ ...placed, cash: prev.cash - reservedCash }, {
+    kind: 'ORDER_ESCROW', commodityId, region, quantity, price: triggerPrice, cashDelta: -reservedCash, memo: order.id
+  });
+};
+
+export const cancelOrder = (prev: GameState, orderId: string): GameState => {
+  const order = prev.orders.find(o => o.id === orderId);
+  if (!order) return prev;
+  const removed = { ...prev, orders: prev.orders.filter(o => o.id !== orderId) };
+  if (order.reservedCash === 0) return removed;
+  return recordEntry({ ...removed, cash: prev.cash + order.reservedCash }, {
+    kind: 'ORDER_RELEASE', commodityId: order.commodityId, region: order.region, cashDelta: order.reservedCash, memo: order.id
+  });
+};
+
+// Puts the unfilled part of a limit order back on the book, escrowing a buy's share again
+const keepRemainder = (state: GameState, order: StandingOrder, quantity: number): GameState => {
+  const reservedCash = isBuyOrder(order.type) ? quantity * order.triggerPrice : 0;
+  const kept = { ...state, orders: [...state.orders, { ...order, quantity, reservedCash }] };
+  if (reservedCash === 0) return kept;
+  return recordEntry({ ...kept, cash: state.cash - reservedCash }, {
+    kind: 'ORDER_ESCROW', commodityId: order.commodityId, region: order.region, quantity, price: order.triggerPrice, cashDelta: -reservedCash, memo: order.id
+  });
+};
+
+/**
+ * Checks every open order against its exchange's closing price. Triggered orders
+ * trade against the local book like a market order, paying the spread and
+ * moving the quote; a limit fills only as much as averages within its trigger
+ * and keeps the rest open. Expired orders release their escrow, and sell orders
+ * fill whatever inventory is on hand, closing if there is none. A triggered buy
+ * the trade refuses closes too, so it does not re-trigger silently every day.
+ */
+export const processOrders = (prev: GameState, events: EngineEvent[]): GameState => {
+  let state = prev;
+  const fills: OrderFill[] = [];
+
+  prev.orders.forEach(order => {
+    const price = getPrice(state, order.region, order.commodityId);
+
+    if (order.expiryDay !== null && state.day > order.expiryDay) {
+      state = cancelOrder(state, order.id);
+      events.push({ type: 'ORDER_CLOSED', day: state.day, order, reason: 'EXPIRED' });
+      return;
+    }
+    if (!isOrderTriggered(order, price)) return;
+
+    const released = cancelOrder(state, order.id);
+    const side = isBuyOrder(order.type) ? 1 : -1;
+    const available = isBuyOrder(order.type) ? order.quantity : Math.min(order.quantity, getOwned(released, order.region, order.commodityId));
+    if (available <= 0) {
+      state = released;
+      events.push({ type: 'ORDER_CLOSED', day: state.day, order, reason: 'NO_INVENTORY' });
+      return;
+    }
+    const quantity = isLimitOrder(order.type)
+      ? getMaxWithinLimit(getCommodity(order.commodityId), price, side * available, order.triggerPrice)
+      : available;
+    // The spread alone can leave nothing within the limit; the order waits for a better close
+    if (quantity === 0) return;
+
+    const fillPrice = getFillEstimate(released, order.region, order.commodityId, side * quantity).price;
+    const filled = executeTrade(released, order.region, order.commodityId, side * quantity, `${ORDER_LABELS[order.type]} ${order.id}`);
+    // Escrow no longer covers the fill once cash has gone negative, or the local warehouse is full
+    if (filled === released) {
+      state = released;
+      const reason = released.cash < quantity * fillPrice ? 'NO_CASH' : 'NO_SPACE';
+      events.push({ type: 'ORDER_CLOSED', day: state.day, order, reason });
+      return;
+    }
+    state = quantity < available ? keepRemainder(filled, order, available - quantity) : filled;
+    const fill: OrderFill = { orderId: order.id, commodityId: order.commodityId, region: order.region, type: order.type, quantity, price: fillPrice, day: state.day };
+    fills.push(fill);
+    events.push({ type: 'ORDER_FILLED', day: state.day, fill });
+  });
+
+  if (fills.length === 0) return state;
+  return { ...state, orderFills: [...state.orderFills, ...fills].slice(-ORDER_FILL_HISTORY) };
+};
@@ -0,0 +1,116 @@
+import { COMMODITIES, PRICE_CORRELATIONS, SEASON_LENGTH } from '../constants';
+import { ActiveEvent, Commodity, MarketPrice, PriceModelConfig } from '../types';
+import { Rng } from './rng';
+import { getIndexMultiplier } from './events';
+import { closeDay } from './history';
+
+export interface PriceStep {
+  price: number;
+  // Where the price is drawn toward today: base price after season and events
+  target: number;
+  // Daily volatility after events
+  volatility: number;
+  // Standard normal shock, correlated across commodities
+  shock: number;
+  // For draws of the model's own, such as jumps
+  rng: Rng;
+}
+
+export interface PriceModel<C extends PriceModelConfig = PriceModelConfig> {
+  label: string;
+  next: (config: C, step: PriceStep) => number;
+}
+
+// Box-Muller; 1 - u keeps the log argument off zero
+const standardNormal = (rng: Rng) =>
+  Math.sqrt(-2 * Math.log(1 - rng.next())) * Math.cos(2 * Math.PI * rng.next());
+
+// Abramowitz-Stegun 7.1.26, accurate to about 1e-7
+const normalCdf = (z: number) => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return 0.5 * (1 + Math.sign(z) * erf);
+};
+
+// `volatility` is the half-width of the legacy uniform move; normal models use the same standard deviation
+const toSigma = (volatility: number) => volatility / Math.sqrt(3);
+
+const revertLog = (step: PriceStep, reversion: number) =>
+  Math.log(step.price) + reversion * (Math.log(step.target) - Math.log(step.price)) + toSigma(step.volatility) * step.shock;
+
+export const PRICE_MODELS: { [K in PriceModelConfig['kind']]: PriceModel<Extract<PriceModelConfig, { kind: K }>> } = {
+  // The original tick; the correlated shock is mapped back to a uniform draw
+  RANDOM_WALK: {
+    label: 'Random Walk',
+    next: (config, step) => {
+      const changePercent = (normalCdf(step.shock) - 0.5) * 2 * step.volatility;
+      return (step.price + (step.target - step.price) * config.gravity) * (1 + changePercent);
+    }
+  },
+  MEAN_REVERTING: {
+    label: 'Mean Reverting',
+    next: (config, step) => Math.exp(revertLog(step, config.reversion))
+  },
+  JUMP_DIFFUSION: {
+    label: 'Jump Diffusion',
+    next: (config, step) => {
+      const jump = step.rng.next() < config.jumpChance ? config.jumpMean + config.jumpVolatility * standardNormal(step.rng) : 0;
+      return Math.exp(revertLog(step, config.reversion) + jump);
+    }
+  }
+};
+
+const getModel = (config: PriceModelConfig) => PRICE_MODELS[config.kind] as PriceModel;
+
+// Lower-triangular factor of the correlation matrix, in COMMODITIES order
+const CHOLESKY = (() => {
+  const n = COMMODITIES.length;
+  const index = (id: string) => COMMODITIES.findIndex(c => c.id === id);
+  const corr: number[][] = COMMODITIES.map((_, i) => COMMODITIES.map((_, j) => (i === j ? 1 : 0)));
+  PRICE_CORRELATIONS.forEach(({ a, b, rho }) => {
+    corr[index(a)][index(b)] = rho;
+    corr[index(b)][index(a)] = rho;
+  });
+  const l = corr.map(row => row.map(() => 0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = corr[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      l[i][j] = i === j ? Math.sqrt(sum) : sum / l[j][j];
+    }
+  }
+  return l;
+})();
+
+const correlatedShocks = (rng: Rng) => {
+  const independent = COMMODITIES.map(() => standardNormal(rng));
+  return CHOLESKY.map(row => row.reduce((acc, weight, j) => acc + weight * independent[j], 0));
+};
+
+export const getSeasonalFactor = (commodity: Commodity, day: number) =>
+  commodity.seasonality ? 1 + commodity.seasonality.amplitude * Math.cos(2 * Math.PI * (day - commodity.seasonality.peakDay) / SEASON_LENGTH) : 1;
+
+/**
+ * Moves every global index by a day under its commodity's model. Shocks are
+ * drawn jointly so correlated commodities move together; the target carries
+ * the season and any worldwide events.
+ */
+export const stepPrices = (prev: Record<string, MarketPrice>, day: number, activeEvents: ActiveEvent[], rng: Rng): Record<string, MarketPrice> => {
+  const shocks = correlatedShocks(rng);
+  const next: Record<string, MarketPrice> = {};
+  COMMODITIES.forEach((c, i) => {
+    const price = prev[c.id];
+    // Regional events only move their own exchange; see updateMarkets
+    const step: PriceStep = {
+      price: price.currentPrice,
+      target: c.basePrice * getSeasonalFactor(c, day) * getIndexMultiplier(activeEvents, 'price', c),
+      volatility: c.volatility * getIndexMultiplier(activeEvents, 'volatility', c),
+      shock: shocks[i],
+      rng
+    };
+    const newPrice = Math.max(c.basePrice * 0.1, getModel(c.priceModel).next(c.priceModel, step));
+    next[c.id] = closeDay(price, newPrice);
+  });
+  return next;
+};
@@ -0,0 +1,182 @@
+import { BOOK_DEPRECIATION_RATE, FACILITY_WEAR_RATE, MAX_BREAKDOWN_CHANCE, OVERFLOW_DISCOUNT, PRODUCTION_IMPACT_SHARE, WORN_YIELD_SHARE } from '../constants';
+import { ActiveEvent, Commodity, CostMethod, EngineEvent, FacilityStats, GameState, InventoryItem, MarketPrice, ProductionFacility, RecipeInput, RecipeOption, RegionId } from '../types';
+import { addLot, removeUnits } from './lots';
+import { getCommodity, getDailyProductionCost, getProductionSpeed, getProductionYield, getBatchRunningCost, getItem, isItemAt } from './economy';
+import { getFreeCapacity } from './storage';
+import { JournalInput } from './journal';
+import { getYieldMultiplier } from './events';
+import { applyImpact } from './liquidity';
+import { Rng } from './rng';
+
+export const EMPTY_FACILITY_STATS: FacilityStats = { batches: 0, unitsProduced: 0, outputValue: 0, runningCosts: 0, inputCosts: 0, maintenanceCosts: 0 };
+
+export interface RecipeCheck {
+  // The option chosen for each input, in recipe order; empty if any input is short
+  consumption: RecipeOption[];
+  // Inputs no option can cover, with the units missing on the cheapest-to-fill option
+  shortfalls: { input: RecipeInput; option: RecipeOption; missing: number }[];
+}
+
+// Plants draw inputs from stock held in their own region
+export const checkRecipe = (commodity: Commodity, inventory: InventoryItem[], region: RegionId): RecipeCheck => {
+  const owned = (id: string) => getItem(inventory, region, id).quantity;
+  const consumption: RecipeOption[] = [];
+  const shortfalls: RecipeCheck['shortfalls'] = [];
+  (commodity.recipe || []).forEach(input => {
+    const available = input.options.find(o => owned(o.commodityId) >= o.quantity);
+    if (available) {
+      consumption.push(available);
+      return;
+    }
+    const closest = input.options
+      .map(option => ({ input, option, missing: option.quantity - owned(option.commodityId) }))
+      .sort((a, b) => a.missing / a.option.quantity - b.missing / b.option.quantity)[0];
+    shortfalls.push(closest);
+  });
+  return { consumption: shortfalls.length > 0 ? [] : consumption, shortfalls };
+};
+
+export const describeShortfall = (check: RecipeCheck) =>
+  check.shortfalls
+    .map(s => `${s.input.label}: need ${s.missing.toLocaleString()} more ${getCommodity(s.option.commodityId).name}`)
+    .join('; ');
+
+/**
+ * Removes a batch's inputs from inventory and returns what they cost, so the
+ * output can carry their basis. Assumes checkRecipe found no shortfall.
+ */
+export const consumeInputs = (inventory: InventoryItem[], region: RegionId, consumption: RecipeOption[], method: CostMethod) => {
+  let inputCost = 0;
+  const next = inventory.map(item => {
+    if (item.region !== region) return item;
+    const used = consumption.filter(o => o.commodityId === item.commodityId).reduce((acc, o) => acc + o.quantity, 0);
+    if (used === 0) return item;
+    const { item: remaining, costBasis } = removeUnits(item, used, method);
+    inputCost += costBasis;
+    return remaining;
+  });
+  return { inventory: next, inputCost };
+};
+
+// Share of normal yield left at this condition, falling linearly to WORN_YIELD_SHARE
+export const getConditionYield = (condition: number) => WORN_YIELD_SHARE + (1 - WORN_YIELD_SHARE) * condition;
+
+// Daily odds of a breakdown while producing; negligible when new, steep once worn
+export const getBreakdownChance = (condition: number) => MAX_BREAKDOWN_CHANCE * (1 - condition) ** 2;
+
+// Output of one batch at this site, after wear and any events hitting its yield
+export const getBatchYield = (facility: ProductionFacility, activeEvents: ActiveEvent[]) => {
+  const commodity = getCommodity(facility.commodityId);
+  const base = getProductionYield(commodity, facility.region);
+  const multiplier = getYieldMultiplier(activeEvents, commodity, facility.region) * getConditionYield(facility.condition);
+  return multiplier === 1 ? base : Math.max(1, Math.floor(base * multiplier));
+};
+
+export interface FacilityRun {
+  facilities: ProductionFacility[];
+  inventory: InventoryItem[];
+  // Local quotes after the day's output has weighed on them
+  markets: Record<RegionId, Record<string, MarketPrice>>;
+  postings: JournalInput[];
+  productionCost: number;
+  overflowSales: number;
+  // Realized on dumped output; operating profit for tax
+  overflowProfit: number;
+}
+
+/**
+ * Advances every facility by a day. Book value depreciates whatever the site
+ * is doing. A producing site may break down, halting it until serviced;
+ * otherwise running cost is only charged, and wear only taken, while a batch
+ * progresses. A batch that cannot draw its inputs holds where it is. Output
+ * that does not fit in local storage is dumped on the local market at a discount.
+ * New supply pushes the local price down: dumped units like a sale, stored
+ * units at PRODUCTION_IMPACT_SHARE of that.
+ */
+export const runFacilities = (
+  prev: GameState,
+  day: number,
+  initialMarkets: Record<RegionId, Record<string, MarketPrice>>,
+  hasNoCash: boolean,
+  activeEvents: ActiveEvent[],
+  rng: Rng,
+  events: EngineEvent[]
+): FacilityRun => {
+  let inventory = prev.inventory;
+  let markets = initialMarkets;
+  const facilities: ProductionFacility[] = [];
+  const postings: JournalInput[] = [];
+  let productionCost = 0;
+  let overflowSales = 0;
+  let overflowProfit = 0;
+
+  prev.facilities.forEach(site => {
+    const commodity = getCommodity(site.commodityId);
+    const facility = { ...site, bookValue: site.bookValue * (1 - BOOK_DEPRECIATION_RATE) };
+    if (!facility.isProducing || hasNoCash || facility.isBrokenDown) {
+      facilities.push({ ...facility, isProducing: facility.isProducing && !hasNoCash });
+      return;
+    }
+    if (rng.next() < getBreakdownChance(facility.condition)) {
+      events.push({ type: 'FACILITY_BROKE_DOWN', day, facilityId: facility.id, commodityId: commodity.id, region: facility.region });
+      facilities.push({ ...facility, isBrokenDown: true, stallReason: null });
+      return;
+    }
+
+    let newProgress = facility.progress + getProductionSpeed(facility.level);
+    let inputCost = 0;
+
+    if (newProgress >= 100) {
+      const check = checkRecipe(commodity, inventory, facility.region);
+      if (check.shortfalls.length > 0) {
+        const reason = describeShortfall(check);
+        if (!facility.stallReason) events.push({ type: 'PRODUCTION_STALLED', day, facilityId: facility.id, commodityId: commodity.id, reason });
+        facilities.push({ ...facility, stallReason: reason });
+        return;
+      }
+      const consumed = consumeInputs(inventory, facility.region, check.consumption, prev.costMethod);
+      inventory = consumed.inventory;
+      inputCost = consumed.inputCost;
+    }
+
+    const dailyCost = getDailyProductionCost(commodity, facility.region, facility.level);
+    productionCost += dailyCost;
+    postings.push({ kind: 'PRODUCTION', commodityId: commodity.id, region: facility.region, cashDelta: -dailyCost, memo: `${facility.name} running cost` });
+    let stats: FacilityStats = { ...facility.stats, runningCosts: facility.stats.runningCosts + dailyCost };
+
+    if (newProgress >= 100) {
+      const output = getBatchYield(facility, activeEvents);
+      const unitCost = (getBatchRunningCost(commodity, facility.region, facility.level) + inputCost) / output;
+      const stored = Math.min(output, Math.floor(getFreeCapacity({ warehouses: prev.warehouses, inventory, shipments: prev.shipments }, facility.region, commodity.category)));
+      const overflow = output - stored;
+      const localPrice = markets[facility.region][commodity.id].currentPrice;
+      const dumpPrice = localPrice * OVERFLOW_DISCOUNT;
+      const proceeds = overflow * dumpPrice;
+
+      inventory = inventory.map(i => {
+        if (!isItemAt(i, facility.region, commodity.id)) return i;
+        const withOutput = addLot(i, stored, unitCost, day, 'PRODUCTION');
+        return overflow > 0 ? { ...withOutput, realizedPnl: withOutput.realizedPnl + proceeds - overflow * unitCost } : withOutput;
+      });
+      stats = {
+        ...stats,
+        batches: stats.batches + 1,
+        unitsProduced: stats.unitsProduced + output,
+        outputValue: stats.outputValue + output * localPrice,
+        inputCosts: stats.inputCosts + inputCost
+      };
+      markets = applyImpact(markets, facility.region, commodity.id, -(stored * PRODUCTION_IMPACT_SHARE + overflow));
+      events.push({ type: 'PRODUCTION_COMPLETED', day, facilityId: facility.id, commodityId: commodity.id, quantity: output });
+      if (overflow > 0) {
+        overflowSales += proceeds;
+        overflowProfit += proceeds - overflow * unitCost;
+        postings.push({ kind: 'OVERFLOW_SALE', commodityId: commodity.id, region: facility.region, quantity: overflow, price: dumpPrice, cashDelta: proceeds, memo: `${facility.name}: storage full` });
+        events.push({ type: 'PRODUCTION_OVERFLOW', day, facilityId: facility.id, commodityId: commodity.id, quantity: overflow, proceeds });
+      }
+      newProgress = newProgress % 100;
+    }
+    facilities.push({ ...facility, progress: newProgress, stallReason: null, stats, condition: Math.max(0, facility.condition - FACILITY_WEAR_RATE) });
+  });
+
+  return { facilities, inventory, markets, postings, productionCost, overflowSales, overflowProfit };
+};
@@ -0,0 +1,26 @@
+export interface Rng {
+  /** Uniform float in [0, 1) — the drop-in replacement for Math.random(). */
+  next(): number;
+  /** Current internal state; persisted on GameState so a run resumes deterministically. */
+  readonly state: number;
+}
+
+// mulberry32: tiny, fast and good enough for game economics.
+export const createRng = (seed: number): Rng => {
+  let s = seed >>> 0;
+  return {
+    next() {
+      s = (s + 0x6D2B79F5) >>> 0;
+      let t = s;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    get state() {
+      return s;
+    }
+  };
+};
+
+// Only used to pick a seed for a fresh run; the simulation itself never touches Math.random().
+export const randomSeed = (): number => (Date.now() ^ Math.floor(Math.random() * 0xFFFFFFFF)) >>> 0;
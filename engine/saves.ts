@@ -0,0 +1,283 @@
+import { Commodity, CommodityCategory, GameState, MarketPrice, RegionId, SaveFile } from '../types';
+import { COMMODITIES, REGIONS, EVENTS_POOL, DEFAULT_TAX_REGIME, INITIAL_REPUTATION } from '../constants';
+import { getTotalInvested, getWarehouseInvested } from './economy';
+import { createInitialMarkets } from './markets';
+import { EMPTY_FACILITY_STATS } from './production';
+import { createTaxAccount } from './tax';
+
+export const SAVE_SCHEMA_VERSION = 18;
+
+type RawState = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawState => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Readers for the fields a migration step relies on; a save without them fails to load rather than loading half-upgraded
+const malformed = (what: string) => new Error(`Save state has a malformed ${what}`);
+
+const readRecord = (value: unknown, what: string): RawState => {
+  if (!isRecord(value)) throw malformed(what);
+  return value;
+};
+
+const readArray = (value: unknown, what: string): unknown[] => {
+  if (!Array.isArray(value)) throw malformed(what);
+  return value;
+};
+
+const readRecords = (value: unknown, what: string): RawState[] => readArray(value, what).map(item => readRecord(item, what));
+
+const readNumber = (value: unknown, what: string): number => {
+  if (typeof value !== 'number') throw malformed(what);
+  return value;
+};
+
+const readCommodity = (value: unknown): Commodity => {
+  const commodity = COMMODITIES.find(c => c.id === value);
+  if (!commodity) throw malformed('commodity id');
+  return commodity;
+};
+
+const readRegion = (value: unknown): RegionId => {
+  const region = REGIONS.find(r => r.id === value);
+  if (!region) throw malformed('region');
+  return region.id;
+};
+
+const readCategory = (value: unknown): CommodityCategory => {
+  const category = Object.values(CommodityCategory).find(c => c === value);
+  if (!category) throw malformed('commodity category');
+  return category;
+};
+
+// Markets rebuilt by the v9 step already hold bars, so only plain closes are converted
+const toBars = (quotes: unknown): RawState => Object.fromEntries(Object.entries(readRecord(quotes, 'price table')).map(([id, value]) => {
+  const quote = readRecord(value, 'quote');
+  const history = readArray(quote.history, 'price history');
+  return [id, {
+    ...quote,
+    history: history.map((close, i) => {
+      if (typeof close !== 'number') return close;
+      const open = i > 0 ? readNumber(history[i - 1], 'price history') : close;
+      return [open, Math.max(open, close), Math.min(open, close), close];
+    })
+  }];
+}));
+
+/**
+ * MIGRATIONS[n] upgrades a version-n state to version n + 1. Whenever a field
+ * is added to GameState (or anything nested in it), bump SAVE_SCHEMA_VERSION
+ * and add the step that fills it in for older saves.
+ */
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // v1 -> v2: engine extraction moved the ledger refs and the RNG into state
+  1: state => ({
+    ...state,
+    cycleLedger: { sales: 0, purchases: 0, productionCosts: 0, net: 0 },
+    seed: 0,
+    rngState: 0
+  }),
+  // v2 -> v3: standing order book
+  2: state => ({ ...state, orders: [], orderFills: [], nextOrderId: 1 }),
+  // v3 -> v4: short positions and the margin account
+  3: state => ({
+    ...state,
+    shortPositions: [],
+    marginCall: null,
+    lifetime: { ...readRecord(state.lifetime, 'lifetime'), totalBorrowFees: 0 }
+  }),
+  // v4 -> v5: cost basis lots; units from before tracking are booked at the saved price
+  4: state => {
+    const prices = readRecord(state.prices, 'prices');
+    return {
+      ...state,
+      costMethod: 'FIFO',
+      inventory: readRecords(state.inventory, 'inventory').map(item => {
+        const quantity = readNumber(item.quantity, 'inventory');
+        return {
+          ...item,
+          lots: quantity > 0
+            ? [{ quantity, unitCost: readRecord(prices[readCommodity(item.commodityId).id], 'prices').currentPrice, acquiredDay: state.day, source: 'MARKET' }]
+            : [],
+          realizedPnl: 0
+        };
+      })
+    };
+  },
+  // v5 -> v6: transaction journal starts empty for older runs
+  5: state => ({ ...state, journal: [] }),
+  // v6 -> v7: facilities report why a batch is stalled on inputs
+  6: state => ({ ...state, facilities: readRecords(state.facilities, 'facilities').map(f => ({ ...f, stallReason: null })) }),
+  // v7 -> v8: warehouses, storage fees and spoilage
+  7: state => ({
+    ...state,
+    warehouses: [],
+    lastLedger: { ...readRecord(state.lastLedger, 'ledger'), storageCosts: 0, spoilageLosses: 0 },
+    cycleLedger: { ...readRecord(state.cycleLedger, 'ledger'), storageCosts: 0, spoilageLosses: 0 },
+    lifetime: { ...readRecord(state.lifetime, 'lifetime'), totalStorageFees: 0, totalSpoilageLosses: 0 }
+  }),
+  // v8 -> v9: facilities get ids and sites; the one-per-commodity plants were all in the Americas
+  8: state => {
+    const facilities = readRecords(state.facilities, 'facilities');
+    return {
+      ...state,
+      facilities: facilities.map((f, i) => ({
+        ...f,
+        id: `FAC-${i + 1}`,
+        name: `Americas ${readCommodity(f.commodityId).name} #1`,
+        region: 'AMERICAS'
+      })),
+      nextFacilityId: facilities.length + 1
+    };
+  },
+  // v9 -> v10: regional exchanges; everything held so far sat in the Americas
+  9: state => {
+    const inAmericas = (x: RawState) => ({ ...x, region: 'AMERICAS' });
+    return {
+      ...state,
+      // Only each quote's current price is read
+      markets: createInitialMarkets(readRecord(state.prices, 'prices') as Record<string, MarketPrice>),
+      inventory: REGIONS.flatMap(r => readRecords(state.inventory, 'inventory').map(item =>
+        r.id === 'AMERICAS' ? inAmericas(item) : { commodityId: item.commodityId, region: r.id, quantity: 0, lots: [], realizedPnl: 0 })),
+      warehouses: readRecords(state.warehouses, 'warehouses').map(inAmericas),
+      shortPositions: readRecords(state.shortPositions, 'short positions').map(inAmericas),
+      orders: readRecords(state.orders, 'orders').map(inAmericas),
+      orderFills: readRecords(state.orderFills, 'order fills').map(inAmericas),
+      journal: readRecords(state.journal, 'journal').map(e => ({ ...e, region: null })),
+      shipments: [],
+      nextShipmentId: 1,
+      lastLedger: { ...readRecord(state.lastLedger, 'ledger'), shippingCosts: 0 },
+      cycleLedger: { ...readRecord(state.cycleLedger, 'ledger'), shippingCosts: 0 },
+      lifetime: { ...readRecord(state.lifetime, 'lifetime'), totalShippingCosts: 0 }
+    };
+  },
+  // v10 -> v11: the single credit line becomes a loan book; any balance carries over as a revolver
+  10: ({ debt, ...state }) => ({
+    ...state,
+    loans: readNumber(debt, 'debt') > 0
+      ? [{ id: 'LN-1', product: 'REVOLVER', balance: debt, rate: 0.015, originatedDay: state.day, installment: null, nextDueDay: null, maturityDay: null, missedPayments: 0, collateralFacilityId: null }]
+      : [],
+    nextLoanId: 2,
+    creditHistory: { onTimePayments: 0, missedPayments: 0 }
+  }),
+  // v11 -> v12: data-driven events; a running event is matched to its definition by name
+  11: ({ activeEvent, ...state }) => {
+    const event = isRecord(activeEvent) ? activeEvent : null;
+    const def = event && EVENTS_POOL.find(e => e.name === event.name);
+    return {
+      ...state,
+      activeEvents: event && def
+        ? [{
+          eventId: def.id,
+          startedDay: readNumber(state.day, 'day') - (readNumber(event.duration, 'event') - readNumber(event.remainingDays, 'event')),
+          duration: event.duration,
+          remainingDays: event.remainingDays
+        }]
+        : [],
+      eventCooldowns: {},
+      scheduledEvents: []
+    };
+  },
+  // v12 -> v13: news feed, rumors and the market intelligence subscription
+  12: state => ({
+    ...state,
+    news: [],
+    nextNewsId: 1,
+    pendingRumors: [],
+    hasIntelligence: false,
+    lifetime: { ...readRecord(state.lifetime, 'lifetime'), totalSubscriptionFees: 0 }
+  }),
+  // v13 -> v14: OHLC bars; each saved close opens at the one before it
+  13: state => ({
+    ...state,
+    prices: toBars(state.prices),
+    markets: Object.fromEntries(Object.entries(readRecord(state.markets, 'markets')).map(([region, quotes]) => [region, toBars(quotes)])),
+    eventHistory: []
+  }),
+  // v14 -> v15: net worth history starts at the next day played; facility stats start from zero
+  14: state => ({
+    ...state,
+    netWorthHistory: [],
+    facilities: readRecords(state.facilities, 'facilities').map(f => ({ ...f, stats: EMPTY_FACILITY_STATS }))
+  }),
+  // v15 -> v16: the wealth tax gives way to filed income and gains tax; existing capex starts its schedule undepreciated
+  15: ({ taxRate, ...state }) => ({
+    ...state,
+    taxRegime: DEFAULT_TAX_REGIME,
+    taxPayment: 'PAY',
+    taxAccount: {
+      ...createTaxAccount(DEFAULT_TAX_REGIME),
+      periodStartDay: state.day,
+      journalStart: readArray(state.journal, 'journal').length,
+      warehouseBasis: readRecords(state.warehouses, 'warehouses')
+        .reduce((acc, w) => acc + getWarehouseInvested(readCategory(w.category), readNumber(w.level, 'warehouse level')), 0)
+    },
+    taxFilings: [],
+    facilities: readRecords(state.facilities, 'facilities')
+      .map(f => ({ ...f, taxBasis: getTotalInvested(readCommodity(f.commodityId), readRegion(f.region), readNumber(f.level, 'facility level')) }))
+  }),
+  // v16 -> v17: facility wear and book value; existing sites start freshly serviced and booked at what was spent on them
+  16: state => ({
+    ...state,
+    facilities: readRecords(state.facilities, 'facilities').map(f => ({
+      ...f,
+      condition: 1,
+      isBrokenDown: false,
+      bookValue: getTotalInvested(readCommodity(f.commodityId), readRegion(f.region), readNumber(f.level, 'facility level')),
+      stats: { ...readRecord(f.stats, 'facility stats'), maintenanceCosts: 0 }
+    })),
+    lifetime: { ...readRecord(state.lifetime, 'lifetime'), totalMaintenance: 0 },
+    taxFilings: readRecords(state.taxFilings, 'tax filings').map(f => ({ ...f, deductions: { ...readRecord(f.deductions, 'tax filing'), maintenance: 0 } }))
+  }),
+  // v17 -> v18: client contracts and reputation; older runs start with an empty board
+  17: state => ({
+    ...state,
+    reputation: INITIAL_REPUTATION,
+    contractOffers: [],
+    contracts: [],
+    contractHistory: [],
+    nextContractId: 1,
+    lifetime: { ...readRecord(state.lifetime, 'lifetime'), totalContractPenalties: 0 }
+  })
+};
+
+export const migrateState = (state: RawState, fromVersion: number): GameState => {
+  let migrated = state;
+  for (let v = fromVersion; v < SAVE_SCHEMA_VERSION; v++) {
+    const step = MIGRATIONS[v];
+    if (!step) throw new Error(`No migration from save version ${v}`);
+    migrated = step(migrated);
+  }
+  // Every step has run, so the state now has the current schema's shape
+  return migrated as unknown as GameState;
+};
+
+export const createSaveFile = (state: GameState, name: string, savedAt: Date = new Date()): SaveFile => ({
+  version: SAVE_SCHEMA_VERSION,
+  name,
+  savedAt: savedAt.toISOString(),
+  state
+});
+
+export const serializeSave = (save: SaveFile) => JSON.stringify(save);
+
+// Parses and upgrades a save from any supported version; throws on anything unreadable.
+export const parseSave = (json: string): SaveFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch {
+    throw new Error('Save file is not valid JSON');
+  }
+  if (!isRecord(raw) || typeof raw.version !== 'number' || !isRecord(raw.state)) {
+    throw new Error('Save file is missing its version or state');
+  }
+  if (raw.version > SAVE_SCHEMA_VERSION) {
+    throw new Error(`Save version ${raw.version} is newer than this build supports (${SAVE_SCHEMA_VERSION})`);
+  }
+  return {
+    version: SAVE_SCHEMA_VERSION,
+    name: typeof raw.name === 'string' ? raw.name : 'Imported Save',
+    savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date(0).toISOString(),
+    state: migrateState(raw.state, raw.version)
+  };
+};
@@ -0,0 +1,59 @@
+import { SHIPPING_DAYS, FREIGHT_RATE } from '../constants';
+import { Commodity, EngineEvent, GameState, RegionId, Shipment } from '../types';
+import { addLot, removeUnits } from './lots';
+import { recordEntry } from './journal';
+import { getCommodity, getItem, isItemAt } from './economy';
+import { getFreeCapacity } from './storage';
+import { getOwned } from './trading';
+
+export const getShippingDays = (from: RegionId, to: RegionId) => SHIPPING_DAYS[from][to];
+
+// Freight per unit grows with the length of the voyage
+export const getFreightPerUnit = (commodity: Commodity, from: RegionId, to: RegionId) =>
+  commodity.basePrice * FREIGHT_RATE * getShippingDays(from, to);
+
+/**
+ * Loads units onto a ship bound for another region. Freight is paid up front
+ * and folded into the cargo's cost basis; room is reserved at the destination
+ * so the cargo always has somewhere to land.
+ */
+export const shipGoods = (prev: GameState, id: string, from: RegionId, to: RegionId, quantity: number): GameState => {
+  if (from === to || quantity <= 0 || !Number.isInteger(quantity)) return prev;
+  const commodity = getCommodity(id);
+  const freight = quantity * getFreightPerUnit(commodity, from, to);
+  if (getOwned(prev, from, id) < quantity || prev.cash < freight) return prev;
+  if (quantity > getFreeCapacity(prev, to, commodity.category)) return prev;
+
+  const { item: remaining, costBasis } = removeUnits(getItem(prev.inventory, from, id), quantity, prev.costMethod);
+  const shipment: Shipment = {
+    id: `SHP-${prev.nextShipmentId}`,
+    commodityId: id,
+    from,
+    to,
+    quantity,
+    unitCost: (costBasis + freight) / quantity,
+    departedDay: prev.day,
+    arrivalDay: prev.day + getShippingDays(from, to)
+  };
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - freight,
+    inventory: prev.inventory.map(item => isItemAt(item, from, id) ? remaining : item),
+    shipments: [...prev.shipments, shipment],
+    nextShipmentId: prev.nextShipmentId + 1,
+    cycleLedger: { ...prev.cycleLedger, shippingCosts: prev.cycleLedger.shippingCosts + freight },
+    lifetime: { ...prev.lifetime, totalShippingCosts: prev.lifetime.totalShippingCosts + freight }
+  }, { kind: 'SHIPPING', commodityId: id, region: from, quantity, price: freight / quantity, cashDelta: -freight, memo: `${shipment.id} to ${to}` });
+};
+
+// Unloads every shipment due today into its destination's inventory
+export const processShipments = (prev: GameState, events: EngineEvent[]): GameState => {
+  const arrived = prev.shipments.filter(s => s.arrivalDay <= prev.day);
+  if (arrived.length === 0) return prev;
+  let inventory = prev.inventory;
+  arrived.forEach(s => {
+    inventory = inventory.map(item => isItemAt(item, s.to, s.commodityId) ? addLot(item, s.quantity, s.unitCost, prev.day, 'SHIPMENT') : item);
+    events.push({ type: 'SHIPMENT_ARRIVED', day: prev.day, shipment: s });
+  });
+  return { ...prev, inventory, shipments: prev.shipments.filter(s => s.arrivalDay > prev.day) };
+};
@@ -0,0 +1,328 @@
+import { COMMODITIES, REGIONS, INITIAL_CASH, INITIAL_REPUTATION, DEFAULT_TAX_REGIME, TAX_CYCLE, LEDGER_CYCLE, INTEL_DAILY_FEE } from '../constants';
+import { GameState, GameAction, EngineEvent, StepResult, MarketPrice, DailyLedger, ProductionFacility, RegionId } from '../types';
+import { Rng, createRng } from './rng';
+import { executeTrade, getOwned } from './trading';
+import { getShorted, openShort, coverShort, processMargin } from './margin';
+import { placeOrder, cancelOrder, processOrders } from './orders';
+import { EMPTY_FACILITY_STATS, runFacilities } from './production';
+import { recordSnapshot } from './analytics';
+import { expandWarehouse, processStorage } from './storage';
+import { createInitialMarkets, updateMarkets } from './markets';
+import { createQuote } from './history';
+import { shipGoods, processShipments } from './shipping';
+import { takeLoan, repayLoan, processLoans, isPledged } from './credit';
+import { rollEvents } from './events';
+import { stepPrices } from './priceModels';
+import { updateNews } from './news';
+import { JournalInput, recordEntry, postEntry } from './journal';
+import { getCommodity, getRegion, getUnlockCost, getUpgradeCost, getServiceCost } from './economy';
+import { accrueGains, createTaxAccount, payDeferredTax, processTaxes, recordDisposal } from './tax';
+import { acceptContract, processContracts, walkAwayFromContract } from './contracts';
+
+const EMPTY_LEDGER: DailyLedger = { sales: 0, purchases: 0, productionCosts: 0, storageCosts: 0, shippingCosts: 0, spoilageLosses: 0, net: 0 };
+
+export const createInitialState = (seed: number): GameState => {
+  const initialPrices: Record<string, MarketPrice> = {};
+  COMMODITIES.forEach(c => {
+    initialPrices[c.id] = createQuote(c.id, c.basePrice);
+  });
+
+  // The opening balance sheet is the first point of the net worth history
+  return recordSnapshot({
+    cash: INITIAL_CASH,
+    loans: [],
+    nextLoanId: 1,
+    creditHistory: { onTimePayments: 0, missedPayments: 0 },
+    day: 1,
+    cycleProgress: 0,
+    inventory: REGIONS.flatMap(r => COMMODITIES.map(c => ({ commodityId: c.id, region: r.id, quantity: 0, lots: [], realizedPnl: 0 }))),
+    costMethod: 'FIFO',
+    facilities: [],
+    warehouses: [],
+    prices: initialPrices,
+    markets: createInitialMarkets(initialPrices),
+    shipments: [],
+    nextShipmentId: 1,
+    lastLedger: EMPTY_LEDGER,
+    journal: [],
+    netWorthHistory: [],
+    lifetime: {
+      totalSales: 0,
+      totalMarketPurchases: 0,
+      totalProductionCosts: 0,
+      totalConstruction: 0,
+      totalUpgrades: 0,
+      totalMaintenance: 0,
+      totalInterestPaid: 0,
+      totalTaxesPaid: 0,
+      totalBorrowFees: 0,
+      totalStorageFees: 0,
+      totalShippingCosts: 0,
+      totalSubscriptionFees: 0,
+      totalSpoilageLosses: 0,
+      totalContractPenalties: 0
+    },
+    activeEvents: [],
+    eventHistory: [],
+    eventCooldowns: {},
+    scheduledEvents: [],
+    news: [],
+    nextNewsId: 1,
+    pendingRumors: [],
+    hasIntelligence: false,
+    taxRegime: DEFAULT_TAX_REGIME,
+    taxPayment: 'PAY',
+    taxAccount: createTaxAccount(DEFAULT_TAX_REGIME),
+    taxFilings: [],
+    nextTaxDay: TAX_CYCLE,
+    cycleLedger: EMPTY_LEDGER,
+    shortPositions: [],
+    marginCall: null,
+    orders: [],
+    orderFills: [],
+    nextOrderId: 1,
+    reputation: INITIAL_REPUTATION,
+    contractOffers: [],
+    contracts: [],
+    contractHistory: [],
+    nextContractId: 1,
+    nextFacilityId: 1,
+    seed,
+    rngState: seed
+  });
+};
+
+/**
+ * Runs one simulated day: price models and regional quotes, event rolls,
+ * facility progress, the tax filing when due, loan servicing, arrivals, order
+ * checks, contract deliveries and offers, margin checks, storage upkeep, ledger
+ * rollover, the net worth snapshot and the news feed.
+ * Pure apart from the rng it is given.
+ */
+export const advanceDay = (prev: GameState, rng: Rng): StepResult => {
+  const events: EngineEvent[] = [];
+  const nextDay = prev.day + 1;
+  // Cash movements, posted to the journal in order once the day is assembled
+  const postings: JournalInput[] = [];
+
+  const nextPrices = stepPrices(prev.prices, nextDay, prev.activeEvents, rng);
+  const nextMarkets = updateMarkets(prev, nextPrices, prev.activeEvents, rng);
+
+  const nextCycleProgress = prev.cycleProgress + 1;
+  const calendar = rollEvents(prev, nextDay, nextCycleProgress, rng, events);
+
+  const subscriptionFee = prev.hasIntelligence ? INTEL_DAILY_FEE : 0;
+  if (subscriptionFee > 0) postings.push({ kind: 'SUBSCRIPTION', cashDelta: -subscriptionFee, memo: 'Market intelligence' });
+
+  const run = runFacilities(prev, nextDay, nextMarkets, prev.cash <= 0, calendar.activeEvents, rng, events);
+  postings.push(...run.postings);
+
+  const nextState: GameState = {
+    ...prev,
+    day: nextDay,
+    cycleProgress: nextCycleProgress,
+    prices: nextPrices,
+    markets: run.markets,
+    inventory: run.inventory,
+    facilities: run.facilities,
+    cycleLedger: {
+      ...prev.cycleLedger,
+      sales: prev.cycleLedger.sales + run.overflowSales,
+      productionCosts: prev.cycleLedger.productionCosts + run.productionCost
+    },
+    ...calendar,
+    taxAccount: accrueGains(prev.taxAccount, run.overflowProfit, 0),
+    lifetime: {
+      ...prev.lifetime,
+      totalSales: prev.lifetime.totalSales + run.overflowSales,
+      totalProductionCosts: prev.lifetime.totalProductionCosts + run.productionCost,
+      totalSubscriptionFees: prev.lifetime.totalSubscriptionFees + subscriptionFee
+    }
+  };
+
+  let state = postings.reduce(postEntry, nextState);
+  state = processTaxes(state, events);
+  state = processLoans(state, events);
+  state = processShipments(state, events);
+  state = processOrders(state, events);
+  state = processContracts(state, rng, events);
+  state = processMargin(state, events);
+  state = processStorage(state, rng, events);
+  state = closeLedger(state, events);
+  state = recordSnapshot(state);
+  state = updateNews(state, rng, events);
+  return { state: { ...state, rngState: rng.state }, events };
+};
+
+// Rolls the running cycle totals into lastLedger every LEDGER_CYCLE days
+const closeLedger = (prev: GameState, events: EngineEvent[]): GameState => {
+  if (prev.cycleProgress < LEDGER_CYCLE) return prev;
+  const c = prev.cycleLedger;
+  const ledger: DailyLedger = { ...c, net: c.sales - c.purchases - c.productionCosts - c.storageCosts - c.shippingCosts };
+  events.push({ type: 'LEDGER_CLOSED', day: prev.day, ledger });
+  return { ...prev, cycleProgress: 0, lastLedger: ledger, cycleLedger: EMPTY_LEDGER };
+};
+
+/**
+ * A market order from the trade slider on one regional exchange. Buys cover
+ * any short there first and sells go short once the local position is used
+ * up; each leg is all-or-nothing.
+ */
+const marketTrade = (prev: GameState, region: RegionId, id: string, quantity: number): GameState => {
+  if (quantity > 0) {
+    const toCover = Math.min(quantity, getShorted(prev, region, id));
+    const toBuy = quantity - toCover;
+    const covered = coverShort(prev, region, id, toCover);
+    if (toBuy === 0) return covered;
+    // Covering lifts the quote first, so the buy leg is priced after it
+    const bought = executeTrade(covered, region, id, toBuy);
+    return bought === covered ? prev : bought;
+  }
+  const toSell = Math.min(-quantity, getOwned(prev, region, id));
+  const toShort = -quantity - toSell;
+  const sold = executeTrade(prev, region, id, -toSell);
+  if (toShort === 0) return sold;
+  const shorted = openShort(sold, region, id, toShort);
+  return shorted === sold ? prev : shorted;
+};
+
+const unlockFacility = (prev: GameState, id: string, region: RegionId): GameState => {
+  const commodity = getCommodity(id);
+  const cost = getUnlockCost(commodity, region);
+  if (prev.cash < cost) return prev;
+  const siteNumber = prev.facilities.filter(f => f.commodityId === id && f.region === region).length + 1;
+  const facility: ProductionFacility = {
+    id: `FAC-${prev.nextFacilityId}`,
+    name: `${getRegion(region).name} ${commodity.name} #${siteNumber}`,
+    commodityId: id,
+    region,
+    level: 1,
+    isProducing: true,
+    progress: 0,
+    stallReason: null,
+    stats: EMPTY_FACILITY_STATS,
+    condition: 1,
+    isBrokenDown: false,
+    bookValue: cost,
+    taxBasis: cost
+  };
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - cost,
+    facilities: [...prev.facilities, facility],
+    nextFacilityId: prev.nextFacilityId + 1,
+    lifetime: { ...prev.lifetime, totalConstruction: prev.lifetime.totalConstruction + cost }
+  }, { kind: 'CONSTRUCTION', commodityId: id, region, cashDelta: -cost, memo: facility.name });
+};
+
+const upgradeFacility = (prev: GameState, facilityId: string): GameState => {
+  const facility = prev.facilities.find(f => f.id === facilityId);
+  if (!facility) return prev;
+  const upgradeCost = getUpgradeCost(getCommodity(facility.commodityId), facility.region, facility.level);
+  if (prev.cash < upgradeCost) return prev;
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - upgradeCost,
+    facilities: prev.facilities.map(f => f.id === facilityId ? { ...f, level: f.level + 1, bookValue: f.bookValue + upgradeCost, taxBasis: f.taxBasis + upgradeCost } : f),
+    lifetime: { ...prev.lifetime, totalUpgrades: prev.lifetime.totalUpgrades + upgradeCost }
+  }, { kind: 'UPGRADE', commodityId: facility.commodityId, region: facility.region, cashDelta: -upgradeCost, memo: `${facility.name} to level ${facility.level + 1}` });
+};
+
+const sellFacility = (prev: GameState, facilityId: string): GameState => {
+  const facility = prev.facilities.find(f => f.id === facilityId);
+  // A facility pledged against a loan cannot be sold until the loan is cleared
+  if (!facility || isPledged(prev, facilityId)) return prev;
+  const refund = Math.floor(facility.bookValue);
+  return recordEntry({
+    ...prev,
+    cash: prev.cash + refund,
+    facilities: prev.facilities.filter(f => f.id !== facilityId),
+    taxAccount: recordDisposal(prev.taxAccount, facility, refund)
+  }, { kind: 'FACILITY_SALE', commodityId: facility.commodityId, region: facility.region, cashDelta: refund, memo: `${facility.name} (level ${facility.level})` });
+};
+
+// Restores full condition and clears any breakdown in one visit
+const serviceFacility = (prev: GameState, facilityId: string): GameState => {
+  const facility = prev.facilities.find(f => f.id === facilityId);
+  if (!facility || (facility.condition >= 1 && !facility.isBrokenDown)) return prev;
+  const cost = getServiceCost(facility);
+  if (prev.cash < cost) return prev;
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - cost,
+    facilities: prev.facilities.map(f => f.id === facilityId
+      ? { ...f, condition: 1, isBrokenDown: false, stats: { ...f.stats, maintenanceCosts: f.stats.maintenanceCosts + cost } }
+      : f),
+    lifetime: { ...prev.lifetime, totalMaintenance: prev.lifetime.totalMaintenance + cost }
+  }, { kind: 'MAINTENANCE', commodityId: facility.commodityId, region: facility.region, cashDelta: -cost, memo: `${facility.name}${facility.isBrokenDown ? ' breakdown repair' : ''} at ${(facility.condition * 100).toFixed(0)}% condition` });
+};
+
+const toggleProduction = (prev: GameState, facilityId: string): GameState => ({
+  ...prev,
+  facilities: prev.facilities.map(f => f.id === facilityId ? { ...f, isProducing: !f.isProducing } : f)
+});
+
+/**
+ * The single entry point for changing a run. Invalid actions return the
+ * state untouched, matching how the buttons silently ignore them.
+ */
+export const applyAction = (state: GameState, action: GameAction): StepResult => {
+  switch (action.type) {
+    case 'ADVANCE_DAY':
+      return advanceDay(state, createRng(state.rngState));
+    case 'TRADE':
+      return { state: marketTrade(state, action.region, action.commodityId, action.quantity), events: [] };
+    case 'SHIP':
+      return { state: shipGoods(state, action.commodityId, action.from, action.to, action.quantity), events: [] };
+    case 'UNLOCK_FACILITY':
+      return { state: unlockFacility(state, action.commodityId, action.region), events: [] };
+    case 'UPGRADE_FACILITY':
+      return { state: upgradeFacility(state, action.facilityId), events: [] };
+    case 'SELL_FACILITY':
+      return { state: sellFacility(state, action.facilityId), events: [] };
+    case 'SERVICE_FACILITY':
+      return { state: serviceFacility(state, action.facilityId), events: [] };
+    case 'TOGGLE_PRODUCTION':
+      return { state: toggleProduction(state, action.facilityId), events: [] };
+    case 'TAKE_LOAN':
+      return { state: takeLoan(state, action.product, action.amount, action.termDays, action.collateralFacilityId), events: [] };
+    case 'REPAY':
+      return { state: repayLoan(state, action.loanId, action.amount), events: [] };
+    case 'PLACE_ORDER':
+      return { state: placeOrder(state, action.region, action.commodityId, action.orderType, action.quantity, action.triggerPrice, action.expiryDay), events: [] };
+    case 'CANCEL_ORDER':
+      return { state: cancelOrder(state, action.orderId), events: [] };
+    case 'SET_INTELLIGENCE':
+      return { state: { ...state, hasIntelligence: action.enabled }, events: [] };
+    case 'SET_COST_METHOD':
+      return { state: { ...state, costMethod: action.method }, events: [] };
+    case 'BUILD_WAREHOUSE':
+      return { state: expandWarehouse(state, action.region, action.category, false), events: [] };
+    case 'UPGRADE_WAREHOUSE':
+      return { state: expandWarehouse(state, action.region, action.category, true), events: [] };
+    case 'SET_TAX_REGIME':
+      return { state: { ...state, taxRegime: action.regimeId }, events: [] };
+    case 'SET_TAX_PAYMENT':
+      return { state: { ...state, taxPayment: action.mode }, events: [] };
+    case 'PAY_TAX':
+      return { state: payDeferredTax(state, action.amount), events: [] };
+    case 'ACCEPT_CONTRACT':
+      return { state: acceptContract(state, action.contractId), events: [] };
+    case 'CANCEL_CONTRACT': {
+      const events: EngineEvent[] = [];
+      return { state: walkAwayFromContract(state, action.contractId, events), events };
+    }
+  }
+};
+
+// Replays an action list from a seed; the same inputs always yield the same GameState.
+export const runActions = (seed: number, actions: GameAction[]): StepResult => {
+  let state = createInitialState(seed);
+  const events: EngineEvent[] = [];
+  actions.forEach(action => {
+    const result = applyAction(state, action);
+    state = result.state;
+    events.push(...result.events);
+  });
+  return { state, events };
+};
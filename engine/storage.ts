@@ -0,0 +1,96 @@
+import { WAREHOUSE_SPECS } from '../constants';
+import { CommodityCategory, EngineEvent, GameState, InventoryItem, RegionId } from '../types';
+import { Rng } from './rng';
+import { getCommodity, getWarehouseCost, isItemAt } from './economy';
+import { removeUnits } from './lots';
+import { recordEntry, postEntry } from './journal';
+import { accrueGains } from './tax';
+
+export const getWarehouseLevel = (state: Pick<GameState, 'warehouses'>, region: RegionId, category: CommodityCategory) =>
+  state.warehouses.find(w => w.region === region && w.category === category)?.level || 0;
+
+export const getCapacity = (state: Pick<GameState, 'warehouses'>, region: RegionId, category: CommodityCategory) => {
+  const spec = WAREHOUSE_SPECS[category];
+  return spec.baseCapacity + spec.capacityPerLevel * getWarehouseLevel(state, region, category);
+};
+
+export const getStoredUnits = (inventory: InventoryItem[], region: RegionId, category: CommodityCategory) =>
+  inventory.reduce((acc, item) => acc + (item.region === region && getCommodity(item.commodityId).category === category ? item.quantity : 0), 0);
+
+// Space already promised to shipments on their way in
+export const getInboundUnits = (state: Pick<GameState, 'shipments'>, region: RegionId, category: CommodityCategory) =>
+  state.shipments.reduce((acc, s) => acc + (s.to === region && getCommodity(s.commodityId).category === category ? s.quantity : 0), 0);
+
+export const getFreeCapacity = (state: Pick<GameState, 'warehouses' | 'inventory' | 'shipments'>, region: RegionId, category: CommodityCategory) =>
+  Math.max(0, getCapacity(state, region, category) - getStoredUnits(state.inventory, region, category) - getInboundUnits(state, region, category));
+
+export const expandWarehouse = (prev: GameState, region: RegionId, category: CommodityCategory, isUpgrade: boolean): GameState => {
+  const level = getWarehouseLevel(prev, region, category);
+  if (isUpgrade ? level === 0 : level > 0) return prev;
+  const cost = getWarehouseCost(category, level);
+  if (prev.cash < cost) return prev;
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - cost,
+    taxAccount: { ...prev.taxAccount, warehouseBasis: prev.taxAccount.warehouseBasis + cost },
+    warehouses: level === 0
+      ? [...prev.warehouses, { region, category, level: 1 }]
+      : prev.warehouses.map(w => w.region === region && w.category === category ? { ...w, level: w.level + 1 } : w),
+    lifetime: isUpgrade
+      ? { ...prev.lifetime, totalUpgrades: prev.lifetime.totalUpgrades + cost }
+      : { ...prev.lifetime, totalConstruction: prev.lifetime.totalConstruction + cost }
+  }, { kind: 'WAREHOUSE', region, cashDelta: -cost, memo: `${category} warehouse level ${level + 1}` });
+};
+
+// Rounds fractional spoilage up or down at random so small holdings still decay on average
+const rollUnits = (expected: number, rng: Rng) => Math.floor(expected) + (rng.next() < expected % 1 ? 1 : 0);
+
+/**
+ * Daily storage upkeep: charges the per-unit fee on everything held, then
+ * spoils perishable stock. Spoiled units leave by the run's cost method, oldest
+ * lots first under FIFO or at the pooled cost under AVERAGE, and are written
+ * off at that cost basis against realized P&L.
+ */
+export const processStorage = (prev: GameState, rng: Rng, events: EngineEvent[]): GameState => {
+  let state = prev;
+  let storageCosts = 0;
+  let spoilageLosses = 0;
+
+  prev.inventory.forEach(item => {
+    if (item.quantity <= 0) return;
+    const commodity = getCommodity(item.commodityId);
+    const spec = WAREHOUSE_SPECS[commodity.category];
+
+    const fee = item.quantity * spec.storageFee;
+    if (fee > 0) {
+      storageCosts += fee;
+      state = postEntry(state, { kind: 'STORAGE_FEE', commodityId: item.commodityId, region: item.region, quantity: item.quantity, price: spec.storageFee, cashDelta: -fee });
+    }
+
+    const spoiled = Math.min(item.quantity, rollUnits(item.quantity * spec.spoilageRate, rng));
+    if (spoiled <= 0) return;
+    const { item: remaining, costBasis, produced } = removeUnits(item, spoiled, state.costMethod);
+    spoilageLosses += costBasis;
+    state = recordEntry({
+      ...state,
+      inventory: state.inventory.map(i => isItemAt(i, item.region, item.commodityId) ? { ...remaining, realizedPnl: remaining.realizedPnl - costBasis } : i),
+      taxAccount: accrueGains(state.taxAccount, -produced.costBasis, produced.costBasis - costBasis)
+    }, { kind: 'SPOILAGE', commodityId: item.commodityId, region: item.region, quantity: spoiled, price: costBasis / spoiled, cashDelta: 0 });
+    events.push({ type: 'SPOILAGE', day: state.day, region: item.region, commodityId: item.commodityId, quantity: spoiled, loss: costBasis });
+  });
+
+  if (storageCosts === 0 && spoilageLosses === 0) return state;
+  return {
+    ...state,
+    cycleLedger: {
+      ...state.cycleLedger,
+      storageCosts: state.cycleLedger.storageCosts + storageCosts,
+      spoilageLosses: state.cycleLedger.spoilageLosses + spoilageLosses
+    },
+    lifetime: {
+      ...state.lifetime,
+      totalStorageFees: state.lifetime.totalStorageFees + storageCosts,
+      totalSpoilageLosses: state.lifetime.totalSpoilageLosses + spoilageLosses
+    }
+  };
+};
@@ -0,0 +1,175 @@
+import { COMMODITIES, REGIONS, STRATEGY_HISTORY_DAYS } from '../constants';
+import { CommodityCategory, GameAction, GameState, RegionId, SupplyContract } from '../types';
+import { getCommodity, getNetEquity, getServiceCost, getTotalDebt, getUpgradeCost } from './economy';
+import { getAsk, getBid } from './liquidity';
+import { getAverageCost } from './lots';
+import { getClose } from './history';
+import { getFreeCapacity } from './storage';
+import { getOwned } from './trading';
+import { getEventDefinition } from './events';
+
+export interface StrategyQuote {
+  price: number;
+  bid: number;
+  ask: number;
+  trend: 'up' | 'down' | 'stable';
+  // Recent closes, oldest first; the last one is today's
+  history: number[];
+}
+
+/**
+ * What a strategy sees each tick. Plain data only, so it can be copied into a
+ * sandbox; nothing a strategy does to it reaches the run.
+ */
+export interface StrategyView {
+  day: number;
+  cash: number;
+  equity: number;
+  debt: number;
+  commodities: { id: string; name: string; category: CommodityCategory; basePrice: number }[];
+  markets: Record<RegionId, Record<string, StrategyQuote>>;
+  // `free` leaves out stock reserved for supply contracts; selling more than that opens a short
+  inventory: { commodityId: string; region: RegionId; quantity: number; free: number; averageCost: number }[];
+  shorts: { commodityId: string; region: RegionId; quantity: number; entryPrice: number }[];
+  freeCapacity: Record<RegionId, Record<CommodityCategory, number>>;
+  facilities: { id: string; name: string; commodityId: string; region: RegionId; level: number; isProducing: boolean; stallReason: string | null; upgradeCost: number; condition: number; isBrokenDown: boolean; bookValue: number; serviceCost: number }[];
+  events: { id: string; name: string; remainingDays: number; commodityId?: string; category?: CommodityCategory; region?: RegionId }[];
+  reputation: number;
+  // Open offers and accepted contracts; `reserved` is what is already set aside for delivery
+  contractOffers: StrategyContract[];
+  contracts: StrategyContract[];
+}
+
+export interface StrategyContract {
+  id: string;
+  commodityId: string;
+  region: RegionId;
+  quantity: number;
+  price: number;
+  penalty: number;
+  minReputation: number;
+  deadlineDay: number;
+  reserved: number;
+}
+
+const toStrategyContract = (c: SupplyContract): StrategyContract => ({
+  id: c.id,
+  commodityId: c.commodityId,
+  region: c.region,
+  quantity: c.quantity,
+  price: c.price,
+  penalty: c.penalty,
+  minReputation: c.minReputation,
+  deadlineDay: c.deadlineDay,
+  reserved: c.reserved
+});
+
+// Orders and facility actions a strategy may return; region defaults to the first exchange
+export type StrategyDecision =
+  | { type: 'BUY' | 'SELL'; commodity: string; quantity: number; region?: RegionId }
+  | { type: 'BUILD'; commodity: string; region?: RegionId }
+  | { type: 'UPGRADE' | 'SELL_FACILITY' | 'SERVICE' | 'START' | 'STOP'; facilityId: string }
+  | { type: 'ACCEPT_CONTRACT' | 'WALK_AWAY'; contractId: string };
+
+export const createStrategyView = (state: GameState): StrategyView => {
+  const byRegion = <T>(make: (region: RegionId) => T) =>
+    Object.fromEntries(REGIONS.map(r => [r.id, make(r.id)])) as Record<RegionId, T>;
+  return {
+    day: state.day,
+    cash: state.cash,
+    equity: getNetEquity(state),
+    debt: getTotalDebt(state),
+    commodities: COMMODITIES.map(c => ({ id: c.id, name: c.name, category: c.category, basePrice: c.basePrice })),
+    markets: byRegion(region => Object.fromEntries(COMMODITIES.map(c => {
+      const quote = state.markets[region][c.id];
+      return [c.id, {
+        price: quote.currentPrice,
+        bid: getBid(c, quote.currentPrice),
+        ask: getAsk(c, quote.currentPrice),
+        trend: quote.trend,
+        history: quote.history.slice(-STRATEGY_HISTORY_DAYS).map(getClose)
+      }];
+    }))),
+    inventory: state.inventory
+      .filter(i => i.quantity > 0)
+      .map(i => ({ commodityId: i.commodityId, region: i.region, quantity: i.quantity, free: getOwned(state, i.region, i.commodityId), averageCost: getAverageCost(i) })),
+    shorts: state.shortPositions.map(p => ({ commodityId: p.commodityId, region: p.region, quantity: p.quantity, entryPrice: p.entryPrice })),
+    freeCapacity: byRegion(region => Object.fromEntries(
+      Object.values(CommodityCategory).map(category => [category, getFreeCapacity(state, region, category)])
+    ) as Record<CommodityCategory, number>),
+    facilities: state.facilities.map(f => ({
+      id: f.id,
+      name: f.name,
+      commodityId: f.commodityId,
+      region: f.region,
+      level: f.level,
+      isProducing: f.isProducing,
+      stallReason: f.stallReason,
+      upgradeCost: getUpgradeCost(getCommodity(f.commodityId), f.region, f.level),
+      condition: f.condition,
+      isBrokenDown: f.isBrokenDown,
+      bookValue: f.bookValue,
+      serviceCost: getServiceCost(f)
+    })),
+    events: state.activeEvents.map(e => {
+      const def = getEventDefinition(e.eventId);
+      return { id: e.eventId, name: def.name, remainingDays: e.remainingDays, ...def.target };
+    }),
+    reputation: state.reputation,
+    contractOffers: state.contractOffers.map(toStrategyContract),
+    contracts: state.contracts.map(toStrategyContract)
+  };
+};
+
+export type ConvertedDecision = { action: GameAction; label: string } | { error: string };
+
+/**
+ * Checks the shape of one returned decision and turns it into an engine
+ * action. Strategies are untrusted, so anything malformed comes back as an
+ * error for the bot's log; affordability is left to validateAction.
+ */
+export const toGameAction = (decision: unknown, state: GameState): ConvertedDecision => {
+  if (typeof decision !== 'object' || decision === null) return { error: 'Decision is not an object' };
+  const d = decision as Record<string, unknown>;
+  const region = d.region === undefined ? REGIONS[0].id : REGIONS.find(r => r.id === d.region)?.id;
+  if (!region) return { error: `Unknown region ${JSON.stringify(d.region)}` };
+  const commodity = COMMODITIES.find(c => c.id === d.commodity);
+
+  switch (d.type) {
+    case 'BUY':
+    case 'SELL': {
+      if (!commodity) return { error: `Unknown commodity ${JSON.stringify(d.commodity)}` };
+      const quantity = d.quantity;
+      if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity <= 0) return { error: `${d.type} quantity must be a positive whole number` };
+      return {
+        action: { type: 'TRADE', region, commodityId: commodity.id, quantity: d.type === 'BUY' ? quantity : -quantity },
+        label: `${d.type} ${quantity} ${commodity.id} in ${region}`
+      };
+    }
+    case 'BUILD':
+      if (!commodity) return { error: `Unknown commodity ${JSON.stringify(d.commodity)}` };
+      return { action: { type: 'UNLOCK_FACILITY', commodityId: commodity.id, region }, label: `BUILD ${commodity.id} in ${region}` };
+    case 'UPGRADE':
+    case 'SELL_FACILITY':
+    case 'SERVICE':
+    case 'START':
+    case 'STOP': {
+      const facility = state.facilities.find(f => f.id === d.facilityId);
+      if (!facility) return { error: `No facility ${JSON.stringify(d.facilityId)}` };
+      const label = `${d.type} ${facility.name}`;
+      if (d.type === 'UPGRADE') return { action: { type: 'UPGRADE_FACILITY', facilityId: facility.id }, label };
+      if (d.type === 'SELL_FACILITY') return { action: { type: 'SELL_FACILITY', facilityId: facility.id }, label };
+      if (d.type === 'SERVICE') return { action: { type: 'SERVICE_FACILITY', facilityId: facility.id }, label };
+      if (facility.isProducing === (d.type === 'START')) return { error: `${facility.name} is already ${facility.isProducing ? 'producing' : 'stopped'}` };
+      return { action: { type: 'TOGGLE_PRODUCTION', facilityId: facility.id }, label };
+    }
+    case 'ACCEPT_CONTRACT':
+      if (!state.contractOffers.some(c => c.id === d.contractId)) return { error: `No open offer ${JSON.stringify(d.contractId)}` };
+      return { action: { type: 'ACCEPT_CONTRACT', contractId: d.contractId as string }, label: `ACCEPT_CONTRACT ${d.contractId}` };
+    case 'WALK_AWAY':
+      if (!state.contracts.some(c => c.id === d.contractId)) return { error: `No accepted contract ${JSON.stringify(d.contractId)}` };
+      return { action: { type: 'CANCEL_CONTRACT', contractId: d.contractId as string }, label: `WALK_AWAY ${d.contractId}` };
+    default:
+      return { error: `Unknown decision type ${JSON.stringify(d.type)}` };
+  }
+};
@@ -0,0 +1,166 @@
+import { TAX_CYCLE, TAX_FILING_HISTORY, TAX_REGIMES } from '../constants';
+import { EngineEvent, GameState, ProductionFacility, TaxAccount, TaxBracket, TaxDeductions, TaxFiling, TaxRegimeId } from '../types';
+import { getRateMultiplier } from './events';
+import { recordEntry } from './journal';
+
+const DUST = 0.01;
+
+export const createTaxAccount = (regimeId: TaxRegimeId): TaxAccount => ({
+  regimeId,
+  periodStartDay: 1,
+  journalStart: 0,
+  operatingProfit: 0,
+  capitalGains: 0,
+  operatingLosses: 0,
+  capitalLosses: 0,
+  warehouseBasis: 0,
+  deferred: 0
+});
+
+// Each bracket taxes only the slice of income that falls inside it
+export const getBracketTax = (income: number, brackets: TaxBracket[]) => {
+  let lower = 0;
+  let tax = 0;
+  brackets.forEach(b => {
+    const upper = b.upTo ?? Infinity;
+    if (income > lower) tax += (Math.min(income, upper) - lower) * b.rate;
+    lower = upper;
+  });
+  return tax;
+};
+
+// Books realized results into the open period; gains may be negative
+export const accrueGains = (account: TaxAccount, operating: number, capital: number): TaxAccount =>
+  operating === 0 && capital === 0 ? account : {
+    ...account,
+    operatingProfit: account.operatingProfit + operating,
+    capitalGains: account.capitalGains + capital
+  };
+
+// A facility leaving the books realizes what it fetched against its undepreciated basis
+export const recordDisposal = (account: TaxAccount, facility: ProductionFacility, proceeds: number): TaxAccount =>
+  accrueGains(account, 0, proceeds - facility.taxBasis);
+
+/**
+ * What the open period can deduct from operating profit: this filing's slice
+ * of the capex schedule plus the running costs the journal holds since the
+ * period began. Production costs are already in the cost basis of the output,
+ * freight in shipped goods and spoilage in realized P&L, so none appear here.
+ * Late fees are penalties and do not count.
+ */
+export const getDeductions = (state: GameState): TaxDeductions => {
+  const { depreciationRate } = TAX_REGIMES[state.taxAccount.regimeId];
+  const capex = state.facilities.reduce((acc, f) => acc + f.taxBasis, state.taxAccount.warehouseBasis);
+  const deductions: TaxDeductions = { depreciation: capex * depreciationRate, maintenance: 0, interest: 0, storageFees: 0, borrowFees: 0, subscriptions: 0 };
+  state.journal.slice(state.taxAccount.journalStart).forEach(e => {
+    if (e.kind === 'INTEREST') deductions.interest += e.debtDelta;
+    else if (e.kind === 'MAINTENANCE') deductions.maintenance -= e.cashDelta;
+    else if (e.kind === 'STORAGE_FEE') deductions.storageFees -= e.cashDelta;
+    else if (e.kind === 'BORROW_FEE') deductions.borrowFees -= e.cashDelta;
+    else if (e.kind === 'SUBSCRIPTION') deductions.subscriptions -= e.cashDelta;
+  });
+  return deductions;
+};
+
+export const getTotalDeductions = (d: TaxDeductions) =>
+  d.depreciation + d.maintenance + d.interest + d.storageFees + d.borrowFees + d.subscriptions;
+
+// Offsets a period's result against losses carried in; a loss adds to the carry instead
+const offsetLosses = (result: number, carried: number) => {
+  if (result < 0) return { taxable: 0, used: 0, carried: carried - result };
+  const used = Math.min(result, carried);
+  return { taxable: result - used, used, carried: carried - used };
+};
+
+/**
+ * Assesses the open period as if it were filed today, paying from cash if the
+ * payment mode allows. The filing itself and the running estimate both use it.
+ */
+export const assessTaxes = (state: GameState): TaxFiling => {
+  const account = state.taxAccount;
+  const regime = TAX_REGIMES[account.regimeId];
+  const rateMultiplier = getRateMultiplier(state.activeEvents, 'taxRate');
+  const deductions = getDeductions(state);
+  const income = offsetLosses(account.operatingProfit - getTotalDeductions(deductions), account.operatingLosses);
+  const gains = offsetLosses(account.capitalGains, account.capitalLosses);
+  const incomeTax = getBracketTax(income.taxable, regime.brackets) * rateMultiplier;
+  const capitalGainsTax = gains.taxable * regime.capitalGainsRate * rateMultiplier;
+  const due = incomeTax + capitalGainsTax;
+  const penalty = account.deferred * regime.deferralPenaltyRate;
+  const owed = account.deferred + penalty + due;
+  const paid = state.taxPayment === 'PAY' ? Math.min(owed, Math.max(0, state.cash)) : 0;
+  return {
+    day: state.day,
+    periodStartDay: account.periodStartDay,
+    regimeId: account.regimeId,
+    operatingProfit: account.operatingProfit,
+    deductions,
+    operatingLossUsed: income.used,
+    taxableIncome: income.taxable,
+    incomeTax,
+    capitalGains: account.capitalGains,
+    capitalLossUsed: gains.used,
+    taxableGains: gains.taxable,
+    capitalGainsTax,
+    rateMultiplier,
+    due,
+    penalty,
+    paid,
+    deferredBalance: owed - paid < DUST ? 0 : owed - paid,
+    operatingLossCarried: income.carried,
+    capitalLossCarried: gains.carried
+  };
+};
+
+/**
+ * Files the period once the audit day comes round: pays what the mode and
+ * cash allow, defers the rest, writes capex down by the schedule and opens
+ * the next period under whichever regime is elected by then.
+ */
+export const processTaxes = (prev: GameState, events: EngineEvent[]): GameState => {
+  if (prev.day < prev.nextTaxDay) return prev;
+  const filing = assessTaxes(prev);
+  const writeDown = 1 - TAX_REGIMES[prev.taxAccount.regimeId].depreciationRate;
+  events.push({ type: 'TAX_FILED', day: prev.day, filing });
+
+  const penaltyMemo = filing.penalty > 0 ? `, penalty $${filing.penalty.toFixed(0)}` : '';
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - filing.paid,
+    facilities: prev.facilities.map(f => ({ ...f, taxBasis: f.taxBasis * writeDown })),
+    taxAccount: {
+      regimeId: prev.taxRegime,
+      periodStartDay: prev.day,
+      // The filing's own entry is the next one and is not deductible either way
+      journalStart: prev.journal.length,
+      operatingProfit: 0,
+      capitalGains: 0,
+      operatingLosses: filing.operatingLossCarried,
+      capitalLosses: filing.capitalLossCarried,
+      warehouseBasis: prev.taxAccount.warehouseBasis * writeDown,
+      deferred: filing.deferredBalance
+    },
+    taxFilings: [...prev.taxFilings, filing].slice(-TAX_FILING_HISTORY),
+    nextTaxDay: prev.nextTaxDay + TAX_CYCLE,
+    lifetime: { ...prev.lifetime, totalTaxesPaid: prev.lifetime.totalTaxesPaid + filing.paid }
+  }, {
+    kind: 'TAX',
+    cashDelta: -filing.paid,
+    debtDelta: filing.deferredBalance - prev.taxAccount.deferred,
+    memo: `Days ${filing.periodStartDay}-${filing.day}: income tax $${filing.incomeTax.toFixed(0)}, gains tax $${filing.capitalGainsTax.toFixed(0)}${penaltyMemo}`
+  });
+};
+
+// Settles deferred tax early, stopping the penalty on whatever is paid
+export const payDeferredTax = (prev: GameState, amount: number): GameState => {
+  const owed = prev.taxAccount.deferred;
+  const paid = Math.min(amount, owed, Math.max(0, prev.cash));
+  if (paid <= 0) return prev;
+  const deferred = owed - paid < DUST ? 0 : owed - paid;
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - paid,
+    taxAccount: { ...prev.taxAccount, deferred },
+    lifetime: { ...prev.lifetime, totalTaxesPaid: prev.lifetime.totalTaxesPaid + paid }
+  }, { kind: 'TAX', cashDelta: -paid, debtDelta: deferred - owed, memo: 'Deferred tax' });
+};
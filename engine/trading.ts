@@ -0,0 +1,54 @@
+import { GameState, InventoryItem, RegionId } from '../types';
+import { addLot, removeUnits } from './lots';
+import { recordEntry } from './journal';
+import { getFreeCapacity } from './storage';
+import { getCommodity, getItem, getReservedUnits, isItemAt } from './economy';
+import { applyImpact, getFillEstimate } from './liquidity';
+import { accrueGains } from './tax';
+
+/**
+ * Books a trade on a regional exchange: positive quantity buys, negative sells.
+ * Every trade, standing order fills included, walks the local book and moves
+ * the quote. Returns the state untouched if cash, the regional position or
+ * local storage space do not cover it.
+ */
+export const executeTrade = (prev: GameState, region: RegionId, id: string, quantity: number, memo?: string): GameState => {
+  const price = getFillEstimate(prev, region, id, quantity).price;
+  const totalCost = quantity * price;
+  if (quantity === 0) return prev;
+  if (quantity > 0 && prev.cash < totalCost) return prev;
+  if (quantity > 0 && quantity > getFreeCapacity(prev, region, getCommodity(id).category)) return prev;
+  if (quantity < 0 && getOwned(prev, region, id) < Math.abs(quantity)) return prev;
+  // Own output sold where it was made is operating profit; the rest of a sale is a capital gain
+  let taxAccount = prev.taxAccount;
+  const settle = (item: InventoryItem): InventoryItem => {
+    if (quantity > 0) return addLot(item, quantity, price, prev.day, 'MARKET');
+    const { item: remaining, costBasis, produced } = removeUnits(item, -quantity, prev.costMethod);
+    const realized = Math.abs(totalCost) - costBasis;
+    const operating = produced.quantity * price - produced.costBasis;
+    taxAccount = accrueGains(taxAccount, operating, realized - operating);
+    return { ...remaining, realizedPnl: remaining.realizedPnl + realized };
+  };
+  const inventory = prev.inventory.map(item => isItemAt(item, region, id) ? settle(item) : item);
+  return recordEntry({
+    ...prev,
+    cash: prev.cash - totalCost,
+    markets: applyImpact(prev.markets, region, id, quantity),
+    inventory,
+    taxAccount,
+    cycleLedger: {
+      ...prev.cycleLedger,
+      purchases: quantity > 0 ? prev.cycleLedger.purchases + totalCost : prev.cycleLedger.purchases,
+      sales: quantity < 0 ? prev.cycleLedger.sales + Math.abs(totalCost) : prev.cycleLedger.sales
+    },
+    lifetime: {
+      ...prev.lifetime,
+      totalSales: quantity < 0 ? prev.lifetime.totalSales + Math.abs(totalCost) : prev.lifetime.totalSales,
+      totalMarketPurchases: quantity > 0 ? prev.lifetime.totalMarketPurchases + totalCost : prev.lifetime.totalMarketPurchases
+    }
+  }, { kind: quantity > 0 ? 'BUY' : 'SELL', commodityId: id, region, quantity: Math.abs(quantity), price, cashDelta: -totalCost, memo });
+};
+
+// Units free to sell or ship; stock reserved for supply contracts is held back
+export const getOwned = (state: GameState, region: RegionId, id: string) =>
+  Math.max(0, getItem(state.inventory, region, id).quantity - getReservedUnits(state, region, id));
@@ -0,0 +1,147 @@
+import { TAX_REGIMES, TERM_LENGTHS } from '../constants';
+import { CommodityCategory, GameAction, GameState, LoanProduct, OrderType, RegionId } from '../types';
+import { getCommodity, getRegion, getServiceCost, getUnlockCost, getUpgradeCost, getWarehouseCost } from './economy';
+import { executeTrade, getOwned } from './trading';
+import { coverShort, getMaxShortable, getShorted } from './margin';
+import { getFillEstimate } from './liquidity';
+import { getFreeCapacity, getWarehouseLevel } from './storage';
+import { getFreightPerUnit } from './shipping';
+import { getAvailableCredit, getMaxSecured, isPledged } from './credit';
+import { isBuyOrder } from './orders';
+
+const money = (value: number) => `$${value.toLocaleString(undefined, { maximumFractionDigits: 0 })}`;
+
+const lacksCash = (state: GameState, cost: number, what: string) =>
+  state.cash < cost ? `Insufficient cash: ${what} costs ${money(cost)}, ${money(Math.max(0, state.cash))} available` : null;
+
+const lacksSpace = (state: GameState, region: RegionId, category: CommodityCategory, quantity: number) => {
+  const free = getFreeCapacity(state, region, category);
+  return quantity > free ? `Not enough ${category} storage in ${getRegion(region).name}: ${free} units free` : null;
+};
+
+// Walks the same legs as the market order so each check sees the state the engine will
+const checkTrade = (state: GameState, region: RegionId, id: string, quantity: number) => {
+  if (quantity === 0) return 'Quantity must not be zero';
+  const name = getCommodity(id).name;
+  if (quantity > 0) {
+    const toCover = Math.min(quantity, getShorted(state, region, id));
+    const toBuy = quantity - toCover;
+    if (toBuy === 0) return null;
+    const covered = coverShort(state, region, id, toCover);
+    return lacksSpace(covered, region, getCommodity(id).category, toBuy)
+      ?? lacksCash(covered, toBuy * getFillEstimate(covered, region, id, toBuy).price, `${toBuy} ${name}`);
+  }
+  const owned = getOwned(state, region, id);
+  const toShort = -quantity - Math.min(-quantity, owned);
+  if (toShort === 0) return null;
+  const sold = executeTrade(state, region, id, -Math.min(-quantity, owned));
+  if (sold.marginCall) return 'Margin call outstanding: no new shorts until it is cleared';
+  const shortable = getMaxShortable(sold, region, id);
+  return toShort > shortable ? `Only ${owned} ${name} held and margin allows ${shortable} more short` : null;
+};
+
+const checkLoan = (state: GameState, product: LoanProduct, amount: number, termDays?: number, collateralFacilityId?: string) => {
+  if (!(amount > 0)) return 'Loan amount must be positive';
+  if (product === 'SECURED') {
+    const collateral = state.facilities.find(f => f.id === collateralFacilityId);
+    if (!collateral) return 'No facility to secure the loan against';
+    if (isPledged(state, collateral.id)) return `${collateral.name} is already pledged`;
+    const limit = getMaxSecured(state, collateral);
+    return amount > limit ? `${collateral.name} secures at most ${money(limit)}` : null;
+  }
+  if (product === 'TERM' && (termDays === undefined || !TERM_LENGTHS.includes(termDays))) return `Term must be ${TERM_LENGTHS.join(', ')} days`;
+  const available = getAvailableCredit(state);
+  return amount > available ? `Exceeds available credit of ${money(available)}` : null;
+};
+
+const checkShipment = (state: GameState, id: string, from: RegionId, to: RegionId, quantity: number) => {
+  if (from === to) return 'Origin and destination must differ';
+  if (quantity <= 0 || !Number.isInteger(quantity)) return 'Quantity must be a whole number of units';
+  const commodity = getCommodity(id);
+  const held = getOwned(state, from, id);
+  if (held < quantity) return `Only ${held} ${commodity.name} free to ship in ${getRegion(from).name}`;
+  return lacksCash(state, quantity * getFreightPerUnit(commodity, from, to), 'freight')
+    ?? lacksSpace(state, to, commodity.category, quantity);
+};
+
+const checkOrder = (state: GameState, region: RegionId, id: string, type: OrderType, quantity: number, triggerPrice: number, expiryDay: number | null) => {
+  if (!state.markets[region]?.[id]) return 'Unknown market';
+  if (quantity <= 0 || !Number.isInteger(quantity)) return 'Quantity must be a whole number of units';
+  if (triggerPrice <= 0) return 'Trigger price must be positive';
+  if (expiryDay !== null && expiryDay <= state.day) return 'Expiry must be after today';
+  return isBuyOrder(type) ? lacksCash(state, quantity * triggerPrice, 'reserving the order') : null;
+};
+
+const checkWarehouse = (state: GameState, region: RegionId, category: CommodityCategory, isUpgrade: boolean) => {
+  const level = getWarehouseLevel(state, region, category);
+  if (isUpgrade && level === 0) return `No ${category} warehouse in ${getRegion(region).name} to upgrade`;
+  if (!isUpgrade && level > 0) return `${category} warehouse already built in ${getRegion(region).name}`;
+  return lacksCash(state, getWarehouseCost(category, level), isUpgrade ? 'the upgrade' : 'the warehouse');
+};
+
+/**
+ * Why the engine would turn an action away, or null if it would go through.
+ * Mirrors the guards in applyAction so the buttons and the console can explain
+ * a rejection instead of silently doing nothing.
+ */
+export const validateAction = (state: GameState, action: GameAction): string | null => {
+  switch (action.type) {
+    case 'TRADE':
+      return checkTrade(state, action.region, action.commodityId, action.quantity);
+    case 'SHIP':
+      return checkShipment(state, action.commodityId, action.from, action.to, action.quantity);
+    case 'UNLOCK_FACILITY':
+      return lacksCash(state, getUnlockCost(getCommodity(action.commodityId), action.region), 'the facility');
+    case 'UPGRADE_FACILITY':
+    case 'SELL_FACILITY':
+    case 'SERVICE_FACILITY':
+    case 'TOGGLE_PRODUCTION': {
+      const facility = state.facilities.find(f => f.id === action.facilityId);
+      if (!facility) return `No facility ${action.facilityId}`;
+      if (action.type === 'UPGRADE_FACILITY') {
+        return lacksCash(state, getUpgradeCost(getCommodity(facility.commodityId), facility.region, facility.level), 'the upgrade');
+      }
+      if (action.type === 'SERVICE_FACILITY') {
+        if (facility.condition >= 1 && !facility.isBrokenDown) return `${facility.name} needs no service`;
+        return lacksCash(state, getServiceCost(facility), 'the service');
+      }
+      if (action.type === 'SELL_FACILITY' && isPledged(state, facility.id)) return `${facility.name} is pledged against a loan`;
+      return null;
+    }
+    case 'ACCEPT_CONTRACT': {
+      const offer = state.contractOffers.find(c => c.id === action.contractId);
+      if (!offer) return `No open offer ${action.contractId}`;
+      if (state.reputation < offer.minReputation) return `${offer.client} needs reputation ${offer.minReputation}; yours is ${state.reputation}`;
+      return null;
+    }
+    case 'CANCEL_CONTRACT':
+      return state.contracts.some(c => c.id === action.contractId) ? null : `No accepted contract ${action.contractId}`;
+    case 'TAKE_LOAN':
+      return checkLoan(state, action.product, action.amount, action.termDays, action.collateralFacilityId);
+    case 'REPAY': {
+      const loan = state.loans.find(l => l.id === action.loanId);
+      if (!loan) return `No loan ${action.loanId}`;
+      if (action.amount <= 0) return 'Repayment must be positive';
+      return state.cash <= 0 ? 'No cash to repay with' : null;
+    }
+    case 'PLACE_ORDER':
+      return checkOrder(state, action.region, action.commodityId, action.orderType, action.quantity, action.triggerPrice, action.expiryDay);
+    case 'CANCEL_ORDER':
+      return state.orders.some(o => o.id === action.orderId) ? null : `No order ${action.orderId}`;
+    case 'BUILD_WAREHOUSE':
+      return checkWarehouse(state, action.region, action.category, false);
+    case 'UPGRADE_WAREHOUSE':
+      return checkWarehouse(state, action.region, action.category, true);
+    case 'SET_TAX_REGIME':
+      return TAX_REGIMES[action.regimeId] ? null : `No tax regime ${action.regimeId}`;
+    case 'PAY_TAX':
+      if (state.taxAccount.deferred <= 0) return 'No deferred tax to pay';
+      if (action.amount <= 0) return 'Payment must be positive';
+      return state.cash <= 0 ? 'No cash to pay with' : null;
+    case 'ADVANCE_DAY':
+    case 'SET_INTELLIGENCE':
+    case 'SET_COST_METHOD':
+    case 'SET_TAX_PAYMENT':
+      return null;
+  }
+};
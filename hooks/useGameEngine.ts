@@ -0,0 +1,40 @@
+import { useState, useRef, useCallback } from 'react';
+import { GameState, GameAction, EngineEvent } from '../types';
+import { applyAction } from '../engine/simulation';
+import { validateAction } from '../engine/validation';
+
+/**
+ * Holds the run in React state and funnels every change through the engine.
+ * The engine runs outside setState updaters, so the events it returns can be
+ * handed straight back to the caller without side effects leaking into render.
+ */
+export const useGameEngine = (init: () => GameState) => {
+  const [gameState, setGameState] = useState<GameState>(init);
+  const stateRef = useRef(gameState);
+
+  const dispatch = useCallback((action: GameAction): EngineEvent[] => {
+    const result = applyAction(stateRef.current, action);
+    stateRef.current = result.state;
+    setGameState(result.state);
+    return result.events;
+  }, []);
+
+  // The latest state, for callers that need it between renders
+  const getState = useCallback(() => stateRef.current, []);
+
+  // Checks an action against the latest state first; returns why it was refused, or null once applied
+  const submit = useCallback((action: GameAction): string | null => {
+    const error = validateAction(stateRef.current, action);
+    if (error) return error;
+    dispatch(action);
+    return null;
+  }, [dispatch]);
+
+  // Swaps in a whole run, e.g. a loaded save or a fresh game
+  const loadState = useCallback((state: GameState) => {
+    stateRef.current = state;
+    setGameState(state);
+  }, []);
+
+  return { gameState, dispatch, submit, getState, loadState };
+};
@@ -0,0 +1,93 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { BOT_LOG_LIMIT, BOT_MAX_DECISIONS } from '../constants';
+import { BotLogEntry, GameAction, GameState, StrategyBot } from '../types';
+import { createStrategyView, toGameAction } from '../engine/strategy';
+import { readBots, writeBots } from '../services/botStorage';
+import { disposeStrategy, runStrategy } from '../services/botSandbox';
+
+/**
+ * Gives every enabled bot one turn per game day. Decisions go through the same
+ * submit path as the buttons, one at a time, and each is converted and checked
+ * against the state the previous one left behind, read through getState.
+ */
+export const useStrategyBots = (gameState: GameState, submit: (action: GameAction) => string | null, getState: () => GameState) => {
+  const [bots, setBots] = useState<StrategyBot[]>(readBots);
+  const [logs, setLogs] = useState<Record<string, BotLogEntry[]>>({});
+  const nextEntryId = useRef(1);
+  const isRunning = useRef(false);
+  // The turn runs asynchronously, so it reads the latest submit rather than the one from its render
+  const submitRef = useRef(submit);
+  submitRef.current = submit;
+  // Turns run once per day, not when the list changes, so they read the latest bots the same way
+  const botsRef = useRef(bots);
+  botsRef.current = bots;
+
+  useEffect(() => writeBots(bots), [bots]);
+
+  const appendLog = useCallback((botId: string, entries: Omit<BotLogEntry, 'id'>[]) => {
+    if (entries.length === 0) return;
+    setLogs(prev => ({
+      ...prev,
+      [botId]: [...(prev[botId] || []), ...entries.map(e => ({ ...e, id: nextEntryId.current++ }))].slice(-BOT_LOG_LIMIT)
+    }));
+  }, []);
+
+  useEffect(() => {
+    const enabled = botsRef.current.filter(b => b.enabled);
+    // A day that arrives while the last turn is still out is skipped, not queued
+    if (enabled.length === 0 || isRunning.current) return;
+    isRunning.current = true;
+    const day = gameState.day;
+    const view = createStrategyView(gameState);
+
+    const takeTurns = async () => {
+      for (const bot of enabled) {
+        const result = await runStrategy(bot.id, bot.source, view);
+        const entries: Omit<BotLogEntry, 'id'>[] = result.logs.map(text => ({ day, kind: 'NOTE', text }));
+        if ('error' in result) {
+          entries.push({ day, kind: 'ERROR', text: result.error });
+        } else {
+          if (result.decisions.length > BOT_MAX_DECISIONS) {
+            entries.push({ day, kind: 'ERROR', text: `Only the first ${BOT_MAX_DECISIONS} of ${result.decisions.length} decisions were acted on` });
+          }
+          result.decisions.slice(0, BOT_MAX_DECISIONS).forEach(decision => {
+            const converted = toGameAction(decision, getState());
+            if ('error' in converted) {
+              entries.push({ day, kind: 'REJECTED', text: converted.error });
+              return;
+            }
+            const error = submitRef.current(converted.action);
+            entries.push(error ? { day, kind: 'REJECTED', text: `${converted.label}: ${error}` } : { day, kind: 'ACTION', text: converted.label });
+          });
+        }
+        appendLog(bot.id, entries);
+      }
+    };
+    takeTurns().finally(() => { isRunning.current = false; });
+  }, [gameState.day]);
+
+  // Saving new code restarts the bot so no state from the old version lingers
+  const saveBot = useCallback((bot: StrategyBot) => {
+    disposeStrategy(bot.id);
+    setBots(prev => prev.some(b => b.id === bot.id) ? prev.map(b => b.id === bot.id ? bot : b) : [...prev, bot]);
+  }, []);
+
+  const deleteBot = useCallback((botId: string) => {
+    disposeStrategy(botId);
+    setBots(prev => prev.filter(b => b.id !== botId));
+    setLogs(prev => {
+      const { [botId]: _, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const toggleBot = useCallback((botId: string) => {
+    setBots(prev => prev.map(b => b.id === botId ? { ...b, enabled: !b.enabled } : b));
+  }, []);
+
+  const clearLog = useCallback((botId: string) => {
+    setLogs(prev => ({ ...prev, [botId]: [] }));
+  }, []);
+
+  return { bots, logs, saveBot, deleteBot, toggleBot, clearLog };
+};
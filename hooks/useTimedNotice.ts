@@ -0,0 +1,20 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+
+/**
+ * A toast value that clears itself after a while. Showing a new value restarts
+ * the clock, so at high game speeds an older timer cannot cut a newer notice short.
+ */
+export const useTimedNotice = <T>(durationMs = 6000) => {
+  const [notice, setNotice] = useState<T | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const show = useCallback((value: T) => {
+    clearTimeout(timer.current);
+    setNotice(value);
+    timer.current = setTimeout(() => setNotice(null), durationMs);
+  }, [durationMs]);
+
+  useEffect(() => () => clearTimeout(timer.current), []);
+
+  return [notice, show] as const;
+};
@@ -0,0 +1,103 @@
+import { BOT_TIME_BUDGET_MS } from '../constants';
+import { StrategyView } from '../engine/strategy';
+
+export type SandboxResult = { decisions: unknown[]; logs: string[] } | { error: string; logs: string[] };
+
+// Runs inside the worker, wrapped so nothing it declares is reachable from the
+// global scope strategies compile in. Outbound channels are deleted along the
+// whole prototype chain of the global and pinned to undefined before any
+// strategy code loads; if one survives, every tick fails instead. import() is
+// syntax rather than a global, so sources using the word are refused, and every
+// way of compiling new code from a string is taken away first. Results are
+// posted through a reference taken beforehand and copied through JSON, so only
+// plain data comes back.
+const WORKER_SOURCE = `
+'use strict';
+(() => {
+  const post = self.postMessage.bind(self);
+  const compile = Function;
+  let onTick = null;
+  let compiledSource = null;
+  let logs = [];
+  const log = (...parts) => logs.push(parts.map(p => typeof p === 'string' ? p : JSON.stringify(p)).join(' '));
+  self.onmessage = (e) => {
+    const { source, view } = e.data;
+    logs = [];
+    try {
+      if (setupError) throw new Error(setupError);
+      if (source !== compiledSource) {
+        if (/\\bimport\\b/.test(source)) throw new Error('Strategies cannot use import, not even in comments or strings');
+        onTick = compile('log', '"use strict";\\n' + source + '\\nreturn typeof onTick === "function" ? onTick : null;')(log);
+        compiledSource = source;
+      }
+      if (!onTick) throw new Error('Strategy does not define onTick(view)');
+      const decisions = onTick(view);
+      if (!Array.isArray(decisions)) throw new Error('onTick must return an array of decisions');
+      post({ decisions: JSON.parse(JSON.stringify(decisions)), logs });
+    } catch (err) {
+      post({ error: String((err && err.message) || err), logs });
+    }
+  };
+
+  // The handler above stays registered once the accessor that set it is gone
+  const BLOCKED = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel',
+    'Worker', 'SharedWorker', 'postMessage', 'onmessage', 'addEventListener', 'removeEventListener', 'dispatchEvent',
+    'eval', 'Function', 'setTimeout', 'setInterval'
+  ];
+  // Every function reaches its constructor through the prototype, async and generator kinds included
+  [function () {}, async function () {}, function* () {}, async function* () {}].forEach(fn => {
+    Object.defineProperty(Object.getPrototypeOf(fn), 'constructor', { value: undefined, writable: false, configurable: false });
+  });
+  const chain = [];
+  for (let target = self; target; target = Object.getPrototypeOf(target)) chain.push(target);
+  chain.forEach(target => BLOCKED.forEach(name => Reflect.deleteProperty(target, name)));
+  const leaked = BLOCKED.filter(name => chain.some(target => Object.prototype.hasOwnProperty.call(target, name)));
+  BLOCKED.forEach(name => {
+    if (!leaked.includes(name)) Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false });
+  });
+  const setupError = leaked.length > 0 ? 'Sandbox could not remove ' + leaked.join(', ') + '; strategies are disabled' : null;
+})();
+`;
+
+// One long-lived worker per bot, so a strategy's top-level variables carry over between days
+const workers = new Map<string, Worker>();
+
+const getWorker = (botId: string) => {
+  const existing = workers.get(botId);
+  if (existing) return existing;
+  const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  URL.revokeObjectURL(url);
+  workers.set(botId, worker);
+  return worker;
+};
+
+export const disposeStrategy = (botId: string) => {
+  workers.get(botId)?.terminate();
+  workers.delete(botId);
+};
+
+/**
+ * Runs one tick of a strategy in its worker. A strategy that overruns the time
+ * budget has its worker terminated, which also clears whatever it remembered.
+ */
+export const runStrategy = (botId: string, source: string, view: StrategyView): Promise<SandboxResult> =>
+  new Promise(resolve => {
+    const worker = getWorker(botId);
+    const timer = setTimeout(() => {
+      disposeStrategy(botId);
+      resolve({ error: `No answer within ${BOT_TIME_BUDGET_MS}ms; strategy was restarted`, logs: [] });
+    }, BOT_TIME_BUDGET_MS);
+    worker.onmessage = (e: MessageEvent<SandboxResult>) => {
+      clearTimeout(timer);
+      resolve(e.data);
+    };
+    worker.onerror = (e: ErrorEvent) => {
+      clearTimeout(timer);
+      e.preventDefault();
+      disposeStrategy(botId);
+      resolve({ error: e.message, logs: [] });
+    };
+    worker.postMessage({ source, view });
+  });
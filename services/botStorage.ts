@@ -0,0 +1,23 @@
+import { StrategyBot } from '../types';
+
+const KEY = 'globalTrader.bots';
+
+const isBot = (value: unknown): value is StrategyBot => {
+  if (typeof value !== 'object' || value === null) return false;
+  const bot = value as Record<string, unknown>;
+  return typeof bot.id === 'string' && typeof bot.name === 'string' && typeof bot.source === 'string' && typeof bot.enabled === 'boolean';
+};
+
+// Anything unreadable or malformed starts over with no bots
+export const readBots = (): StrategyBot[] => {
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(KEY) || '[]');
+    return Array.isArray(stored) && stored.every(isBot) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+export const writeBots = (bots: StrategyBot[]) => {
+  localStorage.setItem(KEY, JSON.stringify(bots));
+};
@@ -0,0 +1,18 @@
+import { IndicatorSettings } from '../types';
+
+const KEY = 'globalTrader.chartSettings';
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = { enabled: [], maPeriod: 20 };
+
+// Settings per commodity id; anything unreadable starts over empty
+export const readChartSettings = (): Record<string, IndicatorSettings> => {
+  try {
+    return JSON.parse(localStorage.getItem(KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const writeChartSettings = (settings: Record<string, IndicatorSettings>) => {
+  localStorage.setItem(KEY, JSON.stringify(settings));
+};
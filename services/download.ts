@@ -0,0 +1,11 @@
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const toFileName = (name: string, fallback: string) => name.replace(/[^a-z0-9-_]+/gi, '_') || fallback;
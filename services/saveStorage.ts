@@ -0,0 +1,54 @@
+import { GameState, SaveFile, SaveSlotSummary } from '../types';
+import { createSaveFile, serializeSave, parseSave } from '../engine/saves';
+import { getNetEquity } from '../engine/economy';
+import { downloadFile, toFileName } from './download';
+
+const KEY_PREFIX = 'globalTrader.save.';
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Saves keep the whole run; when browser storage cannot hold it the error says so rather than dropping history
+export const writeSave = (slotId: string, name: string, state: GameState): SaveFile => {
+  const save = createSaveFile(state, name);
+  const json = serializeSave(save);
+  try {
+    localStorage.setItem(KEY_PREFIX + slotId, json);
+  } catch (e) {
+    if (!isQuotaError(e)) throw e;
+    throw new Error(`Browser storage is full (this save is ${Math.ceil(json.length / 1024)} KB); delete old slots or export the run to a file`);
+  }
+  return save;
+};
+
+export const readSave = (slotId: string): SaveFile | null => {
+  const json = localStorage.getItem(KEY_PREFIX + slotId);
+  return json === null ? null : parseSave(json);
+};
+
+export const deleteSave = (slotId: string) => {
+  localStorage.removeItem(KEY_PREFIX + slotId);
+};
+
+// Unreadable slots are skipped rather than breaking the whole list
+export const listSaves = (): SaveSlotSummary[] => {
+  const summaries: SaveSlotSummary[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(KEY_PREFIX)) continue;
+    const slotId = key.slice(KEY_PREFIX.length);
+    try {
+      const save = readSave(slotId);
+      if (!save) continue;
+      summaries.push({ slotId, name: save.name, savedAt: save.savedAt, day: save.state.day, netEquity: getNetEquity(save.state) });
+    } catch {
+      continue;
+    }
+  }
+  return summaries.sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const downloadSave = (name: string, state: GameState) =>
+  downloadFile(`${toFileName(name, 'save')}-day${state.day}.json`, serializeSave(createSaveFile(state, name)), 'application/json');
+
+export const readSaveFromFile = async (file: File): Promise<SaveFile> => parseSave(await file.text());
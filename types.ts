@@ -6,49 +6,400 @@ export enum CommodityCategory {
   LIVESTOCK = 'Livestock'
 }
 
-export interface GlobalEvent {
+export type RegionId = 'AMERICAS' | 'EUROPE' | 'ASIA';
+
+export interface Region {
+  id: RegionId;
+  name: string;
+  icon: string;
+  costMultiplier: number; // construction, upgrades and running cost
+  yieldMultiplier: number; // units per completed batch
+  // Structural premium (+) or discount (-) of the local exchange against the global index
+  priceSpread: Partial<Record<CommodityCategory, number>>;
+}
+
+// Each field that is set narrows who is hit; an empty target hits everything everywhere
+export interface EventTarget {
+  commodityId?: string;
+  category?: CommodityCategory;
+  // Local disasters move only this region's exchange and facilities
+  region?: RegionId;
+}
+
+// Multipliers applied while an event runs; an omitted effect is 1
+export interface EventEffects {
+  price?: number;
+  volatility?: number;
+  yield?: number;
+  interestRate?: number;
+  taxRate?: number;
+}
+
+export interface EventFollowUp {
+  eventId: string;
+  chance: number;
+  // Days after the parent ends
+  delay: number;
+}
+
+export interface EventDefinition {
+  id: string;
   name: string;
   description: string;
-  category: CommodityCategory | 'ALL';
-  multiplier: number;
+  target: EventTarget;
+  effects: EventEffects;
+  // Relative odds in the random roll; 0 means it only ever arrives as a follow-up
+  weight: number;
+  minDuration: number;
+  maxDuration: number;
+  // Days after it ends before it can roll again
+  cooldown: number;
+  // Ids of events that must be running for this one to roll
+  requires?: string[];
+  followUps?: EventFollowUp[];
+}
+
+export interface ActiveEvent {
+  eventId: string;
+  startedDay: number;
   duration: number;
   remainingDays: number;
 }
 
+export interface ScheduledEvent {
+  eventId: string;
+  day: number;
+}
+
+export type NewsKind = 'RUMOR' | 'BREAKING' | 'ENDED' | 'DEBUNKED';
+
+export interface NewsItem {
+  id: number;
+  day: number;
+  kind: NewsKind;
+  eventId: string;
+  headline: string;
+  // Rumors only: the published confidence and the day the event is said to hit
+  reliability: number | null;
+  expectedDay: number | null;
+}
+
+// Engine-side truth behind a published rumor; never shown until it resolves
+export interface PendingRumor {
+  newsId: number;
+  eventId: string;
+  expectedDay: number;
+  isTrue: boolean;
+}
+
+export interface RecipeOption {
+  commodityId: string;
+  quantity: number;
+}
+
+// One input slot of a recipe; any single option satisfies it, tried in order
+export interface RecipeInput {
+  label: string;
+  options: RecipeOption[];
+}
+
+export type PriceModelConfig =
+  // Uniform daily move of up to +/-volatility, pulled toward the target by `gravity` of the gap
+  | { kind: 'RANDOM_WALK'; gravity: number }
+  // Log price reverts toward the target (Ornstein-Uhlenbeck) with normal shocks
+  | { kind: 'MEAN_REVERTING'; reversion: number }
+  // Mean-reverting diffusion plus rare jumps in log price
+  | { kind: 'JUMP_DIFFUSION'; reversion: number; jumpChance: number; jumpMean: number; jumpVolatility: number };
+
+// Sine wave on the price target over a SEASON_LENGTH-day year
+export interface Seasonality {
+  amplitude: number;
+  // Day of the year the target peaks
+  peakDay: number;
+}
+
+// Order book shape of each exchange for a commodity
+export interface MarketLiquidity {
+  // Full bid/ask spread as a share of the mid price
+  spread: number;
+  // Units it takes to move the price by 100%; impact scales linearly below that
+  depth: number;
+}
+
 export interface Commodity {
   id: string;
   name: string;
   category: CommodityCategory;
   basePrice: number;
   volatility: number;
+  priceModel: PriceModelConfig;
+  seasonality?: Seasonality;
+  liquidity: MarketLiquidity;
   icon: string;
   productionCost: number;
   productionYield: number;
+  // Inputs consumed per completed batch; primary producers have none
+  recipe?: RecipeInput[];
 }
 
+// One day of trading; a tuple rather than an object to keep long histories small in saves
+export type PriceBar = [open: number, high: number, low: number, close: number];
+
 export interface MarketPrice {
   id: string;
   currentPrice: number;
-  history: number[];
+  // Every day since the market opened, oldest first; the last bar is today's
+  history: PriceBar[];
   trend: 'up' | 'down' | 'stable';
 }
 
+export type CostMethod = 'FIFO' | 'AVERAGE';
+
+export interface InventoryLot {
+  quantity: number;
+  unitCost: number;
+  acquiredDay: number;
+  source: 'MARKET' | 'PRODUCTION' | 'SHIPMENT';
+}
+
 export interface InventoryItem {
   commodityId: string;
+  region: RegionId;
   quantity: number;
+  // Oldest first; quantities always sum to `quantity`
+  lots: InventoryLot[];
+  realizedPnl: number;
+}
+
+// Running totals since the facility was built
+export interface FacilityStats {
+  batches: number;
+  unitsProduced: number;
+  // Output marked at the local price on the day each batch completed
+  outputValue: number;
+  runningCosts: number;
+  // Cost basis of the inputs each batch consumed
+  inputCosts: number;
+  // Servicing and breakdown repairs
+  maintenanceCosts: number;
 }
 
 export interface ProductionFacility {
+  id: string;
+  name: string;
   commodityId: string;
+  region: RegionId;
   level: number;
   isProducing: boolean;
   progress: number;
+  // Why the current batch cannot finish, or null while running normally
+  stallReason: string | null;
+  stats: FacilityStats;
+  // 1 when new or just serviced; wears down on every day of production
+  condition: number;
+  // Halted by a breakdown until serviced
+  isBrokenDown: boolean;
+  // Construction and upgrade spend less depreciation; what the site counts for in equity and sells for
+  bookValue: number;
+  // Construction and upgrade spend not yet depreciated for tax
+  taxBasis: number;
+}
+
+export interface ShortPosition {
+  commodityId: string;
+  region: RegionId;
+  quantity: number;
+  entryPrice: number; // volume-weighted price the units were borrowed and sold at
+  openedDay: number;
+}
+
+export interface MarginCall {
+  issuedDay: number;
+  deadlineDay: number;
+  // Equity needed on top of the current level to get back to maintenance
+  shortfall: number;
+}
+
+export type OrderType = 'BUY_LIMIT' | 'SELL_LIMIT' | 'STOP_LOSS' | 'TAKE_PROFIT';
+
+export interface StandingOrder {
+  id: string;
+  commodityId: string;
+  region: RegionId;
+  type: OrderType;
+  quantity: number;
+  triggerPrice: number;
+  placedDay: number;
+  expiryDay: number | null;
+  // Cash held in escrow for buy orders; refunded on cancel or expiry
+  reservedCash: number;
+}
+
+// Why an order left the book without filling
+export type OrderCloseReason = 'EXPIRED' | 'NO_INVENTORY' | 'NO_CASH' | 'NO_SPACE';
+
+export interface OrderFill {
+  orderId: string;
+  commodityId: string;
+  region: RegionId;
+  type: OrderType;
+  quantity: number;
+  price: number;
+  day: number;
+}
+
+// Bands of client work; each needs a better track record and pays more for it
+export interface ContractTier {
+  name: string;
+  minReputation: number;
+  // Contract value at spot when offered
+  minValue: number;
+  maxValue: number;
+  // Range of the contract price over spot; negative is a discount
+  minPremium: number;
+  maxPremium: number;
+  // Charged on a missed delivery, as a share of the contract value
+  penaltyRate: number;
+  reputationGain: number;
+  reputationLoss: number;
+}
+
+export interface SupplyContract {
+  id: string;
+  client: string;
+  tier: number; // index into CONTRACT_TIERS
+  commodityId: string;
+  // Where the goods must be held for delivery
+  region: RegionId;
+  quantity: number;
+  price: number; // per unit, fixed when offered
+  premium: number; // over spot when offered
+  minReputation: number;
+  penalty: number;
+  offeredDay: number;
+  offerExpiryDay: number; // last day it can be accepted
+  deadlineDay: number; // stock must be in place by the end of this day
+  acceptedDay: number | null;
+  // Units in the region held back for this contract; it delivers once they cover the quantity
+  reserved: number;
+}
+
+export interface ContractOutcome {
+  contract: SupplyContract;
+  day: number;
+  // WALKED_AWAY is a default the player chose before the deadline
+  status: 'DELIVERED' | 'DEFAULTED' | 'WALKED_AWAY';
+  // Payment received, or the penalty charged as a negative
+  cashDelta: number;
+  reputationDelta: number;
+}
+
+export interface Warehouse {
+  region: RegionId;
+  category: CommodityCategory;
+  level: number;
+}
+
+export interface WarehouseSpec {
+  baseCapacity: number; // units stored without any warehouse
+  capacityPerLevel: number;
+  buildCost: number;
+  storageFee: number; // per unit per day
+  spoilageRate: number; // fraction of held units lost per day
+}
+
+export type LoanProduct = 'REVOLVER' | 'TERM' | 'SECURED';
+
+export interface Loan {
+  id: string;
+  product: LoanProduct;
+  balance: number;
+  // Daily rate; the revolver floats with the rating, term rates are locked at origination
+  rate: number;
+  originatedDay: number;
+  // Amortizing products only; null on the revolver
+  installment: number | null;
+  nextDueDay: number | null;
+  maturityDay: number | null;
+  missedPayments: number;
+  collateralFacilityId: string | null;
+}
+
+export interface CreditRating {
+  grade: string;
+  minScore: number;
+  rateMultiplier: number;
+  // Unsecured credit limit as a multiple of net equity
+  limitFactor: number;
+}
+
+export interface CreditHistory {
+  onTimePayments: number;
+  missedPayments: number;
+}
+
+export interface ScheduledPayment {
+  loanId: string;
+  dueDay: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  balanceAfter: number;
+}
+
+export interface Shipment {
+  id: string;
+  commodityId: string;
+  from: RegionId;
+  to: RegionId;
+  quantity: number;
+  // Cost basis carried from the origin lots plus freight
+  unitCost: number;
+  departedDay: number;
+  arrivalDay: number;
+}
+
+export type JournalKind =
+  | 'BUY' | 'SELL' | 'SHORT_SALE' | 'SHORT_COVER'
+  | 'ORDER_ESCROW' | 'ORDER_RELEASE'
+  | 'PRODUCTION' | 'OVERFLOW_SALE' | 'CONSTRUCTION' | 'UPGRADE' | 'FACILITY_SALE' | 'MAINTENANCE'
+  | 'WAREHOUSE' | 'STORAGE_FEE' | 'SPOILAGE' | 'SHIPPING'
+  | 'LOAN' | 'REPAYMENT' | 'INTEREST' | 'LATE_FEE' | 'COLLATERAL_SEIZURE' | 'BORROW_FEE' | 'TAX'
+  | 'SUBSCRIPTION' | 'CONTRACT_DELIVERY' | 'CONTRACT_PENALTY';
+
+export interface JournalEntry {
+  id: number;
+  day: number;
+  kind: JournalKind;
+  commodityId: string | null;
+  region: RegionId | null;
+  quantity: number | null;
+  price: number | null;
+  cashDelta: number;
+  debtDelta: number;
+  cashAfter: number;
+  memo?: string;
+}
+
+// End-of-day balance sheet; assets less debt equals equity
+export interface NetWorthSnapshot {
+  day: number;
+  // Includes cash escrowed in open buy orders
+  cash: number;
+  inventory: number;
+  infrastructure: number;
+  // Loan balances, deferred tax and the cost of buying back every short
+  debt: number;
+  equity: number;
 }
 
 export interface DailyLedger {
   sales: number;
   purchases: number;
   productionCosts: number;
+  storageCosts: number;
+  shippingCosts: number;
+  spoilageLosses: number; // cost basis of spoiled units; non-cash, so not in net
   net: number;
 }
 
@@ -58,21 +409,242 @@ export interface LifetimeStats {
   totalProductionCosts: number;
   totalConstruction: number;
   totalUpgrades: number;
+  totalMaintenance: number;
   totalInterestPaid: number;
   totalTaxesPaid: number;
+  totalBorrowFees: number;
+  totalStorageFees: number;
+  totalShippingCosts: number;
+  totalSubscriptionFees: number;
+  totalSpoilageLosses: number;
+  totalContractPenalties: number;
+}
+
+export type TaxRegimeId = 'PROGRESSIVE' | 'FLAT' | 'ENTERPRISE';
+
+// Rate charged on the slice of a period's taxable income up to `upTo`; null is the top bracket
+export interface TaxBracket {
+  upTo: number | null;
+  rate: number;
+}
+
+export interface TaxRegime {
+  id: TaxRegimeId;
+  name: string;
+  description: string;
+  // Operating income, per filing period
+  brackets: TaxBracket[];
+  capitalGainsRate: number;
+  // Share of undepreciated capex written off at each filing
+  depreciationRate: number;
+  // Charged on deferred tax at each filing it stays unpaid
+  deferralPenaltyRate: number;
+}
+
+// PAY settles the bill from cash at filing, deferring only what cash cannot cover
+export type TaxPaymentMode = 'PAY' | 'DEFER';
+
+// The filing period in progress plus what carries from one filing to the next
+export interface TaxAccount {
+  // Regime this period is assessed under; a new election applies from the next period
+  regimeId: TaxRegimeId;
+  periodStartDay: number;
+  // Journal entries from this index on belong to the period
+  journalStart: number;
+  // Realized on own output sold where it was made, overflow dumps included
+  operatingProfit: number;
+  // Realized on everything else: bought and shipped goods, shorts and facility disposals
+  capitalGains: number;
+  // Losses carried forward; operating losses only offset operating income, capital only gains
+  operatingLosses: number;
+  capitalLosses: number;
+  // Undepreciated warehouse spend; facilities carry their own
+  warehouseBasis: number;
+  // Tax owed but not yet paid, penalties included
+  deferred: number;
+}
+
+export interface TaxDeductions {
+  depreciation: number;
+  maintenance: number;
+  interest: number;
+  storageFees: number;
+  borrowFees: number;
+  subscriptions: number;
+}
+
+export interface TaxFiling {
+  day: number;
+  periodStartDay: number;
+  regimeId: TaxRegimeId;
+  operatingProfit: number;
+  deductions: TaxDeductions;
+  operatingLossUsed: number;
+  taxableIncome: number;
+  incomeTax: number;
+  capitalGains: number;
+  capitalLossUsed: number;
+  taxableGains: number;
+  capitalGainsTax: number;
+  // Event surcharge applied to both taxes
+  rateMultiplier: number;
+  // This period's taxes, then the penalty on what was already deferred
+  due: number;
+  penalty: number;
+  paid: number;
+  // Owed after the filing, carried to the next
+  deferredBalance: number;
+  operatingLossCarried: number;
+  capitalLossCarried: number;
 }
 
 export interface GameState {
   cash: number;
-  debt: number;
+  loans: Loan[];
+  nextLoanId: number;
+  creditHistory: CreditHistory;
   day: number;
   cycleProgress: number;
   inventory: InventoryItem[];
+  costMethod: CostMethod;
   facilities: ProductionFacility[];
+  warehouses: Warehouse[];
+  // Global index per commodity; every trade happens on a regional exchange in `markets`
   prices: Record<string, MarketPrice>;
+  markets: Record<RegionId, Record<string, MarketPrice>>;
+  shipments: Shipment[];
+  nextShipmentId: number;
   lastLedger: DailyLedger;
+  journal: JournalEntry[];
+  netWorthHistory: NetWorthSnapshot[];
   lifetime: LifetimeStats;
-  activeEvent: GlobalEvent | null;
-  taxRate: number;
+  activeEvents: ActiveEvent[];
+  // Events that have run their course, oldest first
+  eventHistory: ActiveEvent[];
+  // Day each event id may roll again
+  eventCooldowns: Record<string, number>;
+  // Follow-ups and rumored events waiting to start
+  scheduledEvents: ScheduledEvent[];
+  news: NewsItem[];
+  nextNewsId: number;
+  pendingRumors: PendingRumor[];
+  hasIntelligence: boolean;
+  // Elected regime; takes over from taxAccount.regimeId at the next filing
+  taxRegime: TaxRegimeId;
+  taxPayment: TaxPaymentMode;
+  taxAccount: TaxAccount;
+  // Most recent last
+  taxFilings: TaxFiling[];
   nextTaxDay: number;
+  // Running totals for the ledger cycle in progress; rolled into lastLedger on close
+  cycleLedger: DailyLedger;
+  shortPositions: ShortPosition[];
+  marginCall: MarginCall | null;
+  orders: StandingOrder[];
+  orderFills: OrderFill[];
+  nextOrderId: number;
+  // 0 to 100; unlocks bigger contract tiers
+  reputation: number;
+  contractOffers: SupplyContract[];
+  // Accepted and awaiting delivery, in the order they claim inventory
+  contracts: SupplyContract[];
+  // Most recent last
+  contractHistory: ContractOutcome[];
+  nextContractId: number;
+  nextFacilityId: number;
+  seed: number;
+  rngState: number;
 }
+
+export type GameAction =
+  | { type: 'ADVANCE_DAY' }
+  | { type: 'TRADE'; region: RegionId; commodityId: string; quantity: number }
+  | { type: 'SHIP'; commodityId: string; from: RegionId; to: RegionId; quantity: number }
+  | { type: 'UNLOCK_FACILITY'; commodityId: string; region: RegionId }
+  | { type: 'UPGRADE_FACILITY'; facilityId: string }
+  | { type: 'SELL_FACILITY'; facilityId: string }
+  | { type: 'SERVICE_FACILITY'; facilityId: string }
+  | { type: 'TOGGLE_PRODUCTION'; facilityId: string }
+  | { type: 'TAKE_LOAN'; product: LoanProduct; amount: number; termDays?: number; collateralFacilityId?: string }
+  | { type: 'REPAY'; loanId: string; amount: number }
+  | { type: 'PLACE_ORDER'; region: RegionId; commodityId: string; orderType: OrderType; quantity: number; triggerPrice: number; expiryDay: number | null }
+  | { type: 'CANCEL_ORDER'; orderId: string }
+  | { type: 'SET_INTELLIGENCE'; enabled: boolean }
+  | { type: 'SET_COST_METHOD'; method: CostMethod }
+  | { type: 'BUILD_WAREHOUSE'; region: RegionId; category: CommodityCategory }
+  | { type: 'UPGRADE_WAREHOUSE'; region: RegionId; category: CommodityCategory }
+  | { type: 'SET_TAX_REGIME'; regimeId: TaxRegimeId }
+  | { type: 'SET_TAX_PAYMENT'; mode: TaxPaymentMode }
+  | { type: 'PAY_TAX'; amount: number }
+  | { type: 'ACCEPT_CONTRACT'; contractId: string }
+  | { type: 'CANCEL_CONTRACT'; contractId: string };
+
+export type EngineEvent =
+  | { type: 'TAX_FILED'; day: number; filing: TaxFiling }
+  | { type: 'EVENT_STARTED'; day: number; event: ActiveEvent }
+  | { type: 'EVENT_ENDED'; day: number; event: ActiveEvent }
+  | { type: 'PRODUCTION_COMPLETED'; day: number; facilityId: string; commodityId: string; quantity: number }
+  | { type: 'PRODUCTION_STALLED'; day: number; facilityId: string; commodityId: string; reason: string }
+  | { type: 'FACILITY_BROKE_DOWN'; day: number; facilityId: string; commodityId: string; region: RegionId }
+  | { type: 'PRODUCTION_OVERFLOW'; day: number; facilityId: string; commodityId: string; quantity: number; proceeds: number }
+  | { type: 'SPOILAGE'; day: number; region: RegionId; commodityId: string; quantity: number; loss: number }
+  | { type: 'SHIPMENT_ARRIVED'; day: number; shipment: Shipment }
+  | { type: 'LEDGER_CLOSED'; day: number; ledger: DailyLedger }
+  | { type: 'ORDER_FILLED'; day: number; fill: OrderFill }
+  | { type: 'MARGIN_CALL'; day: number; call: MarginCall }
+  | { type: 'MARGIN_CALL_CLEARED'; day: number }
+  | { type: 'INSTALLMENT_MISSED'; day: number; loanId: string; amount: number }
+  | { type: 'COLLATERAL_SEIZED'; day: number; loanId: string; facilityId: string }
+  | { type: 'FORCED_LIQUIDATION'; day: number; covered: { commodityId: string; region: RegionId; quantity: number; price: number }[] }
+  | { type: 'ORDER_CLOSED'; day: number; order: StandingOrder; reason: OrderCloseReason }
+  | { type: 'CONTRACT_SETTLED'; day: number; outcome: ContractOutcome };
+
+export interface StepResult {
+  state: GameState;
+  events: EngineEvent[];
+}
+
+export interface SaveFile {
+  version: number;
+  name: string;
+  savedAt: string; // ISO timestamp
+  state: GameState;
+}
+
+export interface SaveSlotSummary {
+  slotId: string;
+  name: string;
+  savedAt: string;
+  day: number;
+  netEquity: number;
+}
+
+export type IndicatorId = 'SMA' | 'EMA' | 'BOLLINGER' | 'RSI' | 'MACD' | 'VOLATILITY';
+
+// Market chart view for one commodity; kept in the browser, not in saves
+export interface IndicatorSettings {
+  enabled: IndicatorId[];
+  maPeriod: number;
+}
+
+// A player-written strategy; kept in the browser, not in saves
+export interface StrategyBot {
+  id: string;
+  name: string;
+  source: string;
+  enabled: boolean;
+}
+
+export interface BotLogEntry {
+  id: number;
+  day: number;
+  kind: 'ACTION' | 'REJECTED' | 'NOTE' | 'ERROR';
+  text: string;
+}
+
+// What a fast-forward runs until; important events stop it early regardless
+export type FastForwardTarget =
+  | { kind: 'DAY'; day: number }
+  | { kind: 'TAX_AUDIT'; day: number }
+  | { kind: 'EVENT_END'; eventId: string }
+  | { kind: 'PRICE_ALERT'; region: RegionId; commodityId: string; direction: 'ABOVE' | 'BELOW'; price: number };